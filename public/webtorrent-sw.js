@@ -0,0 +1,110 @@
+// public/webtorrent-sw.js
+// Service worker for in-browser torrent playback. It implements the protocol of
+// webtorrent's lib/worker-server.js: requests under `<scope>webtorrent/` are relayed
+// to the page over a MessageChannel, where WebTorrent (client.createServer({ controller }))
+// answers them with file ranges. Everything else passes through untouched.
+
+const PORT_TIMEOUT = 5000; // Firefox can't cancel streams in a worker; drop idle ones instead
+const ANSWER_TIMEOUT = 20000; // No tab answering means the one playing the torrent was closed
+let cancellable = false;
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('fetch', (event) => {
+  const { url } = event.request;
+  const prefix = self.registration.scope + 'webtorrent/';
+  if (!url.startsWith(prefix)) return;
+
+  if (url.startsWith(prefix + 'keepalive/')) {
+    event.respondWith(new Response());
+    return;
+  }
+  if (url.startsWith(prefix + 'cancel/')) {
+    event.respondWith(new Response(new ReadableStream({
+      cancel() {
+        cancellable = true;
+      },
+    })));
+    return;
+  }
+  event.respondWith(serve(event.request));
+});
+
+async function serve(request) {
+  const { url, method, headers, destination } = request;
+  const windowClients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+
+  // Ask every open tab; the one holding the torrent answers first.
+  let answerTimeout = null;
+  const answer = await new Promise((resolve) => {
+    answerTimeout = setTimeout(() => resolve(null), ANSWER_TIMEOUT);
+    for (const client of windowClients) {
+      const { port1, port2 } = new MessageChannel();
+      port1.onmessage = ({ data }) => resolve([data, port1]);
+      client.postMessage({
+        url,
+        method,
+        headers: Object.fromEntries(headers.entries()),
+        scope: self.registration.scope,
+        destination,
+        type: 'webtorrent',
+      }, [port2]);
+    }
+  });
+  clearTimeout(answerTimeout);
+
+  if (!answer) {
+    return new Response('The tab that was playing this torrent did not answer. Reopen the video to try again.', {
+      status: 504,
+      statusText: 'Gateway Timeout',
+      headers: { 'Content-Type': 'text/plain' },
+    });
+  }
+  const [data, port] = answer;
+  let timeout = null;
+  const cleanup = () => {
+    port.postMessage(false); // Tell the page to stop reading
+    clearTimeout(timeout);
+    port.onmessage = null;
+  };
+
+  if (data.body !== 'STREAM') {
+    cleanup();
+    return new Response(data.body, data);
+  }
+
+  return new Response(new ReadableStream({
+    pull(controller) {
+      return new Promise((resolve) => {
+        port.onmessage = ({ data: chunk }) => {
+          if (chunk) {
+            controller.enqueue(chunk); // Uint8Array
+          } else {
+            cleanup();
+            controller.close(); // null marks the end of the range
+          }
+          resolve();
+        };
+        if (!cancellable) {
+          clearTimeout(timeout);
+          if (destination !== 'document') {
+            timeout = setTimeout(() => {
+              cleanup();
+              resolve();
+            }, PORT_TIMEOUT);
+          }
+        }
+        port.postMessage(true); // Ask for the next chunk
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  }), data);
+}
@@ -0,0 +1,230 @@
+// scripts/check-http-downloads.ts
+// End-to-end check of the server's HTTP download engine against a local server: resuming with
+// Range requests, a file that changed on the server (If-Range/ETag), retries on a server without
+// range support, checksum mismatches and pausing during verification. Run with
+// `npm run server:check-http`; it exits non-zero if any case fails.
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import type { AddressInfo } from 'net';
+import type { Aria2DownloadItemDisplay, DownloadEventType } from '../src/types/download';
+
+type HttpDownloadManager = typeof import('../src/server/httpDownloadManager').default;
+
+// What the local server serves at /<name>, and how.
+interface ServedFile {
+  data: Buffer;
+  etag?: string;
+  ranges: boolean;
+  throttle?: boolean; // Small chunks with pauses in between, so there's time to pause the download
+  dropFirstDownload?: boolean; // Cuts the first full-body response off halfway
+  requests: { range?: string; ifRange?: string }[];
+}
+
+const MB = 1024 * 1024;
+const CHUNK_SIZE = 64 * 1024;
+const CHUNK_DELAY = 20; // ms between throttled chunks, about 3 MB/s
+const EVENT_TIMEOUT = 30000;
+
+const files = new Map<string, ServedFile>();
+
+const sha256 = (data: Buffer | string) => crypto.createHash('sha256').update(data).digest('hex');
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+async function writeBody(res: http.ServerResponse, body: Buffer, file: ServedFile, cutOff: boolean) {
+  const end = cutOff ? Math.floor(body.length / 2) : body.length;
+  for (let offset = 0; offset < end && !res.destroyed; offset += CHUNK_SIZE) {
+    res.write(body.subarray(offset, Math.min(end, offset + CHUNK_SIZE)));
+    if (file.throttle || cutOff) await sleep(CHUNK_DELAY);
+  }
+  if (cutOff) res.destroy();
+  else res.end();
+}
+
+const server = http.createServer((req, res) => {
+  const file = files.get(decodeURIComponent((req.url || '/').slice(1)));
+  if (!file) {
+    res.writeHead(404).end();
+    return;
+  }
+  const range = req.headers.range;
+  const ifRange = req.headers['if-range'] as string | undefined;
+  file.requests.push({ range, ifRange });
+  res.on('error', () => undefined); // The client may hang up mid-body
+
+  const headers: http.OutgoingHttpHeaders = { 'Content-Type': 'application/octet-stream' };
+  if (file.etag) headers.ETag = file.etag;
+  const match = range?.match(/^bytes=(\d+)-(\d*)$/);
+  // Like any server that honours If-Range: a stale validator gets the whole (new) file.
+  if (file.ranges && match && (!ifRange || ifRange === file.etag)) {
+    const start = Number(match[1]);
+    const end = match[2] ? Math.min(Number(match[2]), file.data.length - 1) : file.data.length - 1;
+    res.writeHead(206, { ...headers, 'Accept-Ranges': 'bytes', 'Content-Range': `bytes ${start}-${end}/${file.data.length}`, 'Content-Length': end - start + 1 });
+    void writeBody(res, file.data.subarray(start, end + 1), file, false);
+    return;
+  }
+  // Without range support every request, the probe included, gets the whole file.
+  const fullDownloads = file.requests.length - 1; // Not counting the probe
+  res.writeHead(200, { ...headers, 'Content-Length': file.data.length });
+  void writeBody(res, file.data, file, !!file.dropFirstDownload && fullDownloads === 1);
+});
+
+function serve(name: string, file: Omit<ServedFile, 'requests'>): string {
+  files.set(name, { ...file, requests: [] });
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/${encodeURIComponent(name)}`;
+}
+
+// Resolves with the first of the given events for the download, or rejects after EVENT_TIMEOUT.
+function waitForEvent(manager: HttpDownloadManager, taskId: string, types: DownloadEventType[]): Promise<{ type: DownloadEventType; payload: unknown }> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error(`Timed out waiting for ${types.join('/')} on ${taskId}`));
+    }, EVENT_TIMEOUT);
+    const unsubscribe = manager.onDownloadEvent((type, payload) => {
+      if (!types.includes(type) || (payload as { taskId?: string }).taskId !== taskId) return;
+      clearTimeout(timer);
+      unsubscribe();
+      resolve({ type, payload });
+    });
+  });
+}
+
+async function waitUntil(check: () => boolean, description: string) {
+  const deadline = Date.now() + EVENT_TIMEOUT;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting until ${description}`);
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+async function removeAndCheck(manager: HttpDownloadManager, downloadDir: string, taskId: string, fileName: string) {
+  const removed = waitForEvent(manager, taskId, ['removed']);
+  assert(await manager.remove(taskId, true), 'remove() did not find the download');
+  await removed;
+  assert(!manager.has(taskId), 'The download is still listed after remove()');
+  assert(!(await fs.pathExists(path.join(downloadDir, fileName))), 'The file is still there after remove()');
+  assert(!(await fs.pathExists(path.join(downloadDir, `${fileName}.part`))), 'The .part file is still there after remove()');
+}
+
+async function main() {
+  // The engine reads where to save from the environment when it is first imported.
+  const downloadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chillymovies-http-check-'));
+  process.env.DOWNLOAD_BASE_PATH = downloadDir;
+  process.env.HTTP_STORE_PATH = path.join(downloadDir, '.chillymovies-http.json');
+  const manager: HttpDownloadManager = (await import('../src/server/httpDownloadManager')).default;
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const status = (taskId: string) => manager.getStatus(taskId) as Aria2DownloadItemDisplay;
+  const cases: [string, () => Promise<void>][] = [
+    ['pause and resume continue with Range requests', async () => {
+      const data = crypto.randomBytes(4 * MB);
+      const url = serve('ranged.bin', { data, etag: '"v1"', ranges: true, throttle: true });
+      const { taskId } = await manager.addDownload(url, { connections: 2, checksum: `sha256:${sha256(data)}` });
+      await waitUntil(() => (status(taskId).completedLength || 0) > MB, 'a quarter is downloaded');
+      manager.pause(taskId);
+      assert(status(taskId).status === 'paused', 'The download did not pause');
+      const requestsBeforeResume = files.get('ranged.bin')!.requests.length;
+
+      const done = waitForEvent(manager, taskId, ['done', 'error']);
+      manager.resume(taskId);
+      const result = await done;
+      assert(result.type === 'done', `Expected done, got ${JSON.stringify(result.payload)}`);
+
+      const resumed = files.get('ranged.bin')!.requests.slice(requestsBeforeResume);
+      const segmentStarts = [0, 2 * MB];
+      assert(resumed.length > 0 && resumed.every(request => request.ifRange === '"v1"'), 'Resumed requests did not send If-Range');
+      assert(resumed.some(request => !segmentStarts.includes(Number(request.range?.match(/^bytes=(\d+)-/)?.[1]))), 'No segment resumed from where it stopped');
+      const saved = await fs.readFile(path.join(downloadDir, 'ranged.bin'));
+      assert(sha256(saved) === sha256(data), 'The downloaded file differs from the served one');
+      await removeAndCheck(manager, downloadDir, taskId, 'ranged.bin');
+    }],
+
+    ['a file that changed on the server fails instead of mixing versions', async () => {
+      const url = serve('changed.bin', { data: crypto.randomBytes(4 * MB), etag: '"v1"', ranges: true, throttle: true });
+      const { taskId } = await manager.addDownload(url, { connections: 2 });
+      await waitUntil(() => (status(taskId).completedLength || 0) > MB, 'a quarter is downloaded');
+      manager.pause(taskId);
+      const file = files.get('changed.bin')!;
+      file.data = crypto.randomBytes(4 * MB);
+      file.etag = '"v2"';
+
+      const failed = waitForEvent(manager, taskId, ['done', 'error']);
+      manager.resume(taskId);
+      const result = await failed;
+      assert(result.type === 'error', 'The download finished even though the file changed');
+      assert(/changed on the server/.test((result.payload as { errorMessage: string }).errorMessage), 'Unexpected error message');
+      await removeAndCheck(manager, downloadDir, taskId, 'changed.bin');
+    }],
+
+    ['a retry without range support starts the file over', async () => {
+      const data = crypto.randomBytes(MB);
+      const url = serve('no-ranges.bin', { data, ranges: false, dropFirstDownload: true });
+      const { taskId } = await manager.addDownload(url, { checksum: sha256(data) });
+      const result = await waitForEvent(manager, taskId, ['done', 'error']);
+      assert(result.type === 'done', `Expected done, got ${JSON.stringify(result.payload)}`);
+      assert(files.get('no-ranges.bin')!.requests.length === 3, 'Expected a probe, a dropped download and one retry');
+      const saved = await fs.readFile(path.join(downloadDir, 'no-ranges.bin'));
+      assert(saved.length === data.length && sha256(saved) === sha256(data), 'The retried file is corrupt');
+      await removeAndCheck(manager, downloadDir, taskId, 'no-ranges.bin');
+    }],
+
+    ['a checksum mismatch fails and throws the bytes away', async () => {
+      const url = serve('mismatch.bin', { data: crypto.randomBytes(MB), ranges: true });
+      const { taskId } = await manager.addDownload(url, { checksum: `sha256:${sha256('something else')}` });
+      const result = await waitForEvent(manager, taskId, ['done', 'error']);
+      assert(result.type === 'error', 'The download finished with the wrong checksum');
+      assert(/^Checksum mismatch/.test((result.payload as { errorMessage: string }).errorMessage), 'Unexpected error message');
+      assert(status(taskId).completedLength === 0, 'Segment progress was kept after a checksum mismatch');
+      assert(!(await fs.pathExists(path.join(downloadDir, 'mismatch.bin'))), 'The unverified file was moved into place');
+      await removeAndCheck(manager, downloadDir, taskId, 'mismatch.bin');
+    }],
+
+    ['pausing during verification keeps the file unverified until resumed', async () => {
+      const data = crypto.randomBytes(64 * MB); // Big enough that hashing takes a moment
+      const url = serve('verify.bin', { data, ranges: true });
+      const { taskId } = await manager.addDownload(url, { checksum: `sha512:${crypto.createHash('sha512').update(data).digest('hex')}` });
+      await waitUntil(() => !!manager['jobs'].get(taskId)?.verifying, 'verification starts');
+      manager.pause(taskId);
+      await sleep(2000); // Long enough for the interrupted hash to have finished
+      assert(status(taskId).status === 'paused', `Expected paused, got ${status(taskId).status}`);
+      assert(!(await fs.pathExists(path.join(downloadDir, 'verify.bin'))), 'The file was moved into place while paused');
+
+      const requestsBeforeResume = files.get('verify.bin')!.requests.length;
+      const done = waitForEvent(manager, taskId, ['done', 'error']);
+      manager.resume(taskId);
+      const result = await done;
+      assert(result.type === 'done', `Expected done, got ${JSON.stringify(result.payload)}`);
+      assert(files.get('verify.bin')!.requests.length === requestsBeforeResume, 'Resuming a fully downloaded file fetched it again');
+      await removeAndCheck(manager, downloadDir, taskId, 'verify.bin');
+    }],
+  ];
+
+  let failures = 0;
+  for (const [name, run] of cases) {
+    try {
+      await run();
+      console.log(`ok - ${name}`);
+    } catch (error) {
+      failures++;
+      console.error(`not ok - ${name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  await manager.destroy();
+  server.close();
+  await fs.remove(downloadDir);
+  console.log(failures === 0 ? `All ${cases.length} cases passed` : `${failures} of ${cases.length} cases failed`);
+  process.exitCode = failures === 0 ? 0 : 1;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
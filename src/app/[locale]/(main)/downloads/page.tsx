@@ -1,7 +1,7 @@
 // src/app/[locale]/(main)/downloads/page.tsx
 "use client";
 
-import React, { useState, useEffect, useCallback, use } from 'react';
+import React, { useState, useEffect, useCallback, useRef, use } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -9,15 +9,35 @@ import {
     DownloadCloudIcon, PlayCircleIcon, PauseCircleIcon, XCircleIcon, 
     FolderOpenIcon, Trash2Icon, RefreshCwIcon, HistoryIcon, 
     ListChecksIcon, FileTextIcon, Loader2Icon, CheckCircle2Icon, 
-    AlertTriangleIcon, InfoIcon, ServerIcon, WifiOffIcon, PowerOffIcon
+    AlertTriangleIcon, InfoIcon, ServerIcon, WifiOffIcon, PowerOffIcon, GaugeIcon,
+    ChevronUpIcon, ChevronDownIcon, ChevronsUpIcon, SproutIcon, HardDriveDownloadIcon, ActivityIcon,
+    ArrowDownWideNarrowIcon, ArrowUpNarrowWideIcon, PlusIcon, FileUpIcon
 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { VideoPlayer } from "@/components/features/streaming/VideoPlayer";
+import { TorrentFilePicker } from "@/components/features/downloads/TorrentFilePicker";
+import { TorrentSpeedLimitDialog } from "@/components/features/downloads/TorrentSpeedLimitDialog";
+import { TorrentSeedingPolicyDialog } from "@/components/features/downloads/TorrentSeedingPolicyDialog";
+import { TorrentDetailsDrawer } from "@/components/features/downloads/TorrentDetailsDrawer";
+import { StorageUsagePanel } from "@/components/features/downloads/StorageUsagePanel";
+import { AddDownloadDialog, type DroppedDownloadSource } from "@/components/features/downloads/AddDownloadDialog";
 import { useWebTorrent } from "@/contexts/WebTorrentContext";
-import type { TorrentProgress, HistoryItem } from "@/lib/webtorrent-service";
+import type { TorrentProgress, HistoryItem, TorrentFileInfo } from "@/lib/webtorrent-service";
+import type { Aria2DownloadItemDisplay, ConceptualAria2Task, Download, DownloadStatus } from "@/types/download";
+import type { SpeedLimits } from "@/lib/bandwidth";
+import type { SeedingPolicy } from "@/lib/seeding-policy";
+import { useDownloadEvents } from "@/hooks/use-download-events";
+import { useSeriesBatches, getSeasonRollup, type SeasonRollupStatus } from "@/hooks/use-series-batches";
 import { useToast } from "@/hooks/use-toast";
 import Link from "next/link";
 import { formatBytes } from "@/lib/utils";
+import { backendRequest, backendUrl } from "@/lib/backend-client";
+import { getUnsupportedRemoteOptions } from "@/lib/remote-backend";
+import { toMagnetURI, isTorrentFileName, type TorrentMetadata } from "@/lib/torrent-metadata";
+import { fromTorrentProgress, fromQueuedDownload, fromServerDownload, getDownloadActions, isActiveStatus, isFinishedStatus, sortDownloads, DOWNLOAD_SORT_KEYS, type DownloadSortKey } from "@/lib/downloads";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -37,6 +57,18 @@ interface DownloadsPageProps {
   params: { locale: Locale };
 }
 
+const SEASON_STATUS_BADGE_CLASSES: Record<SeasonRollupStatus, string> = {
+  pending: "",
+  resolving: "animate-pulse",
+  queued: "",
+  downloading: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+  paused: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  complete: "bg-green-500/20 text-green-400 border-green-500/30",
+  not_found: "bg-gray-500/20 text-gray-400 border-gray-500/30",
+  failed: "bg-red-500/20 text-red-400 border-red-500/30",
+  error: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
 export default function DownloadsPage(props: DownloadsPageProps) {
   const { locale } = use(props.params);
   const { toast } = useToast();
@@ -50,10 +82,122 @@ export default function DownloadsPage(props: DownloadsPageProps) {
     getLargestFileForStreaming,
     clearDownloadHistory,
     removeDownloadFromHistory,
-    addTorrent
+    addTorrent,
+    getTorrentFiles,
+    setFileSelection,
+    setTorrentSpeedLimits,
+    activeSpeedLimits,
+    getSeedingPolicy,
+    setTorrentSeedingPolicy,
+    saveToDisk,
+    queue,
+    maxActiveDownloads,
+    moveQueuedDownload,
+    removeFromQueue,
+    remoteBackend
   } = useWebTorrent();
   
   const [dictionary, setDictionary] = useState<any>(null);
+  const [streamingVideo, setStreamingVideo] = useState<{ src: string; title: string } | null>(null);
+  const [filePicker, setFilePicker] = useState<{ torrentId: string; name: string; files: TorrentFileInfo[] } | null>(null);
+  const [speedLimitTarget, setSpeedLimitTarget] = useState<{ torrentId: string; name: string; limits?: SpeedLimits } | null>(null);
+  const [seedingTarget, setSeedingTarget] = useState<{ torrentId: string; name: string; policy?: SeedingPolicy } | null>(null);
+  const [detailsTorrentId, setDetailsTorrentId] = useState<string | null>(null);
+  const [savingProgress, setSavingProgress] = useState<Record<string, number>>({}); // torrentId -> percent written
+  const awaitingMetadataRef = useRef<Set<string>>(new Set());
+  const [conceptualAria2Tasks, setConceptualAria2Tasks] = useState<ConceptualAria2Task[]>([]);
+  // In remote backend mode server downloads follow that backend's own event stream instead of aria2.
+  const { downloads: aria2Downloads, isConnected: isAria2Connected } = useDownloadEvents(remoteBackend ? backendUrl('/events', remoteBackend) : '/api/downloads/events');
+  const seriesBatches = useSeriesBatches();
+  const [sortKey, setSortKey] = useState<DownloadSortKey>('status');
+  const [sortDescending, setSortDescending] = useState(false);
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [droppedSource, setDroppedSource] = useState<DroppedDownloadSource | null>(null);
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const dragDepthRef = useRef(0); // dragenter/dragleave also fire for every child element crossed
+
+  useEffect(() => {
+    // Names/qualities the download buttons stored when they sent tasks to the server
+    const conceptualTasksString = localStorage.getItem('chillymovies-aria2-tasks');
+    setConceptualAria2Tasks(conceptualTasksString ? JSON.parse(conceptualTasksString) : []);
+  }, [aria2Downloads.length]);
+
+  const serverDownloads: Aria2DownloadItemDisplay[] = aria2Downloads.map(download => {
+    const task = conceptualAria2Tasks.find(t => t.taskId === download.taskId);
+    return task ? { ...download, name: task.name, quality: task.quality, addedTime: task.addedTime } : download;
+  });
+
+  // Every engine in one list. Engine-specific details and actions come from the lookups below.
+  const torrentsById = new Map(activeWebTorrents.map(torrent => [torrent.torrentId, torrent]));
+  const serverDownloadsById = new Map(serverDownloads.map(item => [item.taskId, item]));
+  const serverEngine = remoteBackend ? 'server' : 'aria2';
+  const downloads: Download[] = sortDownloads([
+    ...activeWebTorrents.map(fromTorrentProgress),
+    ...queue.map(fromQueuedDownload),
+    ...serverDownloads.map(item => fromServerDownload(item, serverEngine)),
+  ], sortKey, sortDescending);
+
+  const openFilePicker = useCallback((torrentId: string, name?: string) => {
+    const files = getTorrentFiles(torrentId);
+    if (files.length > 0) setFilePicker({ torrentId, name: name || torrentId, files });
+  }, [getTorrentFiles]);
+
+  // Offer the file picker once, right after metadata arrives for a torrent with more than one file.
+  useEffect(() => {
+    activeWebTorrents.forEach(download => {
+      if (download.status === 'metadata' || download.status === 'connecting') {
+        awaitingMetadataRef.current.add(download.torrentId);
+      } else if (awaitingMetadataRef.current.delete(download.torrentId) && (download.fileCount || 0) > 1 && !filePicker) {
+        openFilePicker(download.torrentId, download.customName);
+      }
+    });
+  }, [activeWebTorrents, filePicker, openFilePicker]);
+
+  const handleSaveFileSelection = (fileIndexes: number[]) => {
+    if (!filePicker) return;
+    setFileSelection(filePicker.torrentId, fileIndexes);
+    setFilePicker(null);
+  };
+
+  const handleSaveSpeedLimits = (limits: SpeedLimits) => {
+    if (!speedLimitTarget) return;
+    setTorrentSpeedLimits(speedLimitTarget.torrentId, limits);
+    setSpeedLimitTarget(null);
+  };
+
+  const handleSaveSeedingPolicy = (policy?: SeedingPolicy) => {
+    if (!seedingTarget) return;
+    setTorrentSeedingPolicy(seedingTarget.torrentId, policy);
+    setSeedingTarget(null);
+  };
+
+  const handleSaveToDisk = async (torrentId: string, name: string, fileIndex?: number) => {
+    if (savingProgress[torrentId] !== undefined) return;
+    setSavingProgress(prev => ({ ...prev, [torrentId]: 0 }));
+    try {
+      const result = await saveToDisk(torrentId, fileIndex, progress => {
+        const percent = Math.floor(progress * 100);
+        setSavingProgress(prev => (prev[torrentId] === percent ? prev : { ...prev, [torrentId]: percent }));
+      });
+      toast({
+        title: dictionary.saveToDisk.savedTitle,
+        description: result.method === 'directory'
+          ? dictionary.saveToDisk.savedToFolder.replace('{count}', String(result.fileCount)).replace('{folder}', result.directoryName || '')
+          : dictionary.saveToDisk.downloadStarted.replace('{name}', name),
+      });
+    } catch (error) {
+      // Closing the folder picker isn't an error.
+      if ((error as DOMException).name !== 'AbortError') {
+        console.error("[DownloadsPage] Save to disk failed:", error);
+        toast({ title: dictionary.saveToDisk.failedTitle, description: (error as Error).message, variant: "destructive" });
+      }
+    } finally {
+      setSavingProgress(prev => {
+        const { [torrentId]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
 
   useEffect(() => {
     const fetchDict = async () => {
@@ -66,7 +210,7 @@ export default function DownloadsPage(props: DownloadsPageProps) {
   }, [locale]);
 
 
-  const getStatusInfo = (status: TorrentProgress['status'], noPeersReason?: string) => {
+  const getStatusInfo = (status: TorrentProgress['status'] | DownloadStatus | HistoryItem['status'], noPeersReason?: string) => {
     const statusKey = status?.toLowerCase().replace(/_/g, '') || 'unknown';
     const label = dictionary?.statusLabels?.[statusKey] || `Unknown (${status})`;
     
@@ -79,10 +223,10 @@ export default function DownloadsPage(props: DownloadsPageProps) {
         return { badge: <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30 hover:bg-green-500/30">{label}</Badge>, icon: <CheckCircle2Icon className="h-4 w-4 text-green-400" /> };
       case "failed": case "error":
         return { badge: <Badge variant="destructive" className="bg-red-500/20 text-red-400 border-red-500/30 hover:bg-red-500/30">{label}</Badge>, icon: <AlertTriangleIcon className="h-4 w-4 text-red-400" /> };
-      case "connecting": case "metadata": case "waiting": 
+      case "connecting": case "metadata": case "waiting": case "queued":
         return { badge: <Badge variant="outline" className="animate-pulse">{label}</Badge>, icon: <Loader2Icon className="h-4 w-4 text-muted-foreground animate-spin" /> };
       case "stalled":
-        return { badge: <Badge variant="outline" className="bg-orange-500/20 text-orange-400 border-orange-500/30 hover:bg-orange-500/30">{label}</Badge>, icon: <PowerOffIcon className="h-4 w-4 text-orange-400" /> };
+        return { badge: <Badge variant="outline" className="bg-orange-500/20 text-orange-400 border-orange-500/30 hover:bg-orange-500/30" title={noPeersReason}>{label}</Badge>, icon: <PowerOffIcon className="h-4 w-4 text-orange-400" /> };
       case "no_peers":
         return { badge: <Badge variant="outline" className="bg-gray-500/20 text-gray-400 border-gray-500/30 hover:bg-gray-500/30" title={noPeersReason}>{label}</Badge>, icon: <WifiOffIcon className="h-4 w-4 text-gray-400" /> };
       case "removed":
@@ -97,27 +241,138 @@ export default function DownloadsPage(props: DownloadsPageProps) {
     try {
         const streamData = await getLargestFileForStreaming(torrentId);
         if (streamData?.file && streamData.streamUrl) {
-            // In a real app, you would open a modal with the VideoPlayer component here
-            // For now, we'll open the stream URL in a new tab.
             console.log(`[DownloadsPage] Streaming URL: ${streamData.streamUrl}`);
-            window.open(streamData.streamUrl, '_blank');
+            setStreamingVideo({ src: streamData.streamUrl, title: name || streamData.file.name });
         } else {
             toast({ title: "Stream Failed", description: "Could not find a playable file.", variant: "destructive"});
         }
     } catch (error) {
-        toast({ title: "Stream Error", description: `An error occurred while preparing the stream.`, variant: "destructive"});
+        console.error("[DownloadsPage] Error preparing stream:", error);
+        toast({ title: "Stream Error", description: (error as Error).message || `An error occurred while preparing the stream.`, variant: "destructive"});
+    }
+  };
+
+  const handleAria2Control = async (taskId: string, action: 'pause' | 'unpause' | 'remove') => {
+    try {
+      if (remoteBackend) {
+        const path = `/download/${encodeURIComponent(taskId)}`;
+        if (action === 'remove') await backendRequest(path, { method: 'DELETE' }, remoteBackend);
+        else await backendRequest(`${path}/${action === 'pause' ? 'pause' : 'resume'}`, { method: 'POST' }, remoteBackend);
+        return;
+      }
+      const response = await fetch(`/api/aria2/control/${taskId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || `Request failed with status ${response.status}`);
+      }
+      if (action === 'remove') {
+        const remainingTasks = conceptualAria2Tasks.filter(t => t.taskId !== taskId);
+        localStorage.setItem('chillymovies-aria2-tasks', JSON.stringify(remainingTasks));
+        setConceptualAria2Tasks(remainingTasks);
+      }
+    } catch (error) {
+      toast({ title: "Server Download Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handlePauseDownload = (download: Download) => {
+    switch (download.engine) {
+      case 'webtorrent': return pauseTorrent(download.engineId);
+      case 'server': case 'aria2': case 'http': return handleAria2Control(download.engineId, 'pause');
+    }
+  };
+
+  const handleResumeDownload = (download: Download) => {
+    switch (download.engine) {
+      case 'webtorrent': return resumeTorrent(download.engineId);
+      case 'server': case 'aria2': case 'http': return handleAria2Control(download.engineId, 'unpause');
+    }
+  };
+
+  const handleRemoveDownload = (download: Download) => {
+    switch (download.engine) {
+      case 'webtorrent': return download.queuePosition !== undefined ? removeFromQueue(download.engineId) : removeTorrent(download.engineId);
+      case 'server': case 'aria2': case 'http': return handleAria2Control(download.engineId, 'remove');
     }
   };
 
   const handleRetryWebTorrentDownload = async (item: HistoryItem) => {
     try {
-      await addTorrent(item.magnetURI, item.name, item.itemId);
+      const options = { selectedFiles: item.selectedFiles, speedLimits: item.speedLimits, seedingPolicy: item.seedingPolicy };
+      await addTorrent(item.magnetURI, item.name, item.itemId, options);
       toast({ title: "Download Re-queued", description: `${item.name} has been added back to active downloads.` });
+      const ignored = remoteBackend ? getUnsupportedRemoteOptions(options) : [];
+      if (ignored.length > 0) {
+        toast({
+          title: dictionary.remoteOptionsIgnoredTitle,
+          description: dictionary.remoteOptionsIgnoredDesc
+            .replace('{name}', item.name)
+            .replace('{options}', ignored.map(option => dictionary.remoteOptionNames[option]).join(', ')),
+        });
+      }
     } catch (error) {
       toast({ title: "Error Re-queuing", description: (error as Error).message, variant: "destructive" });
     }
   };
 
+  const handleAddDownload = async (metadata: TorrentMetadata, name: string, itemId?: string | number) => {
+    const d = dictionary.addDialog;
+    if (!isClientReady && !remoteBackend) {
+      toast({ title: d.toastErrorTitle, description: d.toastNotReadyDesc, variant: "destructive" });
+      return;
+    }
+    try {
+      const result = await addTorrent(toMagnetURI(metadata), name, itemId, { torrentFile: metadata.torrentFile });
+      if (!result) {
+        toast({ title: d.toastErrorTitle, description: d.toastAlreadyAddedDesc.replace('{name}', name), variant: "destructive" });
+        return;
+      }
+      toast({
+        title: d.toastAddedTitle,
+        description: remoteBackend ? d.toastRemoteDesc.replace('{name}', name).replace('{url}', remoteBackend.url) : d.toastAddedDesc.replace('{name}', name),
+      });
+      setIsAddDialogOpen(false);
+    } catch (error) {
+      toast({ title: d.toastErrorTitle, description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const openAddDialog = (source: DroppedDownloadSource | null = null) => {
+    setDroppedSource(source);
+    setIsAddDialogOpen(true);
+  };
+
+  // Only files and text (magnet links, .torrent URLs) are worth a drop target.
+  const isDownloadDrag = (event: React.DragEvent) => Array.from(event.dataTransfer.types).some(type => type === 'Files' || type === 'text/uri-list' || type === 'text/plain');
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (!isDownloadDrag(event)) return;
+    event.preventDefault();
+    dragDepthRef.current++;
+    setIsDraggingOver(true);
+  };
+
+  const handleDragLeave = () => {
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingOver(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (!isDownloadDrag(event)) return;
+    event.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingOver(false);
+    const files = Array.from(event.dataTransfer.files);
+    const torrentFile = files.find(file => isTorrentFileName(file.name)) || files[0];
+    if (torrentFile) return openAddDialog({ file: torrentFile });
+    const text = (event.dataTransfer.getData('text/uri-list').split(/\r?\n/).find(line => line && !line.startsWith('#')) || event.dataTransfer.getData('text/plain')).trim();
+    if (text) openAddDialog({ text });
+  };
+
   if (!dictionary || !locale) {
     return (
       <div className="flex justify-center items-center h-screen">
@@ -127,67 +382,234 @@ export default function DownloadsPage(props: DownloadsPageProps) {
   }
   
   return (
-    <div className="space-y-8">
+    <div className="space-y-8" onDragEnter={handleDragEnter} onDragOver={(e) => isDownloadDrag(e) && e.preventDefault()} onDragLeave={handleDragLeave} onDrop={handleDrop}>
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
         <div>
           <h1 className="text-4xl font-bold tracking-tight">{dictionary.mainTitle}</h1>
           <p className="text-muted-foreground mt-1">{dictionary.mainDescription}</p>
         </div>
-        {!isClientReady && <Badge variant="outline" className="animate-pulse">Initializing Download Client...</Badge>}
+        <div className="flex items-center gap-2">
+          {!isClientReady && <Badge variant="outline" className="animate-pulse">Initializing Download Client...</Badge>}
+          <Button onClick={() => openAddDialog()}>
+            <PlusIcon className="mr-2 h-4 w-4" /> {dictionary.addDialog.openButton}
+          </Button>
+        </div>
       </div>
 
-      <Tabs defaultValue="webtorrent_active" className="w-full">
-        <TabsList className="grid w-full grid-cols-2 md:grid-cols-2 gap-x-1.5 rounded-lg p-1.5 bg-muted h-auto md:h-12 text-base">
-          <TabsTrigger value="webtorrent_active" className="h-full py-2.5 px-2 md:px-3">{dictionary.tabs.webTorrents}</TabsTrigger>
-          <TabsTrigger value="history" className="h-full py-2.5 px-2 md:px-3 col-span-2 md:col-span-1">{dictionary.tabs.history}</TabsTrigger>
+      {isDraggingOver && (
+        <div className="pointer-events-none fixed inset-4 z-50 flex flex-col items-center justify-center gap-3 rounded-xl border-2 border-dashed border-primary bg-background/80 backdrop-blur-sm">
+          <FileUpIcon className="h-10 w-10 text-primary" />
+          <p className="text-lg font-medium">{dictionary.addDialog.dropOverlay}</p>
+        </div>
+      )}
+
+      <Tabs defaultValue="downloads" className="w-full">
+        <TabsList className="grid w-full grid-cols-3 gap-x-1.5 gap-y-1.5 rounded-lg p-1.5 bg-muted h-auto md:h-12 text-base">
+          <TabsTrigger value="downloads" className="h-full py-2.5 px-2 md:px-3">{dictionary.tabs.downloads}</TabsTrigger>
+          <TabsTrigger value="history" className="h-full py-2.5 px-2 md:px-3">{dictionary.tabs.history}</TabsTrigger>
+          <TabsTrigger value="storage" className="h-full py-2.5 px-2 md:px-3">{dictionary.tabs.storage}</TabsTrigger>
         </TabsList>
 
-        <TabsContent value="webtorrent_active" className="mt-8">
+        <TabsContent value="downloads" className="mt-8 space-y-8">
+          {seriesBatches.length > 0 && (
+            <Card className="shadow-lg border-border/40 overflow-hidden">
+              <CardHeader>
+                <CardTitle>{dictionary.seriesBatches.title}</CardTitle>
+                <CardDescription className="mt-1">{dictionary.seriesBatches.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0 divide-y divide-border/30">
+                {seriesBatches.map((job) => (
+                  <div key={job.jobId} className="p-4 md:p-6">
+                    <div className="flex items-center flex-wrap gap-2 mb-3">
+                      <h3 className="font-semibold text-md md:text-lg truncate" title={job.seriesTitle}>{job.seriesTitle}</h3>
+                      <Badge variant="outline">{job.quality}</Badge>
+                      {job.state === 'resolving' && <span className="flex items-center gap-1.5 text-xs text-muted-foreground"><Loader2Icon className="h-3 w-3 animate-spin" />{dictionary.seriesBatches.findingSources}</span>}
+                      {job.error && <span className="text-xs text-destructive">{job.error}</span>}
+                    </div>
+                    <div className="space-y-3">
+                      {job.seasons.map((season) => {
+                        const rollup = getSeasonRollup(season, aria2Downloads);
+                        return (
+                          <div key={season.seasonNumber}>
+                            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                              <span className="font-medium">{season.name || dictionary.seriesBatches.seasonLabel.replace('{number}', String(season.seasonNumber))}</span>
+                              <div className="flex items-center flex-wrap gap-2 text-xs text-muted-foreground">
+                                {rollup.totalLength > 0 && <span>{formatBytes(rollup.completedLength)} / {formatBytes(rollup.totalLength)}</span>}
+                                {rollup.downloadSpeed > 0 && <span>{formatBytes(rollup.downloadSpeed)}/s</span>}
+                                {season.source && <Badge variant="outline">{dictionary.seriesBatches.sourceLabels[season.source]}</Badge>}
+                                <Badge variant="outline" className={SEASON_STATUS_BADGE_CLASSES[rollup.status]}>{dictionary.seriesBatches.statusLabels[rollup.status]}</Badge>
+                              </div>
+                            </div>
+                            {season.taskIds.length > 0 && (
+                              <Progress value={rollup.progress} className="mt-1.5 h-1.5" indicatorClassName={
+                                rollup.status === 'paused' ? 'bg-yellow-500' :
+                                rollup.status === 'error' ? 'bg-red-500' :
+                                rollup.status === 'complete' ? 'bg-green-500' :
+                                'bg-primary'} />
+                            )}
+                            {season.missingEpisodes.length > 0 && (
+                              <p className="text-xs text-destructive mt-1">{dictionary.seriesBatches.missingEpisodes.replace('{episodes}', season.missingEpisodes.join(', '))}</p>
+                            )}
+                            {season.error && <p className="text-xs text-destructive mt-1">{season.error}</p>}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           <Card className="shadow-lg border-border/40 overflow-hidden">
-            <CardHeader><CardTitle>{dictionary.activeWebTorrents.title}</CardTitle></CardHeader>
+            <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>{dictionary.downloadList.title}</CardTitle>
+                <CardDescription className="flex items-center gap-1.5">
+                  {isAria2Connected ? <ServerIcon className="h-4 w-4 text-green-400" /> : <WifiOffIcon className="h-4 w-4" />}
+                  {!isAria2Connected ? dictionary.downloadList.serverOffline
+                    : remoteBackend ? dictionary.downloadList.remoteServerConnected.replace('{url}', remoteBackend.url)
+                    : dictionary.downloadList.serverConnected}
+                </CardDescription>
+                {queue.length > 0 && (
+                  <CardDescription>{dictionary.queue.description.replace('{max}', String(maxActiveDownloads))}</CardDescription>
+                )}
+                {activeSpeedLimits && (activeSpeedLimits.downloadLimit > 0 || activeSpeedLimits.uploadLimit > 0) && (
+                  <CardDescription className="flex items-center gap-1.5">
+                    <GaugeIcon className="h-4 w-4" />
+                    {dictionary.globalSpeedLimitLabel
+                      .replace('{down}', activeSpeedLimits.downloadLimit > 0 ? `${activeSpeedLimits.downloadLimit} KB/s` : '∞')
+                      .replace('{up}', activeSpeedLimits.uploadLimit > 0 ? `${activeSpeedLimits.uploadLimit} KB/s` : '∞')}
+                  </CardDescription>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Select value={sortKey} onValueChange={(value) => setSortKey(value as DownloadSortKey)}>
+                  <SelectTrigger className="h-9 w-40" aria-label={dictionary.downloadList.sortLabel}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DOWNLOAD_SORT_KEYS.map(key => <SelectItem key={key} value={key}>{dictionary.downloadList.sortOptions[key]}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="icon" className="h-9 w-9"
+                  aria-label={sortDescending ? dictionary.downloadList.descendingLabel : dictionary.downloadList.ascendingLabel}
+                  title={sortDescending ? dictionary.downloadList.descendingLabel : dictionary.downloadList.ascendingLabel}
+                  onClick={() => setSortDescending(prev => !prev)}>
+                  {sortDescending ? <ArrowDownWideNarrowIcon className="h-4 w-4" /> : <ArrowUpNarrowWideIcon className="h-4 w-4" />}
+                </Button>
+              </div>
+            </CardHeader>
             <CardContent className="p-0">
-              {activeWebTorrents.length > 0 ? (
+              {downloads.length > 0 ? (
                 <div className="divide-y divide-border/30">
-                  {activeWebTorrents.map((download) => {
-                    const { badge: statusBadge, icon: statusIcon } = getStatusInfo(download.status, download.noPeersReason);
+                  {downloads.map((download) => {
+                    const { badge: statusBadge, icon: statusIcon } = getStatusInfo(download.status, download.statusDetail);
+                    const actions = getDownloadActions(download);
+                    const torrent = download.engine === 'webtorrent' ? torrentsById.get(download.engineId) : undefined;
+                    const serverItem = download.engine === 'server' || download.engine === 'aria2' ? serverDownloadsById.get(download.engineId) : undefined;
+                    const queuePosition = download.queuePosition;
                     return (
-                      <div key={download.torrentId} className="p-4 md:p-6 hover:bg-muted/30">
+                      <div key={download.id} className="p-4 md:p-6 hover:bg-muted/30">
                         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
                           <div className="flex-grow min-w-0">
-                            <h3 className="font-semibold text-md md:text-lg truncate mb-1" title={download.customName || download.torrentId}>{download.customName || dictionary.fetchingName}</h3>
+                            <h3 className="font-semibold text-md md:text-lg truncate mb-1" title={download.name}>{torrent && !torrent.customName ? dictionary.downloadList.fetchingName : download.name}</h3>
                             <div className="flex items-center flex-wrap gap-x-3 gap-y-1 text-xs md:text-sm text-muted-foreground">
                               <span className="flex items-center gap-1.5">{statusIcon}{statusBadge}</span>
-                              <span>{formatBytes(download.downloaded)} / {download.length ? formatBytes(download.length) : dictionary.na}</span>
-                              {(download.status === 'downloading' || download.status === 'connecting' || download.status === 'metadata') && download.downloadSpeed > 0 && (
+                              <Badge variant="secondary">{dictionary.downloadList.engineLabels[download.engine]}</Badge>
+                              {download.quality && <Badge variant="outline">{download.quality}</Badge>}
+                              {queuePosition !== undefined ? (
+                                <span>{dictionary.queue.queuedLabel}: #{queuePosition + 1}{download.addedTime ? ` · ${new Date(download.addedTime).toLocaleString()}` : ''}</span>
+                              ) : (
+                                <span>{formatBytes(download.downloadedBytes)} / {download.totalBytes ? formatBytes(download.totalBytes) : dictionary.downloadList.na}</span>
+                              )}
+                              {isActiveStatus(download.status) && download.downloadSpeed > 0 && (
                                 <><span className="hidden sm:inline">&bull;</span><span>{formatBytes(download.downloadSpeed)}/s</span></>
                               )}
-                              {download.status === 'downloading' && download.remainingTime !== undefined && Number.isFinite(download.remainingTime) && download.remainingTime > 0 && (
-                                <><span className="hidden sm:inline">&bull;</span><span>{dictionary.etaLabel}: {new Date(download.remainingTime).toISOString().substr(11, 8)}</span></>
+                              {download.status === 'downloading' && download.eta !== undefined && download.eta > 0 && (
+                                <><span className="hidden sm:inline">&bull;</span><span>{dictionary.downloadList.etaLabel}: {new Date(download.eta * 1000).toISOString().substr(11, 8)}</span></>
+                              )}
+                              {download.peers !== undefined && (
+                                <><span className="hidden sm:inline">&bull;</span><span>{download.engine === 'http' ? dictionary.downloadList.connectionsLabel : dictionary.downloadList.peersLabel}: {download.peers}</span></>
+                              )}
+                              {torrent?.fileCount !== undefined && torrent.selectedFileCount !== undefined && torrent.selectedFileCount < torrent.fileCount && (
+                                <><span className="hidden sm:inline">&bull;</span><span>{dictionary.filesSelectedLabel.replace('{selected}', String(torrent.selectedFileCount)).replace('{total}', String(torrent.fileCount))}</span></>
+                              )}
+                              {torrent?.speedLimits && (
+                                <><span className="hidden sm:inline">&bull;</span><span>{dictionary.speedLimitedLabel
+                                  .replace('{down}', torrent.speedLimits.downloadLimit > 0 ? `${torrent.speedLimits.downloadLimit} KB/s` : '∞')
+                                  .replace('{up}', torrent.speedLimits.uploadLimit > 0 ? `${torrent.speedLimits.uploadLimit} KB/s` : '∞')}</span></>
+                              )}
+                              {torrent && isFinishedStatus(download.status) && (
+                                <><span className="hidden sm:inline">&bull;</span><span>{dictionary.seedingStatsLabel.replace('{uploaded}', formatBytes(torrent.uploaded)).replace('{ratio}', torrent.ratio.toFixed(2))}</span></>
+                              )}
+                              {savingProgress[download.engineId] !== undefined && (
+                                <><span className="hidden sm:inline">&bull;</span><span>{dictionary.saveToDisk.savingLabel.replace('{percent}', String(savingProgress[download.engineId]))}</span></>
+                              )}
+                              {torrent?.seedingStopReason && (
+                                <><span className="hidden sm:inline">&bull;</span><span>{dictionary.seedingStoppedLabels[torrent.seedingStopReason]}</span></>
+                              )}
+                              {torrent?.bridgeState === 'active' && (
+                                <><span className="hidden sm:inline">&bull;</span><span>{dictionary.bridgedLabel}</span></>
+                              )}
+                              {serverItem?.bridge && (
+                                <><span className="hidden sm:inline">&bull;</span><span>{dictionary.downloadList.bridgeLabel}</span></>
                               )}
-                              <span className="hidden sm:inline">&bull;</span><span>{dictionary.peersLabel}: {download.peers}</span>
                             </div>
                           </div>
                           <div className="flex items-center gap-1 flex-shrink-0 mt-2 sm:mt-0 self-start sm:self-center">
-                            {(download.status === 'downloading' || download.status === 'connecting' || download.status === 'metadata' || download.status === 'stalled' || download.status === 'no_peers') && (
-                              <Button variant="ghost" size="icon" aria-label={dictionary.pauseLabel} onClick={() => pauseTorrent(download.torrentId)}><PauseCircleIcon className="h-5 w-5" /></Button>
+                            {queuePosition !== undefined && (
+                              <>
+                                <Button variant="ghost" size="icon" aria-label={dictionary.queue.moveTopLabel} title={dictionary.queue.moveTopLabel} disabled={queuePosition === 0} onClick={() => moveQueuedDownload(download.engineId, 'top')}><ChevronsUpIcon className="h-5 w-5" /></Button>
+                                <Button variant="ghost" size="icon" aria-label={dictionary.queue.moveUpLabel} title={dictionary.queue.moveUpLabel} disabled={queuePosition === 0} onClick={() => moveQueuedDownload(download.engineId, 'up')}><ChevronUpIcon className="h-5 w-5" /></Button>
+                                <Button variant="ghost" size="icon" aria-label={dictionary.queue.moveDownLabel} title={dictionary.queue.moveDownLabel} disabled={queuePosition === queue.length - 1} onClick={() => moveQueuedDownload(download.engineId, 'down')}><ChevronDownIcon className="h-5 w-5" /></Button>
+                              </>
                             )}
-                            {download.status === 'paused' && (
-                              <Button variant="ghost" size="icon" aria-label={dictionary.resumeLabel} onClick={() => resumeTorrent(download.torrentId)}><PlayCircleIcon className="h-5 w-5" /></Button>
+                            {actions.pause && queuePosition === undefined && (
+                              <Button variant="ghost" size="icon" aria-label={dictionary.pauseLabel} onClick={() => handlePauseDownload(download)}><PauseCircleIcon className="h-5 w-5" /></Button>
                             )}
-                            {(download.status === 'done' || download.status === 'seeding' || (download.status === 'downloading' && download.progress > 0.01)) && (
-                              <Button variant="ghost" size="icon" aria-label={dictionary.playStreamLabel} onClick={() => handlePlayWebTorrent(download.torrentId, download.customName)}><PlayCircleIcon className="h-5 w-5" /></Button>
+                            {actions.resume && (
+                              <Button variant="ghost" size="icon" aria-label={dictionary.resumeLabel} onClick={() => handleResumeDownload(download)}><PlayCircleIcon className="h-5 w-5" /></Button>
+                            )}
+                            {torrent && (
+                              <>
+                                {download.status === 'completed' && (
+                                  <Button variant="ghost" size="icon" aria-label={dictionary.seedAgainLabel} title={dictionary.seedAgainLabel} onClick={() => resumeTorrent(download.engineId)}><RefreshCwIcon className="h-5 w-5" /></Button>
+                                )}
+                                {(isFinishedStatus(download.status) || (download.status === 'downloading' && download.progress > 0.01)) && (
+                                  <Button variant="ghost" size="icon" aria-label={dictionary.playStreamLabel} onClick={() => handlePlayWebTorrent(download.engineId, torrent.customName)}><PlayCircleIcon className="h-5 w-5" /></Button>
+                                )}
+                                {isFinishedStatus(download.status) && (
+                                  <Button variant="ghost" size="icon" aria-label={dictionary.saveToDisk.buttonLabel} title={dictionary.saveToDisk.buttonLabel} disabled={savingProgress[download.engineId] !== undefined} onClick={() => handleSaveToDisk(download.engineId, download.name)}><HardDriveDownloadIcon className="h-5 w-5" /></Button>
+                                )}
+                                {(torrent.fileCount || 0) > 1 && (
+                                  <Button variant="ghost" size="icon" aria-label={dictionary.chooseFilesLabel} title={dictionary.chooseFilesLabel} onClick={() => openFilePicker(download.engineId, torrent.customName)}><ListChecksIcon className="h-5 w-5" /></Button>
+                                )}
+                                <Button variant="ghost" size="icon" aria-label={dictionary.detailsLabel} title={dictionary.detailsLabel} onClick={() => setDetailsTorrentId(download.engineId)}><ActivityIcon className="h-5 w-5" /></Button>
+                                <Button variant="ghost" size="icon" aria-label={dictionary.speedLimitLabel} title={dictionary.speedLimitLabel} onClick={() => setSpeedLimitTarget({ torrentId: download.engineId, name: download.name, limits: torrent.speedLimits })}><GaugeIcon className="h-5 w-5" /></Button>
+                                <Button variant="ghost" size="icon" aria-label={dictionary.seedingPolicyLabel} title={dictionary.seedingPolicyLabel} onClick={() => setSeedingTarget({ torrentId: download.engineId, name: download.name, policy: torrent.seedingPolicy })}><SproutIcon className="h-5 w-5" /></Button>
+                              </>
+                            )}
+                            {download.status === 'completed' && serverItem?.downloadUrl && (
+                              <Button variant="ghost" size="icon" aria-label={dictionary.downloadFileLabel} asChild>
+                                <a href={serverItem.downloadUrl} target="_blank" rel="noopener noreferrer"><FolderOpenIcon className="h-5 w-5" /></a>
+                              </Button>
+                            )}
+                            {actions.remove && (
+                              <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive/80" aria-label={queuePosition !== undefined ? dictionary.queue.removeLabel : dictionary.removeLabel} title={queuePosition !== undefined ? dictionary.queue.removeLabel : dictionary.removeLabel} onClick={() => handleRemoveDownload(download)}><XCircleIcon className="h-5 w-5" /></Button>
                             )}
-                            <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive/80" aria-label={dictionary.removeLabel} onClick={() => removeTorrent(download.torrentId)}><XCircleIcon className="h-5 w-5" /></Button>
                           </div>
                         </div>
-                        <Progress value={download.progress * 100} className="mt-3 h-1.5 md:h-2" indicatorClassName={
-                            download.status === 'paused' ? 'bg-yellow-500' : 
-                            (download.status === 'error' || download.status === 'failed') ? 'bg-red-500' : 
-                            (download.status === 'done' || download.status === 'seeding' ) ? 'bg-green-500' : 
-                            (download.status === 'stalled' || download.status === 'no_peers') ? 'bg-orange-500' :
-                            'bg-primary'} />
-                        {download.status === 'no_peers' && download.noPeersReason && <p className="text-xs text-orange-400 mt-1">{download.noPeersReason}</p>}
-                        {download.status === 'stalled' && <p className="text-xs text-orange-400 mt-1">{dictionary.downloadStalledMessage}</p>}
+                        {queuePosition === undefined && (
+                          <Progress value={download.progress * 100} className="mt-3 h-1.5 md:h-2" indicatorClassName={
+                              download.status === 'paused' ? 'bg-yellow-500' :
+                              download.status === 'failed' ? 'bg-red-500' :
+                              isFinishedStatus(download.status) ? 'bg-green-500' :
+                              download.status === 'stalled' ? 'bg-orange-500' :
+                              'bg-primary'} />
+                        )}
+                        {download.status === 'stalled' && <p className="text-xs text-orange-400 mt-1">{download.statusDetail || dictionary.downloadList.stalledMessage}</p>}
+                        {download.status === 'failed' && download.statusDetail && <p className="text-xs text-destructive mt-1">{download.statusDetail}</p>}
                       </div>
                     );
                   })}
@@ -195,14 +617,13 @@ export default function DownloadsPage(props: DownloadsPageProps) {
               ) : (
                 <div className="text-center py-12 px-6">
                   <DownloadCloudIcon className="mx-auto h-16 w-16 text-muted-foreground/50 mb-4" />
-                  <h3 className="text-xl font-semibold text-muted-foreground">{dictionary.activeWebTorrents.noActiveTitle}</h3>
-                  <p className="text-muted-foreground mt-2">{dictionary.activeWebTorrents.noActiveDescription || "Add downloads from movie or TV series pages."}</p> 
+                  <h3 className="text-xl font-semibold text-muted-foreground">{dictionary.downloadList.emptyTitle}</h3>
+                  <p className="text-muted-foreground mt-2">{dictionary.downloadList.emptyDescription}</p>
                 </div>
               )}
             </CardContent>
           </Card>
         </TabsContent>
-
         <TabsContent value="history" className="mt-8">
           <Card className="shadow-lg border-border/40 overflow-hidden">
             <CardHeader className="flex flex-row justify-between items-center">
@@ -237,6 +658,7 @@ export default function DownloadsPage(props: DownloadsPageProps) {
                               <span>{dictionary.history.addedLabel}: {new Date(item.addedDate).toLocaleDateString()}</span>
                               {item.completedDate && <><span className="hidden sm:inline">&bull;</span><span>{dictionary.history.finishedLabel}: {new Date(item.completedDate).toLocaleDateString()}</span></>}
                               {item.size && <><span className="hidden sm:inline">&bull;</span><span>{dictionary.history.sizeLabel}: {formatBytes(item.size)}</span></>}
+                              {item.uploaded !== undefined && item.uploaded > 0 && <><span className="hidden sm:inline">&bull;</span><span>{dictionary.seedingStatsLabel.replace('{uploaded}', formatBytes(item.uploaded)).replace('{ratio}', (item.ratio || 0).toFixed(2))}</span></>}
                             </div>
                             {item.lastError && <p className="text-xs text-destructive mt-1">{dictionary.history.errorLabel}: {item.lastError}</p>}
                           </div>
@@ -264,7 +686,60 @@ export default function DownloadsPage(props: DownloadsPageProps) {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="storage" className="mt-8">
+          <StorageUsagePanel dictionary={dictionary.storage} />
+        </TabsContent>
       </Tabs>
+
+      <Dialog open={!!streamingVideo} onOpenChange={(open) => !open && setStreamingVideo(null)}>
+        <DialogContent className="sm:max-w-[90vw] md:max-w-[85vw] lg:max-w-[80vw] xl:max-w-[75vw] p-0 border-0 bg-black/95 backdrop-blur-md aspect-video rounded-lg overflow-hidden">
+          <DialogTitle className="sr-only">{streamingVideo?.title || dictionary.playStreamLabel}</DialogTitle>
+          {streamingVideo && <VideoPlayer src={streamingVideo.src} title={streamingVideo.title} />}
+        </DialogContent>
+      </Dialog>
+
+      <TorrentFilePicker
+        open={!!filePicker}
+        onOpenChange={(open) => !open && setFilePicker(null)}
+        torrentName={filePicker?.name || ''}
+        files={filePicker?.files || []}
+        onSave={handleSaveFileSelection}
+        onSaveFileToDisk={(fileIndex) => filePicker && handleSaveToDisk(filePicker.torrentId, filePicker.files.find(f => f.index === fileIndex)?.name || filePicker.name, fileIndex)}
+        dictionary={dictionary.filePicker}
+      />
+
+      <TorrentSpeedLimitDialog
+        open={!!speedLimitTarget}
+        onOpenChange={(open) => !open && setSpeedLimitTarget(null)}
+        torrentName={speedLimitTarget?.name || ''}
+        limits={speedLimitTarget?.limits}
+        onSave={handleSaveSpeedLimits}
+        dictionary={dictionary.speedLimitDialog}
+      />
+
+      <TorrentSeedingPolicyDialog
+        open={!!seedingTarget}
+        onOpenChange={(open) => !open && setSeedingTarget(null)}
+        torrentName={seedingTarget?.name || ''}
+        policy={seedingTarget?.policy}
+        globalPolicy={getSeedingPolicy()}
+        onSave={handleSaveSeedingPolicy}
+        dictionary={dictionary.seedingPolicyDialog}
+      />
+      <AddDownloadDialog
+        open={isAddDialogOpen}
+        onOpenChange={setIsAddDialogOpen}
+        droppedSource={droppedSource}
+        onAdd={handleAddDownload}
+        dictionary={dictionary.addDialog}
+      />
+      <TorrentDetailsDrawer
+        torrentId={detailsTorrentId}
+        onOpenChange={(open) => !open && setDetailsTorrentId(null)}
+        statusLabels={dictionary.statusLabels}
+        dictionary={dictionary.detailsDrawer}
+      />
     </div>
   );
 }
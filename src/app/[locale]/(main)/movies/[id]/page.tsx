@@ -1,5 +1,6 @@
 // src/app/[locale]/(main)/movies/[id]/page.tsx
 import { getMovieDetails, getFullImagePath } from "@/lib/tmdb";
+import { searchMovieTorrents } from "@/lib/torrent-search";
 import type { TMDBMovie, TMDBVideo } from "@/types/tmdb";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -35,6 +36,14 @@ async function MovieDetailsContent({ id, locale }: { id: string; locale: Locale
       const movieData = await getMovieDetails(id);
       movie = movieData;
 
+      if (movieData.imdb_id) {
+        try {
+          movie.torrents = await searchMovieTorrents(movieData.imdb_id, movieData.title);
+        } catch (torrentError) {
+          console.error(`[TorrentSearch] Failed to fetch torrents for movie ${id}:`, torrentError);
+        }
+      }
+
       const videos: TMDBVideo[] = movieData.videos?.results || [];
       const officialTrailer = videos.find(
         (video) => video.site === "YouTube" && video.type === "Trailer" && video.official
@@ -4,7 +4,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { PaletteIcon, CheckIcon, InfoIcon, Trash2Icon, DatabaseIcon, ClapperboardIcon, ListChecksIcon, FolderCogIcon, FolderOpenIcon } from "lucide-react"; // Added FolderCogIcon, FolderOpenIcon
+import { PaletteIcon, CheckIcon, InfoIcon, Trash2Icon, DatabaseIcon, ClapperboardIcon, ListChecksIcon, FolderCogIcon, FolderOpenIcon, GaugeIcon, SaveIcon, ListOrderedIcon, SproutIcon, RadioTowerIcon, PlusIcon, XIcon, ImportIcon, RotateCcwIcon, ServerIcon, PlugZapIcon, UnplugIcon } from "lucide-react"; // Added FolderCogIcon, FolderOpenIcon
 import { useState, useEffect, useCallback, use } from "react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
@@ -20,9 +20,20 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import type { Locale } from '@/config/i18n.config';
 import { getDictionary } from '@/lib/getDictionary'; 
+import { useWebTorrent } from '@/contexts/WebTorrentContext';
+import { DEFAULT_BANDWIDTH_SETTINGS, isAltSpeedActive, getActiveLimits, normalizeBandwidthSettings, type BandwidthSettings } from '@/lib/bandwidth';
+import { supportsDirectoryAccess, getDownloadDirectory, chooseDownloadDirectory, forgetDownloadDirectory } from '@/lib/save-to-disk';
+import { DEFAULT_TRACKERS, loadTrackerList, saveTrackerList, normalizeTrackerUrl, parseTrackerList, isWebSocketTracker } from '@/lib/trackers';
+import { normalizeBackendUrl } from '@/lib/remote-backend';
+import { backendRequest, checkBackendHealth, type BackendConnection } from '@/lib/backend-client';
+import { DEFAULT_SEEDING_POLICY, SEEDING_MODES, normalizeSeedingPolicy, type SeedingMode, type SeedingPolicy } from '@/lib/seeding-policy';
 import { Loader2Icon } from "lucide-react";
 
 
@@ -69,7 +80,7 @@ const STREAMING_QUALITY_OPTIONS = [
   { value: "any", labelKey: "qualityAny" }, 
 ];
 const DEFAULT_STREAMING_QUALITY = STREAMING_QUALITY_OPTIONS[0].value;
-const DEFAULT_DOWNLOAD_LOCATION = "ChillyMovies Downloads"; // Conceptual default
+const MAX_ACTIVE_DOWNLOADS_OPTIONS = [1, 2, 3, 4, 5, 6, 8, 10];
 
 interface SettingsPageProps {
   params: { locale: Locale }; 
@@ -82,10 +93,20 @@ export default function SettingsPage(props: SettingsPageProps) {
   const [selectedPrimaryAccentHex, setSelectedPrimaryAccentHex] = useState<string>(DEFAULT_PRIMARY_ACCENT_COLOR_OPTION.hex);
   const [selectedHighlightAccentHex, setSelectedHighlightAccentHex] = useState<string>(DEFAULT_HIGHLIGHT_ACCENT_COLOR_OPTION.hex);
   const [preferredStreamingQuality, setPreferredStreamingQuality] = useState<string>(DEFAULT_STREAMING_QUALITY);
-  const [downloadLocation, setDownloadLocation] = useState<string>(DEFAULT_DOWNLOAD_LOCATION);
+  const [downloadLocation, setDownloadLocation] = useState<string>(''); // Name of the remembered folder; '' = browser's downloads folder
   const [dictionary, setDictionary] = useState<any>(null);
+  const [bandwidth, setBandwidth] = useState<BandwidthSettings>(DEFAULT_BANDWIDTH_SETTINGS);
+  const [isSavingBandwidth, setIsSavingBandwidth] = useState(false);
+  const [seedingPolicy, setSeedingPolicyDraft] = useState<SeedingPolicy>(DEFAULT_SEEDING_POLICY);
+  const [trackers, setTrackers] = useState<string[]>(DEFAULT_TRACKERS);
+  const [newTracker, setNewTracker] = useState('');
+  const [trackerImportText, setTrackerImportText] = useState('');
+  const [backendUrlDraft, setBackendUrlDraft] = useState('');
+  const [backendApiKeyDraft, setBackendApiKeyDraft] = useState('');
+  const [backendTest, setBackendTest] = useState<{ state: 'idle' | 'testing' | 'ok' | 'error'; message?: string }>({ state: 'idle' });
 
   const { toast } = useToast();
+  const { getBandwidthSettings, setBandwidthSettings, maxActiveDownloads, setMaxActiveDownloads, getSeedingPolicy, setSeedingPolicy, remoteBackend, remoteBackendSettings, setRemoteBackendSettings } = useWebTorrent();
 
   useEffect(() => {
     const fetchDictionary = async () => {
@@ -117,7 +138,6 @@ export default function SettingsPage(props: SettingsPageProps) {
     const savedPrimaryAccentHex = localStorage.getItem("chillymovies-primary-accent-color");
     const savedHighlightAccentHex = localStorage.getItem("chillymovies-highlight-accent-color");
     const savedPreferredQuality = localStorage.getItem("chillymovies-preferred-streaming-quality");
-    const savedDownloadLocation = localStorage.getItem("chillymovies-download-location");
 
     const initialPrimaryColor = PRIMARY_ACCENT_COLORS.find(c => c.hex === savedPrimaryAccentHex) || DEFAULT_PRIMARY_ACCENT_COLOR_OPTION;
     const initialHighlightColor = HIGHLIGHT_ACCENT_COLORS.find(c => c.hex === savedHighlightAccentHex) || DEFAULT_HIGHLIGHT_ACCENT_COLOR_OPTION;
@@ -126,9 +146,18 @@ export default function SettingsPage(props: SettingsPageProps) {
     setSelectedPrimaryAccentHex(initialPrimaryColor.hex);
     setSelectedHighlightAccentHex(initialHighlightColor.hex);
     setPreferredStreamingQuality(initialPreferredQuality);
-    setDownloadLocation(savedDownloadLocation || (dictionary?.downloadLocation?.defaultPath || DEFAULT_DOWNLOAD_LOCATION));
+    getDownloadDirectory().then(directory => setDownloadLocation(directory?.name || '')).catch(() => setDownloadLocation(''));
+    setBandwidth(getBandwidthSettings());
+    setSeedingPolicyDraft(getSeedingPolicy());
+    setTrackers(loadTrackerList());
     applyThemeColors(initialPrimaryColor, initialHighlightColor);
-  }, [applyThemeColors, dictionary]); // Add dictionary to dependency array
+  }, [applyThemeColors, dictionary, getBandwidthSettings, getSeedingPolicy]); // Add dictionary to dependency array
+
+  // The provider reads the saved connection after mount, so fill the form once it has.
+  useEffect(() => {
+    setBackendUrlDraft(remoteBackendSettings.url);
+    setBackendApiKeyDraft(remoteBackendSettings.apiKey);
+  }, [remoteBackendSettings]);
   
   const handlePrimaryAccentColorChange = useCallback((color: PrimaryAccentColorOption) => {
     setSelectedPrimaryAccentHex(color.hex);
@@ -153,17 +182,148 @@ export default function SettingsPage(props: SettingsPageProps) {
     })
   };
 
-  const handleChangeDownloadLocation = () => {
-    // Simulate a change for now. In a desktop app, this would open a folder dialog.
-    const conceptualNewPath = dictionary?.downloadLocation?.conceptualNewPath || "User/My Videos/ChillyMovies"; 
-    setDownloadLocation(conceptualNewPath);
-    if (mounted && typeof localStorage !== 'undefined') localStorage.setItem("chillymovies-download-location", conceptualNewPath);
+  const handleChangeDownloadLocation = async () => {
+    if (!supportsDirectoryAccess()) {
+      toast({ title: dictionary.downloadLocation.toastTitle, description: dictionary.downloadLocation.unsupportedDescription });
+      return;
+    }
+    try {
+      const directory = await chooseDownloadDirectory();
+      setDownloadLocation(directory.name);
+      toast({ title: dictionary.downloadLocation.toastTitle, description: dictionary.downloadLocation.toastDescription.replace('{folder}', directory.name) });
+    } catch (error) {
+      // Closing the picker isn't an error.
+      if ((error as DOMException).name !== 'AbortError') {
+        toast({ title: dictionary.downloadLocation.toastTitle, description: (error as Error).message, variant: "destructive" });
+      }
+    }
+  };
+
+  const handleResetDownloadLocation = async () => {
+    await forgetDownloadDirectory();
+    setDownloadLocation('');
+    toast({ title: dictionary.downloadLocation.toastTitle, description: dictionary.downloadLocation.toastResetDescription });
+  };
+
+  const handleMaxActiveDownloadsChange = (value: string) => {
+    setMaxActiveDownloads(Number(value));
     toast({
-        title: dictionary?.downloadLocation?.toastTitle || "Download Location",
-        description: dictionary?.downloadLocation?.toastDescriptionDesktop || "In a desktop app, a folder picker would open. Location conceptually updated.",
+      title: dictionary.downloadQueue.toastTitle,
+      description: dictionary.downloadQueue.toastDescription.replace('{max}', value),
     });
   };
 
+  const updateAltSpeed = (changes: Partial<BandwidthSettings['altSpeed']>) => {
+    setBandwidth(prev => ({ ...prev, altSpeed: { ...prev.altSpeed, ...changes } }));
+  };
+
+  const handleSaveBandwidth = async () => {
+    const settings = normalizeBandwidthSettings(bandwidth);
+    setBandwidth(settings);
+    setBandwidthSettings(settings);
+    setIsSavingBandwidth(true);
+    try {
+      if (remoteBackend) {
+        await backendRequest('/settings/bandwidth', { method: 'PUT', body: settings }, remoteBackend);
+      } else {
+        const response = await fetch('/api/settings/bandwidth', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(settings),
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || `HTTP ${response.status}`);
+        }
+      }
+      toast({ title: dictionary.bandwidth.toastSavedTitle, description: dictionary.bandwidth.toastSavedDesc });
+    } catch (error) {
+      // The browser client already has the new limits; the download server is optional.
+      toast({
+        title: dictionary.bandwidth.toastSavedTitle,
+        description: dictionary.bandwidth.toastBackendUnavailableDesc.replace('{error}', error instanceof Error ? error.message : String(error)),
+      });
+    } finally {
+      setIsSavingBandwidth(false);
+    }
+  };
+
+  const handleSaveSeedingPolicy = () => {
+    const policy = normalizeSeedingPolicy(seedingPolicy);
+    setSeedingPolicyDraft(policy);
+    setSeedingPolicy(policy);
+    toast({ title: dictionary.seeding.toastSavedTitle, description: dictionary.seeding.toastSavedDesc });
+  };
+
+  const updateTrackers = (next: string[]) => {
+    setTrackers(next);
+    saveTrackerList(next);
+  };
+
+  const handleAddTracker = () => {
+    const url = normalizeTrackerUrl(newTracker);
+    if (!url) {
+      toast({ title: dictionary.trackers.toastTitle, description: dictionary.trackers.toastInvalidDesc, variant: "destructive" });
+      return;
+    }
+    if (!trackers.includes(url)) updateTrackers([...trackers, url]);
+    setNewTracker('');
+  };
+
+  const handleImportTrackers = () => {
+    const imported = parseTrackerList(trackerImportText).filter(url => !trackers.includes(url));
+    updateTrackers([...trackers, ...imported]);
+    setTrackerImportText('');
+    toast({ title: dictionary.trackers.toastTitle, description: dictionary.trackers.toastImportedDesc.replace('{count}', String(imported.length)) });
+  };
+
+  const handleResetTrackers = () => {
+    updateTrackers([...DEFAULT_TRACKERS]);
+    toast({ title: dictionary.trackers.toastTitle, description: dictionary.trackers.toastResetDesc });
+  };
+
+  // The connection as typed, or null (with a toast) if the URL isn't usable.
+  const getBackendDraft = (): BackendConnection | null => {
+    const url = normalizeBackendUrl(backendUrlDraft);
+    if (!url) {
+      toast({ title: dictionary.remoteBackend.toastTitle, description: dictionary.remoteBackend.toastInvalidUrlDesc, variant: "destructive" });
+      return null;
+    }
+    return { url, apiKey: backendApiKeyDraft.trim() || undefined };
+  };
+
+  const testBackend = async (connection: BackendConnection): Promise<boolean> => {
+    setBackendTest({ state: 'testing' });
+    try {
+      const health = await checkBackendHealth(connection);
+      setBackendTest({ state: 'ok', message: health.message });
+      return true;
+    } catch (error) {
+      setBackendTest({ state: 'error', message: error instanceof Error ? error.message : String(error) });
+      return false;
+    }
+  };
+
+  const handleTestBackend = async () => {
+    const connection = getBackendDraft();
+    if (connection) await testBackend(connection);
+  };
+
+  const handleConnectBackend = async () => {
+    const connection = getBackendDraft();
+    if (!connection || !(await testBackend(connection))) return;
+    setRemoteBackendSettings({ enabled: true, url: connection.url, apiKey: connection.apiKey || '' });
+    toast({ title: dictionary.remoteBackend.toastTitle, description: dictionary.remoteBackend.toastConnectedDesc.replace('{url}', connection.url) });
+  };
+
+  const handleDisconnectBackend = () => {
+    setRemoteBackendSettings({ ...remoteBackendSettings, enabled: false });
+    setBackendTest({ state: 'idle' });
+    toast({ title: dictionary.remoteBackend.toastTitle, description: dictionary.remoteBackend.toastDisconnectedDesc });
+  };
+
+  const formatLimit = (limit: number) => (limit > 0 ? `${limit} KB/s` : dictionary.bandwidth.unlimited);
+
   const handleClearPlaybackHistory = () => { 
     localStorage.removeItem("chillymovies-playback-history"); 
     toast({
@@ -273,22 +433,277 @@ export default function SettingsPage(props: SettingsPageProps) {
                     id="current-download-location" 
                     className="mt-1 p-3 rounded-md bg-muted text-sm text-foreground min-h-[2.5rem] flex items-center"
                 >
-                    {downloadLocation}
+                    {downloadLocation || dictionary.downloadLocation.defaultPath}
                 </div>
             </div>
-            <Button onClick={handleChangeDownloadLocation} variant="outline" className="w-full sm:w-auto">
-                <FolderOpenIcon className="mr-2 h-4 w-4"/>
-                {dictionary.downloadLocation.changeLocationButton}
-            </Button>
+            <div className="flex flex-col sm:flex-row gap-2">
+                <Button onClick={handleChangeDownloadLocation} variant="outline" className="w-full sm:w-auto">
+                    <FolderOpenIcon className="mr-2 h-4 w-4"/>
+                    {dictionary.downloadLocation.changeLocationButton}
+                </Button>
+                {downloadLocation && (
+                    <Button onClick={handleResetDownloadLocation} variant="ghost" className="w-full sm:w-auto">
+                        {dictionary.downloadLocation.resetButton}
+                    </Button>
+                )}
+            </div>
              <div className="flex items-start p-3 rounded-md bg-muted/50 border border-dashed border-border">
                 <InfoIcon className="h-5 w-5 text-muted-foreground mr-3 mt-0.5 flex-shrink-0" />
-                <p className="text-sm text-muted-foreground">{dictionary.downloadLocation.note}</p>
+                <p className="text-sm text-muted-foreground">{supportsDirectoryAccess() ? dictionary.downloadLocation.note : dictionary.downloadLocation.unsupportedDescription}</p>
             </div>
         </CardContent>
       </Card>
 
       <Separator />
 
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><ServerIcon className="h-6 w-6 text-primary" /> {dictionary.remoteBackend.title}</CardTitle>
+          <CardDescription>{dictionary.remoteBackend.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between gap-3 p-3 rounded-md border bg-card">
+            <span className="text-sm">
+              {remoteBackend ? dictionary.remoteBackend.connectedStatus.replace('{url}', remoteBackend.url) : dictionary.remoteBackend.browserStatus}
+            </span>
+            <Badge variant={remoteBackend ? "default" : "secondary"}>{remoteBackend ? dictionary.remoteBackend.remoteBadge : dictionary.remoteBackend.browserBadge}</Badge>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="backend-url">{dictionary.remoteBackend.urlLabel}</Label>
+              <Input id="backend-url" value={backendUrlDraft} placeholder="http://192.168.1.20:3001"
+                onChange={(e) => { setBackendUrlDraft(e.target.value); setBackendTest({ state: 'idle' }); }} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="backend-api-key">{dictionary.remoteBackend.apiKeyLabel}</Label>
+              <Input id="backend-api-key" type="password" autoComplete="off" value={backendApiKeyDraft} placeholder={dictionary.remoteBackend.apiKeyPlaceholder}
+                onChange={(e) => { setBackendApiKeyDraft(e.target.value); setBackendTest({ state: 'idle' }); }} />
+            </div>
+          </div>
+          {backendTest.state === 'ok' && <p className="text-sm text-green-500">{dictionary.remoteBackend.testOk.replace('{message}', backendTest.message || '')}</p>}
+          {backendTest.state === 'error' && <p className="text-sm text-destructive">{dictionary.remoteBackend.testFailed.replace('{error}', backendTest.message || '')}</p>}
+          <div className="flex flex-col sm:flex-row justify-end gap-2">
+            <Button variant="outline" onClick={handleTestBackend} disabled={!backendUrlDraft.trim() || backendTest.state === 'testing'}>
+              {backendTest.state === 'testing' ? <Loader2Icon className="mr-2 h-4 w-4 animate-spin" /> : <PlugZapIcon className="mr-2 h-4 w-4" />}
+              {dictionary.remoteBackend.testButton}
+            </Button>
+            {remoteBackend && (
+              <Button variant="outline" onClick={handleDisconnectBackend}>
+                <UnplugIcon className="mr-2 h-4 w-4" /> {dictionary.remoteBackend.disconnectButton}
+              </Button>
+            )}
+            <Button onClick={handleConnectBackend} disabled={!backendUrlDraft.trim() || backendTest.state === 'testing'}>
+              <ServerIcon className="mr-2 h-4 w-4" /> {remoteBackend ? dictionary.remoteBackend.updateButton : dictionary.remoteBackend.connectButton}
+            </Button>
+          </div>
+          <div className="flex items-start p-3 rounded-md bg-muted/50 border border-dashed border-border">
+            <InfoIcon className="h-5 w-5 text-muted-foreground mr-3 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-muted-foreground">{dictionary.remoteBackend.note}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Separator />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><ListOrderedIcon className="h-6 w-6 text-primary" /> {dictionary.downloadQueue.title}</CardTitle>
+          <CardDescription>{dictionary.downloadQueue.description}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-1.5">
+            <Label htmlFor="max-active-downloads-select" className="text-base font-medium block">{dictionary.downloadQueue.maxActiveLabel}</Label>
+            <Select value={String(maxActiveDownloads)} onValueChange={handleMaxActiveDownloadsChange}>
+              <SelectTrigger id="max-active-downloads-select" className="h-11 w-full sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MAX_ACTIVE_DOWNLOADS_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{dictionary.downloadQueue.maxActiveDescription}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Separator />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><GaugeIcon className="h-6 w-6 text-primary" /> {dictionary.bandwidth.title}</CardTitle>
+          <CardDescription>{dictionary.bandwidth.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="bandwidth-download-limit">{dictionary.bandwidth.downloadLimitLabel}</Label>
+              <Input id="bandwidth-download-limit" type="number" min={0} value={bandwidth.downloadLimit}
+                onChange={(e) => setBandwidth(prev => ({ ...prev, downloadLimit: Number(e.target.value) }))} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="bandwidth-upload-limit">{dictionary.bandwidth.uploadLimitLabel}</Label>
+              <Input id="bandwidth-upload-limit" type="number" min={0} value={bandwidth.uploadLimit}
+                onChange={(e) => setBandwidth(prev => ({ ...prev, uploadLimit: Number(e.target.value) }))} />
+            </div>
+            <p className="text-xs text-muted-foreground sm:col-span-2">{dictionary.bandwidth.unlimitedHint}</p>
+          </div>
+
+          <div className="space-y-4 p-4 border rounded-lg">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="bandwidth-alt-speed" className="text-base font-medium">{dictionary.bandwidth.altSpeedTitle}</Label>
+                <p className="text-sm text-muted-foreground">{dictionary.bandwidth.altSpeedDescription}</p>
+              </div>
+              <Switch id="bandwidth-alt-speed" checked={bandwidth.altSpeed.enabled} onCheckedChange={(enabled) => updateAltSpeed({ enabled })} />
+            </div>
+            {bandwidth.altSpeed.enabled && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1.5">
+                  <Label htmlFor="bandwidth-alt-from">{dictionary.bandwidth.fromLabel}</Label>
+                  <Input id="bandwidth-alt-from" type="time" value={bandwidth.altSpeed.from} onChange={(e) => updateAltSpeed({ from: e.target.value })} />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="bandwidth-alt-to">{dictionary.bandwidth.toLabel}</Label>
+                  <Input id="bandwidth-alt-to" type="time" value={bandwidth.altSpeed.to} onChange={(e) => updateAltSpeed({ to: e.target.value })} />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="bandwidth-alt-download-limit">{dictionary.bandwidth.altDownloadLimitLabel}</Label>
+                  <Input id="bandwidth-alt-download-limit" type="number" min={0} value={bandwidth.altSpeed.downloadLimit}
+                    onChange={(e) => updateAltSpeed({ downloadLimit: Number(e.target.value) })} />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="bandwidth-alt-upload-limit">{dictionary.bandwidth.altUploadLimitLabel}</Label>
+                  <Input id="bandwidth-alt-upload-limit" type="number" min={0} value={bandwidth.altSpeed.uploadLimit}
+                    onChange={(e) => updateAltSpeed({ uploadLimit: Number(e.target.value) })} />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              {dictionary.bandwidth.activeNow}: {isAltSpeedActive(bandwidth.altSpeed) ? dictionary.bandwidth.altSpeedActive : dictionary.bandwidth.regularSpeed}
+              {' '}(↓ {formatLimit(getActiveLimits(bandwidth).downloadLimit)}, ↑ {formatLimit(getActiveLimits(bandwidth).uploadLimit)})
+            </p>
+            <Button onClick={handleSaveBandwidth} disabled={isSavingBandwidth} className="w-full sm:w-auto">
+              {isSavingBandwidth ? <Loader2Icon className="mr-2 h-4 w-4 animate-spin" /> : <SaveIcon className="mr-2 h-4 w-4" />}
+              {dictionary.bandwidth.saveButton}
+            </Button>
+          </div>
+          <div className="flex items-start p-3 rounded-md bg-muted/50 border border-dashed border-border">
+            <InfoIcon className="h-5 w-5 text-muted-foreground mr-3 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-muted-foreground">{dictionary.bandwidth.note}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Separator />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><SproutIcon className="h-6 w-6 text-primary" /> {dictionary.seeding.title}</CardTitle>
+          <CardDescription>{dictionary.seeding.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="seeding-mode-select">{dictionary.seeding.modeLabel}</Label>
+              <Select value={seedingPolicy.mode} onValueChange={(mode) => setSeedingPolicyDraft(prev => ({ ...prev, mode: mode as SeedingMode }))}>
+                <SelectTrigger id="seeding-mode-select" className="h-11">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEEDING_MODES.map(mode => (
+                    <SelectItem key={mode} value={mode}>{dictionary.seeding.modes[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {seedingPolicy.mode === 'ratio' && (
+              <div className="space-y-1.5">
+                <Label htmlFor="seeding-ratio">{dictionary.seeding.ratioLabel}</Label>
+                <Input id="seeding-ratio" type="number" min={0.1} step={0.1} value={seedingPolicy.ratio}
+                  onChange={(e) => setSeedingPolicyDraft(prev => ({ ...prev, ratio: Number(e.target.value) }))} />
+              </div>
+            )}
+            {seedingPolicy.mode === 'time' && (
+              <div className="space-y-1.5">
+                <Label htmlFor="seeding-hours">{dictionary.seeding.hoursLabel}</Label>
+                <Input id="seeding-hours" type="number" min={1} value={seedingPolicy.hours}
+                  onChange={(e) => setSeedingPolicyDraft(prev => ({ ...prev, hours: Number(e.target.value) }))} />
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">{dictionary.seeding.modeDescriptions[seedingPolicy.mode]}</p>
+          <div className="flex justify-end">
+            <Button onClick={handleSaveSeedingPolicy} className="w-full sm:w-auto">
+              <SaveIcon className="mr-2 h-4 w-4" />
+              {dictionary.seeding.saveButton}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Separator />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><RadioTowerIcon className="h-6 w-6 text-primary" /> {dictionary.trackers.title}</CardTitle>
+          <CardDescription>{dictionary.trackers.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {trackers.length > 0 ? (
+            <div className="divide-y divide-border/30 border rounded-md">
+              {trackers.map(url => (
+                <div key={url} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <span className="font-mono text-xs truncate" title={url}>{url}</span>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {isWebSocketTracker(url) && <Badge variant="secondary">{dictionary.trackers.browserBadge}</Badge>}
+                    <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={dictionary.trackers.removeLabel} title={dictionary.trackers.removeLabel}
+                      onClick={() => updateTrackers(trackers.filter(tracker => tracker !== url))}>
+                      <XIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">{dictionary.trackers.empty}</p>
+          )}
+          <div className="space-y-1.5">
+            <Label htmlFor="new-tracker">{dictionary.trackers.addLabel}</Label>
+            <div className="flex gap-2">
+              <Input id="new-tracker" value={newTracker} placeholder="wss://tracker.example.com/announce"
+                onChange={(e) => setNewTracker(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAddTracker()} />
+              <Button variant="outline" onClick={handleAddTracker} disabled={!newTracker.trim()}>
+                <PlusIcon className="mr-2 h-4 w-4" /> {dictionary.trackers.addButton}
+              </Button>
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="tracker-import">{dictionary.trackers.importLabel}</Label>
+            <Textarea id="tracker-import" rows={4} className="font-mono text-xs" value={trackerImportText} placeholder={dictionary.trackers.importPlaceholder}
+              onChange={(e) => setTrackerImportText(e.target.value)} />
+            <div className="flex flex-col sm:flex-row justify-end gap-2">
+              <Button variant="outline" onClick={handleResetTrackers}>
+                <RotateCcwIcon className="mr-2 h-4 w-4" /> {dictionary.trackers.resetButton}
+              </Button>
+              <Button onClick={handleImportTrackers} disabled={!trackerImportText.trim()}>
+                <ImportIcon className="mr-2 h-4 w-4" /> {dictionary.trackers.importButton}
+              </Button>
+            </div>
+          </div>
+          <div className="flex items-start p-3 rounded-md bg-muted/50 border border-dashed border-border">
+            <InfoIcon className="h-5 w-5 text-muted-foreground mr-3 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-muted-foreground">{dictionary.trackers.note}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Separator />
+
       <Card className="shadow-lg">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><DatabaseIcon className="h-6 w-6 text-primary" /> {dictionary.dataManagement.title}</CardTitle>
@@ -1,11 +1,82 @@
 // src/app/api/aria2/add/route.ts
-// This API route is removed as Aria2 integration is being stripped for the UI template.
 import { NextRequest, NextResponse } from 'next/server';
+import { aria2Client, Aria2RpcError } from '@/lib/aria2';
+import { searchTorrents, findCompleteSeriesPack, type TorrentQuery } from '@/lib/torrent-search';
+import { rankTorrents } from '@/lib/torrent-ranking';
+import { completeSeasonPack } from '@/lib/series-downloads';
+import type { ConceptualAria2Task } from '@/types/download';
+
+interface Aria2AddRequestBody {
+  name?: string;
+  uri?: string;
+  magnet?: string;
+  seriesTitle?: string;
+  season?: number | 'all';
+  episode?: number;
+  episodes?: number[]; // Episodes a tv_season_pack must contain; missing ones are queued separately
+  seasons?: number[]; // Seasons a tv_season_pack_all must contain
+  quality?: string;
+  type?: ConceptualAria2Task['type'];
+}
+
+// Finds a source URI for requests that only describe what to download (the TV buttons).
+async function resolveSourceUri(body: Aria2AddRequestBody): Promise<string | null> {
+  if (body.uri) return body.uri;
+  if (body.magnet) return body.magnet;
+  if (!body.seriesTitle) return null;
+
+  let query: TorrentQuery;
+  switch (body.type) {
+    case 'tv_episode':
+      if (typeof body.season !== 'number' || typeof body.episode !== 'number') return null;
+      query = { kind: 'episode', title: body.seriesTitle, season: body.season, episode: body.episode };
+      break;
+    case 'tv_season_pack':
+      if (typeof body.season !== 'number') return null;
+      query = { kind: 'season', title: body.seriesTitle, season: body.season };
+      break;
+    case 'tv_season_pack_all': {
+      // A text search also turns up movies and single episodes; only a release claiming every season will do.
+      console.log(`[API Aria2 Add] Resolving a complete series pack for "${body.seriesTitle}"`);
+      const pack = await findCompleteSeriesPack(body.seriesTitle, body.seasons || [], body.quality);
+      return pack?.magnet || null;
+    }
+    default:
+      return null;
+  }
+
+  console.log(`[API Aria2 Add] Resolving source for ${JSON.stringify(query)}`);
+  const results = rankTorrents(await searchTorrents(query), { quality: body.quality, kind: query.kind });
+  return results[0]?.magnet || null;
+}
 
 export async function POST(request: NextRequest) {
-  console.log("[API Aria2 Add] Endpoint stubbed: Not active in UI Template Mode.");
-  return NextResponse.json({ 
-    message: "Aria2 add task API is stubbed. In a full app, this would interact with an Aria2 instance.",
-    taskId: "stubbed-task-id-" + Date.now() 
-  }, { status: 501 });
+  let body: Aria2AddRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON.' }, { status: 400 });
+  }
+
+  try {
+    const sourceUri = await resolveSourceUri(body);
+    if (!sourceUri) {
+      console.warn('[API Aria2 Add] No source could be resolved for request:', body);
+      return NextResponse.json({ error: 'No download source found for this request.' }, { status: 404 });
+    }
+
+    const taskId = await aria2Client.addUri([sourceUri]);
+    const taskName = body.name || sourceUri;
+    console.log(`[API Aria2 Add] Queued "${taskName}" as GID ${taskId}`);
+    if (body.type === 'tv_season_pack' && body.seriesTitle && typeof body.season === 'number' && body.episodes?.length) {
+      // Runs after the response is sent: checks the pack's files and queues any missing episode.
+      completeSeasonPack(taskId, { seriesTitle: body.seriesTitle, season: body.season, episodes: body.episodes, quality: body.quality }).catch(error => console.error(`[API Aria2 Add] Season pack follow-up failed for ${taskId}:`, error));
+    }
+    return NextResponse.json({ taskId, taskName }, { status: 201 });
+  } catch (error) {
+    console.error('[API Aria2 Add] Error adding task:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const status = error instanceof Aria2RpcError ? 502 : 500;
+    return NextResponse.json({ error: `Failed to add download: ${errorMessage}` }, { status });
+  }
 }
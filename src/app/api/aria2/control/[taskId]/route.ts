@@ -0,0 +1,38 @@
+// src/app/api/aria2/control/[taskId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { aria2Client, Aria2RpcError, type Aria2RawStatus } from '@/lib/aria2';
+
+const ACTIONS = ['pause', 'unpause', 'remove'] as const;
+type Aria2ControlAction = typeof ACTIONS[number];
+
+const STOPPED_STATUSES: Aria2RawStatus[] = ['complete', 'error', 'removed'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { taskId: string } }
+) {
+  const taskId = params.taskId;
+  const { action } = await request.json().catch(() => ({ action: undefined }));
+
+  if (!ACTIONS.includes(action)) {
+    return NextResponse.json({ error: `Invalid action. Expected one of: ${ACTIONS.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    // Act on the task actually downloading (magnet GIDs hand over to a follow-up task).
+    const { gid, status } = await aria2Client.tellEffectiveStatus(taskId);
+    if (action === 'remove' && STOPPED_STATUSES.includes(status)) {
+      // Finished and failed tasks only linger as results; a magnet's metadata task leaves one too.
+      await aria2Client.removeDownloadResult(gid);
+      if (gid !== taskId) await aria2Client.removeDownloadResult(taskId).catch(() => undefined);
+    } else {
+      await aria2Client[action as Aria2ControlAction](gid);
+    }
+    return NextResponse.json({ taskId, action });
+  } catch (error) {
+    console.error(`[API Aria2 Control] "${action}" failed for ${taskId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const status = error instanceof Aria2RpcError ? (error.code === 1 ? 404 : 502) : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  }
+}
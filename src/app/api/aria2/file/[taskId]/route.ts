@@ -1,15 +1,64 @@
 // src/app/api/aria2/file/[taskId]/route.ts
-// This API route is removed as Aria2 integration is being stripped for the UI template.
+// Streams a completed aria2 download. Assumes aria2c writes to a directory this Next.js server can read.
 import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { aria2Client, Aria2RpcError } from '@/lib/aria2';
+import { getMimeType } from '@/lib/media-types';
+import { parseRangeHeader, formatContentRange } from '@/lib/http-range';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { taskId: string } }
 ) {
   const taskId = params.taskId;
-  console.log(`[API Aria2 File] Endpoint stubbed for Task ID: ${taskId}. Not active in UI Template Mode.`);
-  
-  const headers = new Headers();
-  headers.set('Content-Type', 'text/plain');
-  return new NextResponse("This is a stubbed file response. Aria2 file serving not active.", { status: 501, headers });
+  const fileIndexParam = request.nextUrl.searchParams.get('index');
+
+  try {
+    const status = await aria2Client.tellEffectiveStatus(taskId);
+    if (status.status !== 'complete') {
+      return NextResponse.json({ error: `Download is not complete (status: ${status.status}).` }, { status: 409 });
+    }
+
+    const files = (await aria2Client.getFiles(status.gid)).filter(f => f.selected === 'true' && f.path);
+    const file = fileIndexParam
+      ? files.find(f => f.index === fileIndexParam)
+      : files.reduce<typeof files[number] | undefined>((largest, f) => (!largest || Number(f.length) > Number(largest.length) ? f : largest), undefined);
+
+    if (!file) {
+      return NextResponse.json({ error: 'File not found for this task.' }, { status: 404 });
+    }
+
+    const stat = await fs.promises.stat(file.path).catch(() => null);
+    if (!stat || !stat.isFile()) {
+      console.warn(`[API Aria2 File] File for ${taskId} is not readable at ${file.path}`);
+      return NextResponse.json({ error: 'File is not available on this server.' }, { status: 404 });
+    }
+
+    const fileName = path.basename(file.path);
+    const headers = new Headers();
+    headers.set('Content-Type', getMimeType(fileName));
+    headers.set('Accept-Ranges', 'bytes');
+    headers.set('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+
+    const range = parseRangeHeader(request.headers.get('range'), stat.size);
+    if (range === 'unsatisfiable') {
+      headers.set('Content-Range', `bytes */${stat.size}`);
+      return new NextResponse(null, { status: 416, headers });
+    }
+
+    const start = range ? range.start : 0;
+    const end = range ? range.end : stat.size - 1;
+    headers.set('Content-Length', String(end - start + 1));
+    if (range) headers.set('Content-Range', formatContentRange(range, stat.size));
+
+    const nodeStream = fs.createReadStream(file.path, { start, end });
+    return new NextResponse(Readable.toWeb(nodeStream) as ReadableStream, { status: range ? 206 : 200, headers });
+  } catch (error) {
+    console.error(`[API Aria2 File] Error serving file for ${taskId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const status = error instanceof Aria2RpcError ? (error.code === 1 ? 404 : 502) : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  }
 }
@@ -1,20 +1,31 @@
 // src/app/api/aria2/status/[taskId]/route.ts
-// This API route is removed as Aria2 integration is being stripped for the UI template.
 import { NextRequest, NextResponse } from 'next/server';
+import { aria2Client, mapAria2StatusToDisplay, Aria2RpcError } from '@/lib/aria2';
+import { mapEpisodeFiles } from '@/lib/season-pack';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { taskId: string } }
 ) {
   const taskId = params.taskId;
-  console.log(`[API Aria2 Status] Endpoint stubbed for Task ID: ${taskId}. Not active in UI Template Mode.`);
-  return NextResponse.json({ 
-    gid: taskId,
-    status: 'paused', // Example stubbed status
-    totalLength: "0",
-    completedLength: "0",
-    downloadSpeed: "0",
-    errorMessage: "This is a stubbed response. Aria2 integration not active.",
-    message: "Aria2 status API is stubbed."
-  }, { status: 501 });
+  try {
+    const status = await aria2Client.tellEffectiveStatus(taskId);
+    // Keep reporting under the GID the client stored, even after a magnet is followed by its real download.
+    const display = mapAria2StatusToDisplay(status, { taskId });
+
+    // Season packs: ?season=2&episodes=1,2,3 adds which file holds which episode once metadata is in.
+    const season = request.nextUrl.searchParams.get('season');
+    const episodes = request.nextUrl.searchParams.get('episodes');
+    if (season && episodes && status.files && status.bittorrent?.info) {
+      const files = status.files.map(f => ({ name: f.path, length: Number(f.length) }));
+      return NextResponse.json({ ...display, episodeFiles: mapEpisodeFiles(files, Number(season), episodes.split(',').map(Number)) });
+    }
+    return NextResponse.json(display);
+  } catch (error) {
+    console.error(`[API Aria2 Status] Error fetching status for ${taskId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    // aria2 answers unknown GIDs with error code 1 ("GID ... is not found").
+    const status = error instanceof Aria2RpcError ? (error.code === 1 ? 404 : 502) : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  }
 }
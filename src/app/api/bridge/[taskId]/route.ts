@@ -0,0 +1,19 @@
+// src/app/api/bridge/[taskId]/route.ts
+// Tells the backend the browser is done with a bridged torrent, so it can drop it if it only existed for the bridge.
+import { NextRequest, NextResponse } from 'next/server';
+import { backendRequest, BackendRequestError } from '@/lib/backend-client';
+
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { taskId: string } }
+) {
+  try {
+    return NextResponse.json(await backendRequest(`/bridge/${encodeURIComponent(params.taskId)}`, { method: 'DELETE' }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const status = error instanceof BackendRequestError ? error.status || 502 : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  }
+}
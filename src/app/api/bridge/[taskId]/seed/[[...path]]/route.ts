@@ -0,0 +1,33 @@
+// src/app/api/bridge/[taskId]/seed/[[...path]]/route.ts
+// Relays the backend's web seed for a bridged torrent. The browser's WebTorrent client requests
+// byte ranges here (at the base URL for single-file torrents, at /<file path> for multi-file ones).
+import { NextRequest, NextResponse } from 'next/server';
+import { backendStream, BackendRequestError } from '@/lib/backend-client';
+
+export const dynamic = 'force-dynamic';
+
+// Passed through from the backend's answer; everything else (e.g. transfer encoding) is left to Next.js.
+const RELAYED_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { taskId: string; path?: string[] } }
+) {
+  const filePath = (params.path || []).map(segment => encodeURIComponent(segment)).join('/');
+  const backendPath = `/bridge/${encodeURIComponent(params.taskId)}/seed${filePath ? `/${filePath}` : ''}`;
+  const range = request.headers.get('range');
+
+  try {
+    const response = await backendStream(backendPath, { headers: range ? { Range: range } : {}, signal: request.signal });
+    const headers = new Headers({ 'Cache-Control': 'no-store' });
+    RELAYED_HEADERS.forEach(name => {
+      const value = response.headers.get(name);
+      if (value) headers.set(name, value);
+    });
+    return new NextResponse(response.body, { status: response.status, headers });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const status = error instanceof BackendRequestError ? error.status || 502 : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  }
+}
@@ -0,0 +1,33 @@
+// src/app/api/bridge/route.ts
+// Asks the download backend to join a torrent's TCP/UDP swarm for the browser client and relay it back.
+import { NextRequest, NextResponse } from 'next/server';
+import { backendRequest, BackendRequestError } from '@/lib/backend-client';
+import { getInfoHash } from '@/lib/magnet';
+
+export const dynamic = 'force-dynamic';
+
+interface BackendBridgeInfo {
+  taskId: string;
+  webSeedPath: string;
+  created: boolean;
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const magnetURI: unknown = body?.magnetURI;
+  if (typeof magnetURI !== 'string' || !getInfoHash(magnetURI)) {
+    return NextResponse.json({ error: 'Expected a magnet link with an infohash' }, { status: 400 });
+  }
+
+  try {
+    const bridge = await backendRequest<BackendBridgeInfo>('/bridge', { method: 'POST', body: { magnetURI, name: body.name } });
+    // The web seed goes through this app so the browser never needs the backend's API key.
+    return NextResponse.json({ taskId: bridge.taskId, created: bridge.created, webSeedUrl: `/api/bridge/${bridge.taskId}/seed` }, { status: 201 });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn('[API Bridge] Could not start a bridge:', errorMessage);
+    // Unreachable backend -> 502, so the client can tell "not running" apart from a rejected request.
+    const status = error instanceof BackendRequestError ? error.status || 502 : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  }
+}
@@ -0,0 +1,137 @@
+// src/app/api/downloads/events/route.ts
+// Server-Sent Events for aria2 tasks, in the same event format as the backend's GET /events.
+// aria2 has no push channel we can relay over HTTP, so one shared poller lists it and diffs the
+// result for every connected listener. It only runs while someone is listening.
+import { NextRequest } from 'next/server';
+import { listAria2Downloads } from '@/lib/aria2';
+import type { Aria2DownloadItemDisplay, DownloadEventPayloads, DownloadEventType } from '@/types/download';
+
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL = 1000; // 1 second
+const UNAVAILABLE_POLL_INTERVAL = 10000; // Back off while aria2 is down
+const RECONNECT_DELAY = 3000;
+
+interface Subscriber {
+  send: (chunk: string) => void;
+  snapshotSent: boolean;
+}
+
+type PendingEvent = { [T in DownloadEventType]: { type: T; payload: DownloadEventPayloads[T] } }[DownloadEventType];
+
+const subscribers = new Set<Subscriber>();
+let known: Map<string, Aria2DownloadItemDisplay> | null = null; // Last successful listing
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+let aria2Unavailable = false;
+
+const formatEvent = (event: PendingEvent) => `event: ${event.type}\ndata: ${JSON.stringify(event.payload)}\n\n`;
+
+function hasChanged(previous: Aria2DownloadItemDisplay, current: Aria2DownloadItemDisplay): boolean {
+  return previous.status !== current.status
+    || previous.completedLength !== current.completedLength
+    || previous.downloadSpeed !== current.downloadSpeed
+    || previous.uploadSpeed !== current.uploadSpeed
+    || previous.connections !== current.connections;
+}
+
+function diff(previousItems: Map<string, Aria2DownloadItemDisplay>, current: Map<string, Aria2DownloadItemDisplay>): PendingEvent[] {
+  const events: PendingEvent[] = [];
+  current.forEach((item, taskId) => {
+    const previous = previousItems.get(taskId);
+    if (!previous) events.push({ type: 'added', payload: item });
+    else if (item.status !== previous.status && item.status === 'complete') events.push({ type: 'done', payload: item });
+    else if (item.status !== previous.status && item.status === 'error') events.push({ type: 'error', payload: { taskId, errorMessage: item.errorMessage || `aria2 error ${item.errorCode || ''}`.trim() } });
+    else if (hasChanged(previous, item)) events.push({ type: 'progress', payload: item });
+  });
+  previousItems.forEach((_, taskId) => {
+    if (!current.has(taskId)) events.push({ type: 'removed', payload: { taskId } });
+  });
+  return events;
+}
+
+async function poll() {
+  pollTimer = null;
+  polling = true;
+  try {
+    const downloads = await listAria2Downloads();
+    const current = new Map(downloads.map(d => [d.taskId, d]));
+    const events = known ? diff(known, current).map(formatEvent).join('') : '';
+    subscribers.forEach(subscriber => {
+      if (!subscriber.snapshotSent) {
+        subscriber.send(formatEvent({ type: 'snapshot', payload: { downloads } }));
+        subscriber.snapshotSent = true;
+      } else if (events) {
+        subscriber.send(events);
+      }
+    });
+    known = current;
+    if (aria2Unavailable) console.log('[API Downloads Events] aria2 is reachable again');
+    aria2Unavailable = false;
+  } catch (error) {
+    // Keep the streams open; aria2 may just be restarting. Warn once per outage, not once per poll.
+    if (!aria2Unavailable) console.warn('[API Downloads Events] aria2 poll failed:', error instanceof Error ? error.message : error);
+    aria2Unavailable = true;
+  } finally {
+    polling = false;
+    if (subscribers.size > 0) pollTimer = setTimeout(poll, aria2Unavailable ? UNAVAILABLE_POLL_INTERVAL : POLL_INTERVAL);
+    else known = null; // Nobody listening: the next listener starts from a fresh listing
+  }
+}
+
+function subscribe(subscriber: Subscriber): () => void {
+  subscribers.add(subscriber);
+  if (known && !aria2Unavailable) {
+    subscriber.send(formatEvent({ type: 'snapshot', payload: { downloads: [...known.values()] } }));
+    subscriber.snapshotSent = true;
+  } else if (aria2Unavailable) {
+    subscriber.send(`: aria2 unavailable\n\n`);
+  }
+  if (!pollTimer && !polling) void poll();
+
+  return () => {
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0 && pollTimer) {
+      clearTimeout(pollTimer);
+      pollTimer = null;
+      known = null;
+    }
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`retry: ${RECONNECT_DELAY}\n\n`));
+      unsubscribe = subscribe({
+        send: chunk => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            unsubscribe?.(); // The stream closed under us
+          }
+        },
+        snapshotSent: false,
+      });
+
+      request.signal.addEventListener('abort', () => {
+        unsubscribe?.();
+        try { controller.close(); } catch { /* already closed */ }
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,14 @@
+// src/app/api/downloads/series/[jobId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getSeriesBatch } from '@/lib/series-downloads';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const job = getSeriesBatch(params.jobId);
+  if (!job) {
+    return NextResponse.json({ error: `Series download ${params.jobId} not found.` }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
@@ -0,0 +1,44 @@
+// src/app/api/downloads/series/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { startSeriesBatch, listSeriesBatches } from '@/lib/series-downloads';
+
+export const dynamic = 'force-dynamic';
+
+interface SeriesBatchRequestBody {
+  seriesId?: number | string;
+  seriesTitle?: string;
+  quality?: string;
+  includeSpecials?: boolean;
+}
+
+export async function GET() {
+  return NextResponse.json({ jobs: listSeriesBatches() });
+}
+
+// Starts a "Download All Seasons" job. Sources are resolved and queued on aria2 in the background.
+export async function POST(request: NextRequest) {
+  let body: SeriesBatchRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON.' }, { status: 400 });
+  }
+  if (!body.seriesId || !body.seriesTitle) {
+    return NextResponse.json({ error: 'Missing required fields: seriesId, seriesTitle' }, { status: 400 });
+  }
+
+  try {
+    const job = await startSeriesBatch({
+      seriesId: body.seriesId,
+      seriesTitle: body.seriesTitle,
+      quality: body.quality || 'Any Available',
+      includeSpecials: body.includeSpecials,
+    });
+    console.log(`[API Downloads Series] Started ${job.jobId} for "${job.seriesTitle}" (${job.seasons.length} seasons, ${job.quality})`);
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    console.error('[API Downloads Series] Error starting batch:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: `Failed to start series download: ${errorMessage}` }, { status: 500 });
+  }
+}
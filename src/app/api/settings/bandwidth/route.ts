@@ -0,0 +1,36 @@
+// src/app/api/settings/bandwidth/route.ts
+// Relays the Settings page's bandwidth limits to the download backend, which keeps the API key server-side.
+import { NextRequest, NextResponse } from 'next/server';
+import { backendRequest, BackendRequestError } from '@/lib/backend-client';
+import { normalizeBandwidthSettings } from '@/lib/bandwidth';
+
+export const dynamic = 'force-dynamic';
+
+function toErrorResponse(error: unknown) {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  // Unreachable backend -> 502, so the page can tell "not running" apart from a rejected request.
+  const status = error instanceof BackendRequestError ? error.status || 502 : 500;
+  return NextResponse.json({ error: errorMessage }, { status });
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json(await backendRequest('/settings/bandwidth'));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  if (!body) {
+    return NextResponse.json({ error: 'Expected bandwidth settings in the request body' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await backendRequest('/settings/bandwidth', { method: 'PUT', body: normalizeBandwidthSettings(body) }));
+  } catch (error) {
+    console.warn('[API Settings Bandwidth] Could not update the backend:', error instanceof Error ? error.message : error);
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,162 @@
+// src/app/api/torrents/metadata/route.ts
+// Parses a .torrent for the "Add download" preview: either uploaded as multipart form data
+// (field "file") or fetched from { url }. Returns TorrentMetadata (src/lib/torrent-metadata.ts).
+import type { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import http, { type IncomingMessage } from 'node:http';
+import https from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { NextRequest, NextResponse } from 'next/server';
+import parseTorrent from 'parse-torrent';
+import { MAX_TORRENT_FILE_SIZE, type TorrentMetadata, type TorrentSourceType } from '@/lib/torrent-metadata';
+
+export const dynamic = 'force-dynamic';
+
+const FETCH_TIMEOUT = 15000; // 15 seconds
+const MAX_REDIRECTS = 5;
+
+// Addresses a URL from the user must not reach through this server: loopback, private networks,
+// link-local (cloud metadata services), carrier-grade NAT, multicast and unspecified.
+const BLOCKED_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// The client error we can name, as opposed to a network failure or a server bug.
+class TorrentSourceError extends Error {}
+
+// parse-torrent's typings still describe its old synchronous API; v11 returns a promise.
+type ParsedTorrent = Awaited<ReturnType<typeof parseTorrent>> & {
+  files?: { path: string; length: number }[];
+  length?: number;
+  comment?: string;
+  createdBy?: string;
+  created?: Date;
+  private?: boolean;
+};
+
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 ranges.
+const isBlockedAddress = (address: string) => BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// Only public hosts: otherwise anyone who can reach the app could make it fetch from its own network.
+// Returns the checked address, which is the one the request then connects to.
+async function resolvePublicAddress(url: URL): Promise<LookupAddress> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new TorrentSourceError('Expected an http or https URL to a .torrent file');
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname) ? [{ address: hostname, family: isIP(hostname) }] : await lookup(hostname, { all: true });
+  if (addresses.length === 0 || addresses.some(entry => isBlockedAddress(entry.address))) {
+    throw new TorrentSourceError('Only .torrent files on public hosts can be fetched');
+  }
+  return addresses[0];
+}
+
+// GETs the URL from the given address instead of resolving the hostname again, so a DNS answer that
+// changes after the check (DNS rebinding) can't send the request elsewhere. The hostname is still
+// what goes out in the Host header and as the TLS server name.
+function get(url: URL, { address, family }: LookupAddress, signal: AbortSignal): Promise<IncomingMessage> {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, [{ address, family }]);
+    else callback(null, address, family);
+  };
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    client.get(url, { signal, lookup: pinnedLookup, headers: { Accept: 'application/x-bittorrent, */*' } }, resolve).on('error', reject);
+  });
+}
+
+async function readWithLimit(body: IncomingMessage, limit: number): Promise<Uint8Array> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of body as AsyncIterable<Buffer>) {
+    size += chunk.byteLength;
+    if (size > limit) {
+      body.destroy();
+      throw new TorrentSourceError('That file is too large to be a .torrent');
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function fetchTorrentFile(source: string): Promise<Uint8Array> {
+  let url: URL;
+  try {
+    url = new URL(source);
+  } catch {
+    throw new TorrentSourceError('Expected an http or https URL to a .torrent file');
+  }
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT);
+  // Redirects are followed by hand so every hop gets the same host check.
+  for (let redirects = 0; ; redirects++) {
+    const response = await get(url, await resolvePublicAddress(url), signal);
+    const { statusCode = 0, statusMessage = '' } = response;
+    const location = response.headers.location;
+    if (statusCode >= 300 && statusCode < 400 && location) {
+      response.destroy();
+      if (redirects >= MAX_REDIRECTS) throw new TorrentSourceError('Too many redirects');
+      url = new URL(location, url);
+      continue;
+    }
+    if (statusCode < 200 || statusCode >= 300) {
+      response.destroy();
+      throw new TorrentSourceError(`The server responded with ${statusCode} ${statusMessage}`.trim());
+    }
+    if (Number(response.headers['content-length']) > MAX_TORRENT_FILE_SIZE) {
+      response.destroy();
+      throw new TorrentSourceError('That file is too large to be a .torrent');
+    }
+    // Content-Length may be missing (chunked) or wrong, so the cap also applies while reading.
+    return readWithLimit(response, MAX_TORRENT_FILE_SIZE);
+  }
+}
+
+async function readSource(request: NextRequest): Promise<{ data: Uint8Array; source: TorrentSourceType }> {
+  if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+    const file = (await request.formData()).get('file');
+    if (!file || typeof file === 'string') throw new TorrentSourceError('Missing form field: file');
+    if (file.size > MAX_TORRENT_FILE_SIZE) throw new TorrentSourceError('That file is too large to be a .torrent');
+    return { data: new Uint8Array(await file.arrayBuffer()), source: 'file' };
+  }
+  const body = await request.json().catch(() => null);
+  if (typeof body?.url !== 'string') throw new TorrentSourceError('Expected a .torrent file upload or { url }');
+  return { data: await fetchTorrentFile(body.url.trim()), source: 'url' };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { data, source } = await readSource(request);
+    let torrent: ParsedTorrent;
+    try {
+      torrent = await parseTorrent(Buffer.from(data)) as ParsedTorrent;
+    } catch {
+      throw new TorrentSourceError('That is not a valid .torrent file');
+    }
+    if (!torrent.files) throw new TorrentSourceError('That is not a valid .torrent file');
+
+    const metadata: TorrentMetadata = {
+      infoHash: torrent.infoHash,
+      name: torrent.name,
+      source,
+      files: torrent.files.map(file => ({ path: file.path, length: file.length })),
+      length: torrent.length,
+      announce: torrent.announce || [],
+      urlList: torrent.urlList || [],
+      comment: torrent.comment,
+      createdBy: torrent.createdBy,
+      created: torrent.created?.toISOString(),
+      private: torrent.private || undefined,
+      torrentFile: Buffer.from(data).toString('base64'),
+    };
+    return NextResponse.json(metadata);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (error instanceof TorrentSourceError) return NextResponse.json({ error: errorMessage }, { status: 400 });
+    console.error('[API /torrents/metadata] Could not read torrent:', errorMessage);
+    // Fetching the URL failed (DNS, timeout, refused): the upstream is at fault, not the request.
+    return NextResponse.json({ error: `Could not read torrent: ${errorMessage}` }, { status: 502 });
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { listProviders } from '@/lib/torrent-providers';
+
+// Lists the registered torrent indexers and whether each one is currently enabled.
+export async function GET() {
+  return NextResponse.json({ providers: listProviders() });
+}
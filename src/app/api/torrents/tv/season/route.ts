@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findSeasonTorrents, formatEpisodeCode } from '@/lib/torrent-search';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const tvId = searchParams.get('tvId');
+  const title = searchParams.get('title');
+  const season = Number(searchParams.get('season'));
+  const quality = searchParams.get('quality');
+
+  if (!tvId || !title || !Number.isInteger(season)) {
+    console.warn('[API /torrents/tv/season] Missing required query parameters:', { tvId, title, season });
+    return NextResponse.json({ error: 'Missing required query parameters: tvId, title, season' }, { status: 400 });
+  }
+
+  const query = `${title} ${formatEpisodeCode(season)}`;
+  try {
+    console.log(`[API /torrents/tv/season] Searching for a pack: "${query}"`);
+    const response = await findSeasonTorrents(tvId, title, season, quality);
+
+    if (response.pack) {
+      console.log(`[API /torrents/tv/season] Pack selected for "${query}": ${response.pack.title} (Score: ${response.pack.score}, Seeders: ${response.pack.seeds})`);
+    } else if (!response.fallback.some(e => e.magnet)) {
+      console.warn(`[API /torrents/tv/season] No pack or episode torrents found for "${query}".`);
+      return NextResponse.json({ ...response, error: 'No suitable torrents found' }, { status: 404 });
+    }
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error(`[API /torrents/tv/season] Error searching for "${query}":`, error);
+    const errorMessage = (error instanceof Error) ? error.message : String(error);
+    return NextResponse.json({ error: `Error searching for season torrents: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,341 @@
+// src/components/features/downloads/AddDownloadDialog.tsx
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import Image from "next/image";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FileUpIcon, FileIcon, LinkIcon, Loader2Icon, MagnetIcon, SearchIcon, XIcon } from "lucide-react";
+import { formatBytes } from "@/lib/utils";
+import { getFullImagePath } from "@/lib/tmdb";
+import { handleSearch } from "@/lib/actions/search.actions";
+import { fetchTorrentMetadata, isTorrentFileName, parseMagnetInput, type TorrentMetadata, type TorrentSourceType } from "@/lib/torrent-metadata";
+import type { ClientTMDBMultiSearchResultItem } from "@/types/tmdb";
+
+// Something dropped on the Downloads page, handed over so the dialog opens with it loaded.
+export type DroppedDownloadSource = { file: File } | { text: string };
+
+// The TMDB title a download is linked to. Episodes need a season and episode number too.
+interface TmdbLink {
+  id: number;
+  mediaType: 'movie' | 'tv';
+  title: string;
+  year?: string;
+}
+
+interface AddDownloadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  droppedSource?: DroppedDownloadSource | null;
+  onAdd: (metadata: TorrentMetadata, name: string, itemId?: string | number) => Promise<void>;
+  dictionary: any;
+}
+
+const MAX_PREVIEW_FILES = 200; // Season packs can list thousands; the total still covers all of them
+
+/** "S01E02", or undefined until both numbers are valid. */
+function toEpisodeCode(season: string, episode: string): string | undefined {
+  const seasonNumber = parseInt(season, 10);
+  const episodeNumber = parseInt(episode, 10);
+  if (!(seasonNumber >= 0) || !(episodeNumber > 0)) return undefined;
+  return `S${String(seasonNumber).padStart(2, "0")}E${String(episodeNumber).padStart(2, "0")}`;
+}
+
+// Paste a magnet or infohash, upload a .torrent or give a URL to one, check what it contains and
+// optionally tie it to a TMDB movie or episode before it is added.
+export function AddDownloadDialog({ open, onOpenChange, droppedSource, onAdd, dictionary }: AddDownloadDialogProps) {
+  const [sourceType, setSourceType] = useState<TorrentSourceType>('magnet');
+  const [magnetText, setMagnetText] = useState("");
+  const [urlText, setUrlText] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [metadata, setMetadata] = useState<TorrentMetadata | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<ClientTMDBMultiSearchResultItem[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [tmdbLink, setTmdbLink] = useState<TmdbLink | null>(null);
+  const [season, setSeason] = useState("1");
+  const [episode, setEpisode] = useState("1");
+  const [isAdding, setIsAdding] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewRequestRef = useRef(0); // Ignores previews that finish after the source changed again
+
+  const clearPreview = () => {
+    previewRequestRef.current++;
+    setMetadata(null);
+    setPreviewError(null);
+    setIsLoadingPreview(false);
+  };
+
+  const loadPreview = async (source: File | string) => {
+    const request = ++previewRequestRef.current;
+    setMetadata(null);
+    setPreviewError(null);
+    setIsLoadingPreview(true);
+    try {
+      const result = await fetchTorrentMetadata(source);
+      if (request === previewRequestRef.current) setMetadata(result);
+    } catch (error) {
+      if (request === previewRequestRef.current) setPreviewError((error as Error).message);
+    } finally {
+      if (request === previewRequestRef.current) setIsLoadingPreview(false);
+    }
+  };
+
+  const previewMagnet = (text: string) => {
+    clearPreview();
+    const result = parseMagnetInput(text);
+    if (result) setMetadata(result);
+    else if (text.trim()) setPreviewError(dictionary.invalidMagnet);
+  };
+
+  const selectFile = (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    if (!isTorrentFileName(selected.name)) {
+      clearPreview();
+      setPreviewError(dictionary.invalidFile);
+      return;
+    }
+    loadPreview(selected);
+  };
+
+  // Start from a clean slate every time, loaded with whatever was dropped on the page.
+  useEffect(() => {
+    if (!open) return;
+    clearPreview();
+    setMagnetText("");
+    setUrlText("");
+    setFile(null);
+    setSearchQuery("");
+    setSearchResults(null);
+    setSearchError(null);
+    setTmdbLink(null);
+    setSeason("1");
+    setEpisode("1");
+    if (!droppedSource) {
+      setSourceType('magnet');
+    } else if ('file' in droppedSource) {
+      setSourceType('file');
+      selectFile(droppedSource.file);
+    } else if (/^https?:\/\//i.test(droppedSource.text.trim())) {
+      setSourceType('url');
+      setUrlText(droppedSource.text.trim());
+      loadPreview(droppedSource.text.trim());
+    } else {
+      setSourceType('magnet');
+      setMagnetText(droppedSource.text);
+      previewMagnet(droppedSource.text);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, droppedSource]);
+
+  // Each tab keeps what was entered in it; switching back shows its preview again.
+  const switchSource = (type: TorrentSourceType) => {
+    setSourceType(type);
+    if (type === 'magnet') previewMagnet(magnetText);
+    else if (type === 'file' && file) selectFile(file);
+    else clearPreview();
+  };
+
+  const runSearch = async () => {
+    if (!searchQuery.trim()) return;
+    setIsSearching(true);
+    const result = await handleSearch({ query: searchQuery });
+    setSearchResults(result.results || []);
+    setSearchError(result.error || null);
+    setIsSearching(false);
+  };
+
+  const linkResult = (item: ClientTMDBMultiSearchResultItem) => {
+    const date = item.media_type === 'movie' ? item.release_date : item.first_air_date;
+    setTmdbLink({ id: item.id, mediaType: item.media_type, title: item.media_type === 'movie' ? item.title : item.name, year: date?.slice(0, 4) || undefined });
+    setSearchResults(null);
+  };
+
+  // Same itemId format as the TMDB download buttons: the movie id, or "<seriesId>-S01E02".
+  const episodeCode = tmdbLink?.mediaType === 'tv' ? toEpisodeCode(season, episode) : undefined;
+  const itemId = !tmdbLink ? undefined : tmdbLink.mediaType === 'movie' ? tmdbLink.id : episodeCode && `${tmdbLink.id}-${episodeCode}`;
+  // A linked title names the download the way those buttons do; otherwise the torrent's own name.
+  const downloadName = tmdbLink
+    ? (episodeCode ? `${tmdbLink.title} - ${episodeCode}` : tmdbLink.title)
+    : metadata?.name || metadata?.infoHash || "";
+  const canAdd = !!metadata && !isAdding && (!tmdbLink || !!itemId);
+
+  const handleAdd = async () => {
+    if (!metadata) return;
+    setIsAdding(true);
+    try {
+      await onAdd(metadata, downloadName, itemId);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const previewFiles = metadata?.files?.slice(0, MAX_PREVIEW_FILES) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{dictionary.title}</DialogTitle>
+          <DialogDescription>{dictionary.description}</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={sourceType} onValueChange={(value) => switchSource(value as TorrentSourceType)}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="magnet" className="gap-1.5"><MagnetIcon className="h-4 w-4" />{dictionary.tabs.magnet}</TabsTrigger>
+            <TabsTrigger value="file" className="gap-1.5"><FileUpIcon className="h-4 w-4" />{dictionary.tabs.file}</TabsTrigger>
+            <TabsTrigger value="url" className="gap-1.5"><LinkIcon className="h-4 w-4" />{dictionary.tabs.url}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="magnet" className="space-y-1.5">
+            <Label htmlFor="add-download-magnet">{dictionary.magnetLabel}</Label>
+            <Input id="add-download-magnet" value={magnetText} placeholder={dictionary.magnetPlaceholder} autoComplete="off"
+              onChange={(e) => { setMagnetText(e.target.value); previewMagnet(e.target.value); }} />
+          </TabsContent>
+
+          <TabsContent value="file">
+            <button type="button"
+              className={`flex w-full flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-6 text-sm text-muted-foreground transition-colors hover:bg-muted/50 ${isDraggingFile ? "border-primary bg-primary/5" : "border-border"}`}
+              onClick={() => fileInputRef.current?.click()}
+              onDragOver={(e) => { e.preventDefault(); setIsDraggingFile(true); }}
+              onDragLeave={() => setIsDraggingFile(false)}
+              onDrop={(e) => { e.preventDefault(); setIsDraggingFile(false); selectFile(e.dataTransfer.files[0]); }}>
+              {file ? <FileIcon className="h-6 w-6" /> : <FileUpIcon className="h-6 w-6" />}
+              <span className="truncate max-w-full">{file ? file.name : dictionary.fileDropHint}</span>
+            </button>
+            <input ref={fileInputRef} type="file" accept=".torrent,application/x-bittorrent" className="hidden"
+              onChange={(e) => { selectFile(e.target.files?.[0]); e.target.value = ""; }} />
+          </TabsContent>
+
+          <TabsContent value="url" className="space-y-1.5">
+            <Label htmlFor="add-download-url">{dictionary.urlLabel}</Label>
+            <div className="flex gap-2">
+              <Input id="add-download-url" type="url" value={urlText} placeholder={dictionary.urlPlaceholder} autoComplete="off"
+                onChange={(e) => { setUrlText(e.target.value); clearPreview(); }}
+                onKeyDown={(e) => { if (e.key === 'Enter' && urlText.trim()) loadPreview(urlText.trim()); }} />
+              <Button variant="outline" disabled={!urlText.trim() || isLoadingPreview} onClick={() => loadPreview(urlText.trim())}>
+                {dictionary.previewButton}
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        {isLoadingPreview && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground"><Loader2Icon className="h-4 w-4 animate-spin" />{dictionary.loadingPreview}</div>
+        )}
+        {previewError && <p className="text-sm text-destructive">{previewError}</p>}
+
+        {metadata && (
+          <div className="space-y-3 rounded-md border p-4 bg-muted/30">
+            <div className="space-y-1">
+              <p className="font-medium break-all">{metadata.name || dictionary.unknownName}</p>
+              <p className="text-xs text-muted-foreground font-mono break-all">{dictionary.infoHashLabel}: {metadata.infoHash}</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {metadata.length !== undefined && <Badge variant="secondary">{dictionary.sizeLabel}: {formatBytes(metadata.length)}</Badge>}
+              {metadata.files && <Badge variant="secondary">{dictionary.filesLabel.replace('{count}', String(metadata.files.length))}</Badge>}
+              <Badge variant="outline">{dictionary.trackersLabel.replace('{count}', String(metadata.announce.length))}</Badge>
+            </div>
+            {metadata.files ? (
+              <ScrollArea className="max-h-48 border rounded-md bg-background">
+                <div className="divide-y divide-border/30">
+                  {previewFiles.map((previewFile) => (
+                    <div key={previewFile.path} className="flex items-center justify-between gap-3 px-3 py-1.5 text-xs">
+                      <span className="truncate" title={previewFile.path}>{previewFile.path}</span>
+                      <span className="flex-shrink-0 text-muted-foreground">{formatBytes(previewFile.length)}</span>
+                    </div>
+                  ))}
+                  {metadata.files.length > previewFiles.length && (
+                    <p className="px-3 py-1.5 text-xs text-muted-foreground">{dictionary.moreFiles.replace('{count}', String(metadata.files.length - previewFiles.length))}</p>
+                  )}
+                </div>
+              </ScrollArea>
+            ) : (
+              <p className="text-xs text-muted-foreground">{dictionary.magnetFilesNote}</p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div>
+            <p className="text-sm font-medium">{dictionary.linkTitle}</p>
+            <p className="text-xs text-muted-foreground">{dictionary.linkDescription}</p>
+          </div>
+          {tmdbLink ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{tmdbLink.mediaType === 'movie' ? dictionary.movieBadge : dictionary.tvBadge}</Badge>
+                <span className="text-sm truncate">{tmdbLink.title}{tmdbLink.year ? ` (${tmdbLink.year})` : ""}</span>
+                <Button variant="ghost" size="icon" className="h-7 w-7 ml-auto" aria-label={dictionary.unlinkButton} title={dictionary.unlinkButton} onClick={() => setTmdbLink(null)}>
+                  <XIcon className="h-4 w-4" />
+                </Button>
+              </div>
+              {tmdbLink.mediaType === 'tv' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="add-download-season">{dictionary.seasonLabel}</Label>
+                    <Input id="add-download-season" type="number" min={0} value={season} onChange={(e) => setSeason(e.target.value)} />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="add-download-episode">{dictionary.episodeLabel}</Label>
+                    <Input id="add-download-episode" type="number" min={1} value={episode} onChange={(e) => setEpisode(e.target.value)} />
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : (
+            <>
+              <div className="flex gap-2">
+                <Input value={searchQuery} placeholder={dictionary.searchPlaceholder} onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') runSearch(); }} />
+                <Button variant="outline" size="icon" aria-label={dictionary.searchButton} title={dictionary.searchButton} disabled={!searchQuery.trim() || isSearching} onClick={runSearch}>
+                  {isSearching ? <Loader2Icon className="h-4 w-4 animate-spin" /> : <SearchIcon className="h-4 w-4" />}
+                </Button>
+              </div>
+              {searchError && <p className="text-xs text-destructive">{searchError}</p>}
+              {searchResults && !searchError && (searchResults.length > 0 ? (
+                <ScrollArea className="max-h-56 border rounded-md">
+                  <div className="divide-y divide-border/30">
+                    {searchResults.map((item) => {
+                      const title = item.media_type === 'movie' ? item.title : item.name;
+                      const year = (item.media_type === 'movie' ? item.release_date : item.first_air_date)?.slice(0, 4);
+                      return (
+                        <button key={`${item.media_type}-${item.id}`} type="button" className="flex w-full items-center gap-3 p-2 text-left hover:bg-muted/50" onClick={() => linkResult(item)}>
+                          <Image src={getFullImagePath(item.poster_path, "w92")} alt="" width={32} height={48} className="rounded-sm object-cover flex-shrink-0" />
+                          <span className="text-sm truncate flex-grow">{title}{year ? ` (${year})` : ""}</span>
+                          <Badge variant="outline" className="flex-shrink-0">{item.media_type === 'movie' ? dictionary.movieBadge : dictionary.tvBadge}</Badge>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </ScrollArea>
+              ) : (
+                <p className="text-xs text-muted-foreground">{dictionary.noResults}</p>
+              ))}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>{dictionary.cancelButton}</Button>
+          <Button disabled={!canAdd} onClick={handleAdd}>
+            {isAdding && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+            {dictionary.addButton}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+// src/components/features/downloads/StorageUsagePanel.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { HardDriveIcon, RefreshCwIcon, ShieldCheckIcon, Trash2Icon, Loader2Icon } from "lucide-react";
+import { useWebTorrent } from "@/contexts/WebTorrentContext";
+import { useToast } from "@/hooks/use-toast";
+import { formatBytes } from "@/lib/utils";
+import type { StorageUsage } from "@/lib/webtorrent-service";
+
+interface StorageUsagePanelProps {
+  dictionary: any;
+}
+
+// How much of the browser's storage downloads take up, with a way to free it.
+export function StorageUsagePanel({ dictionary }: StorageUsagePanelProps) {
+  const { getStorageUsage, evictStoredTorrent, requestPersistentStorage } = useWebTorrent();
+  const { toast } = useToast();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [evicting, setEvicting] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setUsage(await getStorageUsage());
+    } catch (error) {
+      console.error("[StorageUsagePanel] Failed to read storage usage:", error);
+      toast({ title: dictionary.errorTitle, description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getStorageUsage, toast, dictionary]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleEvict = async (infoHash: string, name: string) => {
+    setEvicting(infoHash);
+    try {
+      await evictStoredTorrent(infoHash);
+      toast({ title: dictionary.evictedTitle, description: dictionary.evictedDescription.replace('{name}', name) });
+    } catch (error) {
+      toast({ title: dictionary.errorTitle, description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setEvicting(null);
+      refresh();
+    }
+  };
+
+  const handlePersist = async () => {
+    const granted = await requestPersistentStorage();
+    toast({ title: granted ? dictionary.persistGrantedTitle : dictionary.persistDeniedTitle, description: granted ? dictionary.persistGrantedDescription : dictionary.persistDeniedDescription });
+    refresh();
+  };
+
+  const estimate = usage?.estimate;
+  const storedTotal = usage?.downloads.reduce((sum, d) => sum + d.bytes, 0) || 0;
+
+  return (
+    <Card className="shadow-lg border-border/40 overflow-hidden">
+      <CardHeader className="flex flex-row justify-between items-start gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2"><HardDriveIcon className="h-5 w-5 text-primary" /> {dictionary.title}</CardTitle>
+          <CardDescription>{usage ? dictionary.backendLabels[usage.backend] : dictionary.loading}</CardDescription>
+        </div>
+        <Button variant="ghost" size="icon" aria-label={dictionary.refreshLabel} title={dictionary.refreshLabel} onClick={refresh} disabled={isLoading}>
+          <RefreshCwIcon className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {estimate ? (
+          <div className="space-y-2">
+            <Progress value={estimate.quota > 0 ? (estimate.usage / estimate.quota) * 100 : 0} className="h-2" />
+            <div className="flex flex-wrap justify-between gap-2 text-sm text-muted-foreground">
+              <span>{dictionary.usageSummary.replace('{used}', formatBytes(estimate.usage)).replace('{quota}', formatBytes(estimate.quota))}</span>
+              <span>{dictionary.downloadsSummary.replace('{size}', formatBytes(storedTotal))}</span>
+            </div>
+            {estimate.persisted ? (
+              <p className="flex items-center gap-1.5 text-xs text-green-400"><ShieldCheckIcon className="h-4 w-4" /> {dictionary.persisted}</p>
+            ) : (
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-md bg-muted/50 border border-dashed border-border">
+                <p className="text-xs text-muted-foreground">{dictionary.notPersisted}</p>
+                <Button variant="outline" size="sm" onClick={handlePersist}>{dictionary.persistButton}</Button>
+              </div>
+            )}
+          </div>
+        ) : !isLoading && (
+          <p className="text-sm text-muted-foreground">{dictionary.estimateUnavailable}</p>
+        )}
+
+        {usage && usage.downloads.length > 0 ? (
+          <div className="divide-y divide-border/30 border rounded-md">
+            {usage.downloads.map(download => (
+              <div key={download.infoHash} className="flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate" title={download.name}>{download.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBytes(download.bytes)}{download.size ? ` / ${formatBytes(download.size)}` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Badge variant={download.state === 'complete' ? 'secondary' : 'outline'}>{dictionary.stateLabels[download.state]}</Badge>
+                  <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive/80"
+                    aria-label={dictionary.evictLabel} title={download.state === 'active' ? dictionary.evictActiveHint : dictionary.evictLabel}
+                    disabled={download.state === 'active' || evicting === download.infoHash}
+                    onClick={() => handleEvict(download.infoHash, download.name)}>
+                    {evicting === download.infoHash ? <Loader2Icon className="h-5 w-5 animate-spin" /> : <Trash2Icon className="h-5 w-5" />}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : usage && (
+          <p className="text-sm text-muted-foreground text-center py-6">{usage.backend === 'memory' ? dictionary.memoryOnly : dictionary.empty}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
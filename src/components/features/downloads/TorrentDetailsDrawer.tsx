@@ -0,0 +1,253 @@
+// src/components/features/downloads/TorrentDetailsDrawer.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CopyIcon, AlertTriangleIcon } from "lucide-react";
+import { useWebTorrent } from "@/contexts/WebTorrentContext";
+import { useToast } from "@/hooks/use-toast";
+import { formatBytes } from "@/lib/utils";
+import type { TorrentDetails } from "@/lib/webtorrent-service";
+import type { TrackerStatus } from "@/lib/torrent-inspector";
+
+interface TorrentDetailsDrawerProps {
+  torrentId: string | null; // The drawer is open while this is set
+  onOpenChange: (open: boolean) => void;
+  statusLabels: Record<string, string>;
+  dictionary: any;
+}
+
+const REFRESH_INTERVAL = 1000;
+const MAX_PIECE_CELLS = 512; // Big torrents have tens of thousands of pieces; each cell then stands for a run of them
+
+const TRACKER_BADGES: Record<TrackerStatus, string> = {
+  pending: "",
+  working: "bg-green-500/20 text-green-400 border-green-500/30",
+  error: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+// Groups pieces into at most MAX_PIECE_CELLS cells, coloured by how much of the run we have and whether peers can fill the rest.
+function toPieceCells(pieces: number[]) {
+  const cellSize = Math.max(1, Math.ceil(pieces.length / MAX_PIECE_CELLS));
+  const cells: { have: number; missingUnavailable: boolean }[] = [];
+  for (let start = 0; start < pieces.length; start += cellSize) {
+    const run = pieces.slice(start, start + cellSize);
+    cells.push({ have: run.filter(p => p < 0).length / run.length, missingUnavailable: run.some(p => p === 0) });
+  }
+  return cells;
+}
+
+function pieceCellClass(cell: { have: number; missingUnavailable: boolean }) {
+  if (cell.have >= 1) return "bg-green-500";
+  if (cell.missingUnavailable) return "bg-red-500/60";
+  return cell.have > 0 ? "bg-green-500/50" : "bg-muted-foreground/30";
+}
+
+// Everything we know about one torrent, for working out why it is slow, stalled or has no peers.
+export function TorrentDetailsDrawer({ torrentId, onOpenChange, statusLabels, dictionary }: TorrentDetailsDrawerProps) {
+  const { getTorrentDetails } = useWebTorrent();
+  const { toast } = useToast();
+  const [details, setDetails] = useState<TorrentDetails | null>(null);
+
+  useEffect(() => {
+    if (!torrentId) {
+      setDetails(null);
+      return;
+    }
+    const refresh = () => setDetails(getTorrentDetails(torrentId));
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [torrentId, getTorrentDetails]);
+
+  const handleCopyMagnet = async () => {
+    if (!details) return;
+    try {
+      await navigator.clipboard.writeText(details.magnetURI);
+      toast({ title: dictionary.magnetCopiedTitle });
+    } catch (error) {
+      toast({ title: dictionary.copyFailedTitle, description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const pieceCells = details ? toPieceCells(details.pieces) : [];
+  const havePieces = details ? details.pieces.filter(p => p < 0).length : 0;
+  const unavailablePieces = details ? details.pieces.filter(p => p === 0).length : 0;
+  const formatDate = (iso?: string) => iso ? new Date(iso).toLocaleString() : dictionary.na;
+
+  return (
+    <Sheet open={!!torrentId} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="truncate pr-6" title={details?.progress.customName || details?.name}>{details?.progress.customName || details?.name || dictionary.title}</SheetTitle>
+          <SheetDescription>{details ? `${dictionary.statusLabel}: ${statusLabels[details.progress.status] || details.progress.status}` : dictionary.notLoaded}</SheetDescription>
+        </SheetHeader>
+
+        {details && (
+          <Tabs defaultValue="general" className="mt-6">
+            <TabsList className="grid w-full grid-cols-5">
+              <TabsTrigger value="general">{dictionary.tabs.general}</TabsTrigger>
+              <TabsTrigger value="files">{dictionary.tabs.files}</TabsTrigger>
+              <TabsTrigger value="peers">{dictionary.tabs.peers} ({details.peers.length})</TabsTrigger>
+              <TabsTrigger value="trackers">{dictionary.tabs.trackers}</TabsTrigger>
+              <TabsTrigger value="pieces">{dictionary.tabs.pieces}</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="general" className="mt-4 space-y-4">
+              <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-2 text-sm">
+                <dt className="text-muted-foreground">{dictionary.general.infoHash}</dt>
+                <dd className="font-mono break-all">{details.infoHash}</dd>
+                <dt className="text-muted-foreground">{dictionary.general.size}</dt>
+                <dd>{details.length ? formatBytes(details.length) : dictionary.na}</dd>
+                <dt className="text-muted-foreground">{dictionary.general.pieces}</dt>
+                <dd>{details.pieces.length ? `${details.pieces.length} × ${formatBytes(details.pieceLength)}` : dictionary.na}</dd>
+                <dt className="text-muted-foreground">{dictionary.general.downloaded}</dt>
+                <dd>{formatBytes(details.downloaded)}</dd>
+                <dt className="text-muted-foreground">{dictionary.general.uploaded}</dt>
+                <dd>{formatBytes(details.uploaded)}</dd>
+                <dt className="text-muted-foreground">{dictionary.general.ratio}</dt>
+                <dd>{details.progress.ratio.toFixed(2)}</dd>
+                <dt className="text-muted-foreground">{dictionary.general.added}</dt>
+                <dd>{formatDate(details.addedDate)}</dd>
+                <dt className="text-muted-foreground">{dictionary.general.created}</dt>
+                <dd>{formatDate(details.created)}</dd>
+                {details.createdBy && <><dt className="text-muted-foreground">{dictionary.general.createdBy}</dt><dd>{details.createdBy}</dd></>}
+                {details.comment && <><dt className="text-muted-foreground">{dictionary.general.comment}</dt><dd className="break-words">{details.comment}</dd></>}
+              </dl>
+              <Button variant="outline" size="sm" onClick={handleCopyMagnet}><CopyIcon className="mr-2 h-4 w-4" /> {dictionary.general.copyMagnet}</Button>
+
+              {details.progress.noPeersReason && details.progress.status === 'no_peers' && (
+                <p className="text-sm text-muted-foreground">{details.progress.noPeersReason}</p>
+              )}
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">{dictionary.general.warningsTitle}</h4>
+                {details.warnings.length > 0 ? (
+                  <ul className="space-y-1 text-xs">
+                    {details.warnings.slice().reverse().map((warning, index) => (
+                      <li key={`${warning.time}-${index}`} className="flex gap-2">
+                        <AlertTriangleIcon className="h-3.5 w-3.5 flex-shrink-0 text-yellow-400 mt-0.5" />
+                        <span className="text-muted-foreground">{new Date(warning.time).toLocaleTimeString()}</span>
+                        <span className="break-all">{warning.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-muted-foreground">{dictionary.general.noWarnings}</p>
+                )}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="files" className="mt-4">
+              {details.files.length > 0 ? (
+                <div className="divide-y divide-border/30 border rounded-md">
+                  {details.files.map(file => (
+                    <div key={file.index} className={`p-3 space-y-1.5 ${file.selected ? '' : 'opacity-50'}`}>
+                      <div className="flex justify-between gap-3 text-sm">
+                        <span className="truncate" title={file.path}>{file.path}</span>
+                        <span className="flex-shrink-0 text-muted-foreground">{formatBytes(file.length)}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Progress value={file.progress * 100} className="h-1.5" />
+                        <span className="w-12 text-right text-xs text-muted-foreground">{file.selected ? `${Math.floor(file.progress * 100)}%` : dictionary.files.skipped}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-6">{dictionary.files.waitingForMetadata}</p>
+              )}
+            </TabsContent>
+
+            <TabsContent value="peers" className="mt-4">
+              {details.peers.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{dictionary.peers.address}</TableHead>
+                      <TableHead>{dictionary.peers.client}</TableHead>
+                      <TableHead className="text-right">{dictionary.peers.progress}</TableHead>
+                      <TableHead className="text-right">{dictionary.peers.down}</TableHead>
+                      <TableHead className="text-right">{dictionary.peers.up}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {details.peers.map(peer => (
+                      <TableRow key={peer.id}>
+                        <TableCell className="max-w-[12rem]">
+                          <p className="font-mono text-xs truncate" title={peer.address}>{peer.address}</p>
+                          <p className="text-xs text-muted-foreground">{dictionary.peers.types[peer.type]}{peer.peerChoking ? ` · ${dictionary.peers.choked}` : ''}</p>
+                        </TableCell>
+                        <TableCell className="text-xs">{peer.client || dictionary.peers.unknownClient}</TableCell>
+                        <TableCell className="text-right text-xs">{Math.floor(peer.progress * 100)}%</TableCell>
+                        <TableCell className="text-right text-xs">{formatBytes(peer.downloadSpeed)}/s</TableCell>
+                        <TableCell className="text-right text-xs">{formatBytes(peer.uploadSpeed)}/s</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-6">{dictionary.peers.empty}</p>
+              )}
+            </TabsContent>
+
+            <TabsContent value="trackers" className="mt-4">
+              {details.trackers.length > 0 ? (
+                <div className="divide-y divide-border/30 border rounded-md">
+                  {details.trackers.map(tracker => (
+                    <div key={tracker.url} className="p-3 space-y-1">
+                      <div className="flex justify-between items-center gap-3">
+                        <span className="font-mono text-xs truncate" title={tracker.url}>{tracker.url}</span>
+                        <Badge variant="outline" className={`flex-shrink-0 ${TRACKER_BADGES[tracker.status]}`}>{dictionary.trackers.statusLabels[tracker.status]}</Badge>
+                      </div>
+                      {tracker.status === 'working' && (
+                        <p className="text-xs text-muted-foreground">
+                          {dictionary.trackers.announceSummary
+                            .replace('{seeders}', String(tracker.seeders ?? '?'))
+                            .replace('{leechers}', String(tracker.leechers ?? '?'))
+                            .replace('{time}', formatDate(tracker.lastAnnounce))}
+                        </p>
+                      )}
+                      {tracker.message && <p className="text-xs text-red-400 break-all">{tracker.message}</p>}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-6">{dictionary.trackers.empty}</p>
+              )}
+            </TabsContent>
+
+            <TabsContent value="pieces" className="mt-4 space-y-3">
+              {details.pieces.length > 0 ? (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    {dictionary.pieces.summary
+                      .replace('{have}', String(havePieces))
+                      .replace('{total}', String(details.pieces.length))
+                      .replace('{unavailable}', String(unavailablePieces))}
+                  </p>
+                  <div className="flex flex-wrap gap-px" role="img" aria-label={dictionary.pieces.mapLabel}>
+                    {pieceCells.map((cell, index) => (
+                      <span key={index} className={`h-3 w-3 rounded-[1px] ${pieceCellClass(cell)}`} />
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1.5"><span className="h-3 w-3 rounded-[1px] bg-green-500" />{dictionary.pieces.legendHave}</span>
+                    <span className="flex items-center gap-1.5"><span className="h-3 w-3 rounded-[1px] bg-muted-foreground/30" />{dictionary.pieces.legendAvailable}</span>
+                    <span className="flex items-center gap-1.5"><span className="h-3 w-3 rounded-[1px] bg-red-500/60" />{dictionary.pieces.legendUnavailable}</span>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-6">{dictionary.files.waitingForMetadata}</p>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,93 @@
+// src/components/features/downloads/TorrentFilePicker.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { HardDriveDownloadIcon } from "lucide-react";
+import { formatBytes } from "@/lib/utils";
+import type { TorrentFileInfo } from "@/lib/webtorrent-service";
+
+interface TorrentFilePickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  torrentName: string;
+  files: TorrentFileInfo[];
+  onSave: (fileIndexes: number[]) => void;
+  onSaveFileToDisk?: (fileIndex: number) => void; // Offered for files that have finished downloading
+  dictionary: any;
+}
+
+// Lets the user choose which files of a multi-file torrent to download, e.g. a few episodes of a season pack.
+export function TorrentFilePicker({ open, onOpenChange, torrentName, files, onSave, onSaveFileToDisk, dictionary }: TorrentFilePickerProps) {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (open) setSelected(new Set(files.filter(f => f.selected).map(f => f.index)));
+  }, [open, files]);
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const selectedSize = files.filter(f => selected.has(f.index)).reduce((sum, f) => sum + f.length, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="truncate" title={torrentName}>{dictionary.title}</DialogTitle>
+          <DialogDescription className="truncate">{torrentName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => setSelected(new Set(files.map(f => f.index)))}>{dictionary.selectAll}</Button>
+          <Button variant="outline" size="sm" onClick={() => setSelected(new Set(files.filter(f => f.kind === 'video' || f.kind === 'subtitle').map(f => f.index)))}>{dictionary.videosOnly}</Button>
+          <Button variant="outline" size="sm" onClick={() => setSelected(new Set())}>{dictionary.selectNone}</Button>
+        </div>
+
+        <ScrollArea className="h-[360px] border rounded-md bg-muted/30">
+          <div className="divide-y divide-border/30">
+            {files.map((file) => (
+              <label key={file.index} htmlFor={`torrent-file-${file.index}`} className="flex items-center gap-3 p-3 cursor-pointer hover:bg-muted/50">
+                <Checkbox id={`torrent-file-${file.index}`} checked={selected.has(file.index)} onCheckedChange={() => toggle(file.index)} />
+                <div className="flex-grow min-w-0">
+                  <p className="text-sm truncate" title={file.path}>{file.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBytes(file.length)}
+                    {file.progress > 0 && ` · ${Math.round(file.progress * 100)}%`}
+                  </p>
+                </div>
+                <Badge variant={file.kind === 'video' ? 'secondary' : 'outline'} className="flex-shrink-0">{dictionary.kindLabels[file.kind]}</Badge>
+                {onSaveFileToDisk && file.progress >= 1 && (
+                  <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" aria-label={dictionary.saveFileLabel} title={dictionary.saveFileLabel}
+                    onClick={(e) => { e.preventDefault(); onSaveFileToDisk(file.index); }}>
+                    <HardDriveDownloadIcon className="h-4 w-4" />
+                  </Button>
+                )}
+              </label>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="items-center gap-2 sm:justify-between">
+          <p className="text-sm text-muted-foreground">
+            {dictionary.selectedSummary.replace('{count}', String(selected.size)).replace('{total}', String(files.length)).replace('{size}', formatBytes(selectedSize))}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>{dictionary.cancelButton}</Button>
+            <Button onClick={() => onSave(Array.from(selected))} disabled={selected.size === 0}>{dictionary.saveButton}</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
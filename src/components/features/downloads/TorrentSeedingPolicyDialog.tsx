@@ -0,0 +1,76 @@
+// src/components/features/downloads/TorrentSeedingPolicyDialog.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { normalizeSeedingPolicy, SEEDING_MODES, type SeedingMode, type SeedingPolicy } from "@/lib/seeding-policy";
+
+interface TorrentSeedingPolicyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  torrentName: string;
+  policy?: SeedingPolicy; // The torrent's own policy; undefined while it follows the global one
+  globalPolicy: SeedingPolicy;
+  onSave: (policy?: SeedingPolicy) => void;
+  dictionary: any;
+}
+
+// Overrides the seeding rule from Settings for a single torrent, e.g. to keep seeding a rare release.
+export function TorrentSeedingPolicyDialog({ open, onOpenChange, torrentName, policy, globalPolicy, onSave, dictionary }: TorrentSeedingPolicyDialogProps) {
+  const [draft, setDraft] = useState<SeedingPolicy>(globalPolicy);
+
+  useEffect(() => {
+    if (open) setDraft(policy || globalPolicy);
+  }, [open, policy, globalPolicy]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{dictionary.title}</DialogTitle>
+          <DialogDescription className="truncate" title={torrentName}>{torrentName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="torrent-seeding-mode">{dictionary.modeLabel}</Label>
+            <Select value={draft.mode} onValueChange={(mode) => setDraft(prev => ({ ...prev, mode: mode as SeedingMode }))}>
+              <SelectTrigger id="torrent-seeding-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEEDING_MODES.map(mode => (
+                  <SelectItem key={mode} value={mode}>{dictionary.modes[mode]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {draft.mode === 'ratio' && (
+            <div className="space-y-1.5">
+              <Label htmlFor="torrent-seeding-ratio">{dictionary.ratioLabel}</Label>
+              <Input id="torrent-seeding-ratio" type="number" min={0.1} step={0.1} value={draft.ratio}
+                onChange={(e) => setDraft(prev => ({ ...prev, ratio: Number(e.target.value) }))} />
+            </div>
+          )}
+          {draft.mode === 'time' && (
+            <div className="space-y-1.5">
+              <Label htmlFor="torrent-seeding-hours">{dictionary.hoursLabel}</Label>
+              <Input id="torrent-seeding-hours" type="number" min={1} value={draft.hours}
+                onChange={(e) => setDraft(prev => ({ ...prev, hours: Number(e.target.value) }))} />
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">{policy ? dictionary.overrideHint : dictionary.globalHint}</p>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onSave(undefined)}>{dictionary.useGlobalButton}</Button>
+          <Button onClick={() => onSave(normalizeSeedingPolicy(draft))}>{dictionary.saveButton}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,57 @@
+// src/components/features/downloads/TorrentSpeedLimitDialog.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { normalizeSpeedLimits, UNLIMITED, type SpeedLimits } from "@/lib/bandwidth";
+
+interface TorrentSpeedLimitDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  torrentName: string;
+  limits?: SpeedLimits;
+  onSave: (limits: SpeedLimits) => void;
+  dictionary: any;
+}
+
+// Caps a single download on top of the global limits from Settings.
+export function TorrentSpeedLimitDialog({ open, onOpenChange, torrentName, limits, onSave, dictionary }: TorrentSpeedLimitDialogProps) {
+  const [draft, setDraft] = useState<SpeedLimits>(UNLIMITED);
+
+  useEffect(() => {
+    if (open) setDraft(limits || UNLIMITED);
+  }, [open, limits]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{dictionary.title}</DialogTitle>
+          <DialogDescription className="truncate" title={torrentName}>{torrentName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="torrent-download-limit">{dictionary.downloadLimitLabel}</Label>
+            <Input id="torrent-download-limit" type="number" min={0} value={draft.downloadLimit}
+              onChange={(e) => setDraft(prev => ({ ...prev, downloadLimit: Number(e.target.value) }))} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="torrent-upload-limit">{dictionary.uploadLimitLabel}</Label>
+            <Input id="torrent-upload-limit" type="number" min={0} value={draft.uploadLimit}
+              onChange={(e) => setDraft(prev => ({ ...prev, uploadLimit: Number(e.target.value) }))} />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">{dictionary.hint}</p>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onSave(UNLIMITED)}>{dictionary.clearButton}</Button>
+          <Button onClick={() => onSave(normalizeSpeedLimits(draft))}>{dictionary.saveButton}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,8 +8,12 @@ import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { PlayCircleIcon, PlayIcon, Loader2Icon } from "lucide-react";
 import { getFullImagePath } from "@/lib/tmdb";
 import { useState } from "react";
-// import { VideoPlayer } from "@/components/features/streaming/VideoPlayer"; // Keep if you want player UI, but stub source
+import { StreamPlayerDialog } from "@/components/features/streaming/StreamPlayerDialog";
 import { useToast } from "@/hooks/use-toast";
+import { useTorrentStream } from "@/hooks/use-torrent-stream";
+import { buildMagnetURI } from "@/lib/magnet";
+import { selectStreamingTorrent } from "@/lib/streaming";
+import { getMoviePlaybackKey } from "@/lib/playback-history";
 
 interface MovieClientContentProps {
   movie: TMDBMovie;
@@ -23,9 +27,8 @@ export function MovieClientContent({ movie, trailerKey, children, dictionary, lo
   const { toast } = useToast();
   const [isTrailerModalOpen, setIsTrailerModalOpen] = useState(false);
   const [isPlayerModalOpen, setIsPlayerModalOpen] = useState(false);
-  // const [streamUrl, setStreamUrl] = useState<string | null>(null); // Stubbed
   const [streamTitle, setStreamTitle] = useState<string>("");
-  const [isPlayLoading, setIsPlayLoading] = useState(false);
+  const { stream, isPreparing: isPlayLoading, play, stop, handleTimeUpdate, handleEnded } = useTorrentStream();
 
   const handleWatchTrailer = () => {
     if (trailerKey) {
@@ -40,17 +43,49 @@ export function MovieClientContent({ movie, trailerKey, children, dictionary, lo
   };
 
   const handlePlayMovie = async () => {
-    setIsPlayLoading(true);
-    setStreamTitle(movie.title);
-    console.log(`[MovieClientContent] "Play Movie" clicked for: ${movie.title}. Backend call stubbed.`);
-    toast({
-      title: "Playback (Stubbed)",
-      description: `Playing "${movie.title}". Feature to be fully implemented.`,
-    });
-    // Simulate a delay then open modal with placeholder
-    // setStreamUrl("placeholder_stream_url"); // Or keep null and let VideoPlayer handle it
-    setIsPlayerModalOpen(true); 
-    setTimeout(() => setIsPlayLoading(false), 1500);
+    const torrent = selectStreamingTorrent(movie.torrents);
+    if (!torrent) {
+      toast({
+        title: dictionary?.toastNoStreamTitle || "Not Available to Stream",
+        description: dictionary?.toastNoStreamDesc || "No torrent was found for this movie.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const title = `${movie.title} (${torrent.quality})`;
+    setStreamTitle(title);
+    setIsPlayerModalOpen(true);
+    console.log(`[MovieClientContent] Streaming ${title}, ${torrent.seeds} seeds`);
+    try {
+      const activeStream = await play({
+        magnetURI: buildMagnetURI(torrent.hash, movie.title),
+        title,
+        playbackKey: getMoviePlaybackKey(movie.id),
+        itemId: movie.id,
+      });
+      if (activeStream.initialPosition) {
+        const minutes = Math.floor(activeStream.initialPosition / 60);
+        toast({
+          title: dictionary?.toastSuccessStreamTitle || "Playback Ready",
+          description: `${dictionary?.toastResumingDesc || "Resuming from"} ${minutes}:${String(Math.floor(activeStream.initialPosition % 60)).padStart(2, '0')}`,
+        });
+      }
+    } catch (error) {
+      console.error("[MovieClientContent] Error starting stream:", error);
+      setIsPlayerModalOpen(false);
+      toast({
+        title: dictionary?.toastStreamErrorTitle || "Playback Error",
+        description: `${dictionary?.toastStreamErrorDesc || "Could not start playback:"} ${error instanceof Error ? error.message : String(error)}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePlayerModalChange = (open: boolean) => {
+    setIsPlayerModalOpen(open);
+    // Closing the player stops playback; the torrent keeps downloading in the background.
+    if (!open) stop();
   };
 
 
@@ -119,16 +154,16 @@ export function MovieClientContent({ movie, trailerKey, children, dictionary, lo
         </DialogContent>
       </Dialog>
 
-      <Dialog open={isPlayerModalOpen} onOpenChange={setIsPlayerModalOpen}>
-        <DialogContent className="sm:max-w-[90vw] md:max-w-[85vw] lg:max-w-[80vw] xl:max-w-[75vw] p-0 border-0 bg-black/95 backdrop-blur-md aspect-video rounded-lg overflow-hidden">
-          <DialogTitle className="sr-only">{streamTitle || (dictionary?.streamingVideoTitle || "Streaming Video")}</DialogTitle>
-          {/* VideoPlayer can show a "No source" message or be hidden if streamUrl is null */}
-          {/* <VideoPlayer src={streamUrl!} title={streamTitle || movie.title} /> */}
-           <div className="w-full h-full flex items-center justify-center bg-black text-white">
-             {isPlayLoading ? <Loader2Icon className="h-12 w-12 animate-spin" /> : (streamTitle ? `Video Player for: ${streamTitle} (Stubbed)` : "Video Player (Stubbed)")}
-           </div>
-        </DialogContent>
-      </Dialog>
+      <StreamPlayerDialog
+        open={isPlayerModalOpen}
+        onOpenChange={handlePlayerModalChange}
+        stream={stream}
+        isPreparing={isPlayLoading}
+        title={streamTitle || (dictionary?.streamingVideoTitle || "Streaming Video")}
+        preparingText={dictionary?.preparingStreamText}
+        onTimeUpdate={handleTimeUpdate}
+        onEnded={handleEnded}
+      />
 
       <style jsx global>{`
         .animate-fade-in-up {
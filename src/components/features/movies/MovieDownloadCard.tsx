@@ -12,6 +12,7 @@ import { getFullImagePath } from "@/lib/tmdb";
 import { useWebTorrent } from "@/contexts/WebTorrentContext";
 import { useToast } from "@/hooks/use-toast";
 import { formatBytes } from "@/lib/utils";
+import { buildMagnetURI } from "@/lib/magnet";
 import { Badge } from "@/components/ui/badge";
 
 interface MovieDownloadCardProps {
@@ -22,30 +23,25 @@ interface MovieDownloadCardProps {
 
 export function MovieDownloadCard({ movie, dictionary, locale }: MovieDownloadCardProps) {
   const { toast } = useToast();
-  const { addTorrent, isClientReady, torrents } = useWebTorrent();
+  const { addTorrent, isClientReady, torrents, queue, remoteBackend } = useWebTorrent();
   const [isLoading, setIsLoading] = useState<string | null>(null);
+  const canDownload = isClientReady || !!remoteBackend; // The remote backend doesn't need the browser client
 
   const handleWebTorrentDownload = async (torrent: YTSMovieTorrent) => {
-    if (!isClientReady) {
+    if (!canDownload) {
       toast({ title: "WebTorrent Not Ready", description: "Please wait for the WebTorrent client to initialize.", variant: "destructive" });
       return;
     }
 
-    const trackers = [
-        'udp://tracker.openbittorrent.com:80/announce',
-        'udp://tracker.opentrackr.org:1337/announce',
-        'udp://tracker.torrent.eu.org:451/announce',
-        'udp://tracker.dler.org:6969/announce',
-        'udp://open.stealth.si:80/announce',
-    ].map(tr => `&tr=${encodeURIComponent(tr)}`).join('');
-
-    const magnetURI = `magnet:?xt=urn:btih:${torrent.hash}&dn=${encodeURIComponent(movie.title)}${trackers}`;
+    const magnetURI = buildMagnetURI(torrent.hash, movie.title);
 
     setIsLoading(torrent.hash);
     
     try {
       await addTorrent(magnetURI, movie.title, movie.id);
-      toast({ title: "Download Queued", description: `${movie.title} (${torrent.quality}) is being added to your active downloads.` });
+      toast(remoteBackend
+        ? { title: "Sent to Download Server", description: `${movie.title} (${torrent.quality}) is downloading on ${remoteBackend.url}. Follow it on the Downloads page.` }
+        : { title: "Download Queued", description: `${movie.title} (${torrent.quality}) is being added to your active downloads.` });
     } catch (error) {
         console.error("[MovieDownloadCard] Error adding WebTorrent:", error);
         toast({ title: "WebTorrent Error", description: `Could not start download: ${error instanceof Error ? error.message : "Unknown error"}`, variant: "destructive" });
@@ -60,7 +56,8 @@ export function MovieDownloadCard({ movie, dictionary, locale }: MovieDownloadCa
     return qualityB - qualityA;
   }) || [];
 
-  const isDownloading = (hash: string) => torrents.some(t => t.torrentId.toLowerCase() === hash.toLowerCase());
+  const isDownloading = (hash: string) => torrents.some(t => t.torrentId.toLowerCase() === hash.toLowerCase())
+    || queue.some(item => item.id === hash.toLowerCase());
 
   return (
     <Card className="overflow-hidden shadow-xl sticky top-24">
@@ -88,7 +85,7 @@ export function MovieDownloadCard({ movie, dictionary, locale }: MovieDownloadCa
                                 size="lg" 
                                 className="w-full h-12 text-sm justify-between" 
                                 onClick={() => handleWebTorrentDownload(torrent)} 
-                                disabled={isLoading === torrent.hash || !isClientReady || downloading}
+                                disabled={isLoading === torrent.hash || !canDownload || downloading}
                                 variant={downloading ? "secondary" : "default"}
                             >
                                 <div className="flex items-center gap-2">
@@ -108,7 +105,7 @@ export function MovieDownloadCard({ movie, dictionary, locale }: MovieDownloadCa
                     No download links found for this movie.
                 </p>
             )}
-            {!isClientReady && (
+            {!canDownload && (
                 <div className="flex items-center justify-center text-xs text-muted-foreground mt-2">
                     <Loader2Icon className="animate-spin h-4 w-4 mr-2" />
                     Initializing Download Client...
@@ -0,0 +1,46 @@
+// src/components/features/streaming/StreamPlayerDialog.tsx
+"use client";
+
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Loader2Icon } from "lucide-react";
+import { VideoPlayer } from "@/components/features/streaming/VideoPlayer";
+import type { ActiveStream } from "@/hooks/use-torrent-stream";
+
+interface StreamPlayerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stream: ActiveStream | null;
+  isPreparing: boolean;
+  title: string;
+  preparingText?: string;
+  onTimeUpdate?: (currentTime: number, duration: number) => void;
+  onEnded?: () => void;
+}
+
+// Player modal shared by movie and episode playback. Shows a spinner until the first stream is ready,
+// and a translucent one on top of the player while the next playlist item is prepared.
+export function StreamPlayerDialog({ open, onOpenChange, stream, isPreparing, title, preparingText, onTimeUpdate, onEnded }: StreamPlayerDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[90vw] md:max-w-[85vw] lg:max-w-[80vw] xl:max-w-[75vw] p-0 border-0 bg-black/95 backdrop-blur-md aspect-video rounded-lg overflow-hidden">
+        <DialogTitle className="sr-only">{stream?.title || title}</DialogTitle>
+        {stream && (
+          <VideoPlayer
+            key={stream.src} // Remount per item so duration and resume position reset
+            src={stream.src}
+            title={stream.title}
+            initialPlaybackPosition={stream.initialPosition}
+            onTimeUpdate={onTimeUpdate}
+            onEnded={onEnded}
+          />
+        )}
+        {(!stream || isPreparing) && (
+          <div className={`absolute inset-0 flex flex-col items-center justify-center gap-3 text-white z-30 ${stream ? 'bg-black/60' : 'bg-black'}`}>
+            <Loader2Icon className="h-12 w-12 animate-spin" />
+            {isPreparing && <p className="text-sm text-white/70">{preparingText || "Finding peers and buffering..."}</p>}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
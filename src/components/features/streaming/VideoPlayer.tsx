@@ -14,7 +14,7 @@ interface VideoPlayerProps {
   title?: string;
   onEnded?: () => void;
   initialPlaybackPosition?: number; // in seconds
-  onTimeUpdate?: (currentTime: number) => void;
+  onTimeUpdate?: (currentTime: number, duration: number) => void;
 }
 
 function formatTime(timeInSeconds: number): string {
@@ -71,7 +71,7 @@ export function VideoPlayer({ src, title, onEnded, initialPlaybackPosition, onTi
   const handleTimeUpdate = () => {
     if (videoRef.current) {
       setCurrentTime(videoRef.current.currentTime);
-      onTimeUpdate?.(videoRef.current.currentTime);
+      onTimeUpdate?.(videoRef.current.currentTime, videoRef.current.duration);
     }
   };
   
@@ -12,7 +12,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { ConceptualAria2Task } from "@/types/download";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { SeriesBatchJob } from "@/types/download";
 
 interface DownloadAllSeasonsWithOptionsButtonProps {
   seriesId: number | string;
@@ -29,53 +31,38 @@ export function DownloadAllSeasonsWithOptionsButton({
 }: DownloadAllSeasonsWithOptionsButtonProps) {
   const { toast } = useToast();
   const [selectedQuality, setSelectedQuality] = useState(qualities[0]);
+  const [includeSpecials, setIncludeSpecials] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
   const handleDownloadAllSeasons = async () => {
     setIsLoading(true);
-    const taskDisplayName = `${seriesTitle} - All Seasons`;
     console.log(
-      `[DownloadAllSeasons] Initiating server download for ALL seasons of ${seriesTitle} (ID: ${seriesId}) in ${selectedQuality}`
+      `[DownloadAllSeasons] Initiating server download for ALL seasons of ${seriesTitle} (ID: ${seriesId}) in ${selectedQuality}${includeSpecials ? ', including specials' : ''}`
     );
     
     try {
-        const response = await fetch('/api/aria2/add', {
+        // The server finds a complete-series pack, else season packs, else single episodes, and queues them itself.
+        const response = await fetch('/api/downloads/series', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-                name: taskDisplayName,
+                seriesId,
                 seriesTitle, 
-                season: 'all', 
                 quality: selectedQuality,
-                type: 'tv_season_pack_all' 
+                includeSpecials,
             })
         });
-        const result = await response.json();
-        if (response.ok && result.taskId) {
+        const result: SeriesBatchJob & { error?: string } = await response.json();
+        if (response.ok && result.jobId) {
             toast({ 
                 title: "Sent to Server Download", 
-                description: `All seasons of ${seriesName} (${selectedQuality}) sent to server. Task ID: ${result.taskId}. Check Downloads page.` 
+                description: `Finding sources for ${result.seasons.length} season${result.seasons.length === 1 ? '' : 's'} of ${seriesName} (${selectedQuality}). Track progress per season on the Downloads page.` 
             });
-            
-            const conceptualTasksString = localStorage.getItem('chillymovies-aria2-tasks');
-            const conceptualTasks: ConceptualAria2Task[] = conceptualTasksString ? JSON.parse(conceptualTasksString) : [];
-            const newTask: ConceptualAria2Task = {
-                taskId: result.taskId,
-                name: result.taskName || taskDisplayName,
-                quality: selectedQuality,
-                addedTime: Date.now(),
-                sourceUrlOrIdentifier: `${seriesTitle} All Seasons`,
-                type: 'tv_season_pack_all',
-            };
-            if (!conceptualTasks.find(task => task.taskId === result.taskId)) {
-                conceptualTasks.push(newTask);
-                localStorage.setItem('chillymovies-aria2-tasks', JSON.stringify(conceptualTasks));
-            }
         } else {
             toast({ title: "Server Download Error", description: result.error || "Failed to start 'All Seasons' download on server.", variant: "destructive" });
         }
     } catch (error) {
-        console.error("[DownloadAllSeasons] Error calling Aria2 add API for all seasons:", error);
+        console.error("[DownloadAllSeasons] Error calling series download API:", error);
         toast({ title: "Server API Error", description: "Could not communicate with download server for 'All Seasons'.", variant: "destructive" });
     } finally {
         setIsLoading(false);
@@ -96,6 +83,10 @@ export function DownloadAllSeasonsWithOptionsButton({
           ))}
         </SelectContent>
       </Select>
+      <div className="flex items-center space-x-2">
+        <Checkbox id={`include-specials-${seriesId}`} checked={includeSpecials} onCheckedChange={(checked) => setIncludeSpecials(checked === true)} disabled={isLoading} />
+        <Label htmlFor={`include-specials-${seriesId}`} className="text-sm font-normal">Include specials</Label>
+      </div>
       <Button
         size="lg"
         className="w-full h-12"
@@ -106,7 +97,7 @@ export function DownloadAllSeasonsWithOptionsButton({
         {isLoading ? <Loader2Icon className="animate-spin h-5 w-5"/> : <ServerIcon className="h-5 w-5" /> } 
         <span className="ml-2">Download All Seasons</span>
       </Button>
-       <p className="text-xs text-muted-foreground text-center">Note: Downloads full season packs via server.</p>
+       <p className="text-xs text-muted-foreground text-center">Note: Uses a complete-series pack, season packs or single episodes, whichever the server finds.</p>
     </div>
   );
 }
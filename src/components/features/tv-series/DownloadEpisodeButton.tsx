@@ -36,7 +36,8 @@ export function DownloadEpisodeButton({
   preferredQuality,
 }: DownloadEpisodeButtonProps) {
   const { toast } = useToast();
-  const { addTorrent, isClientReady } = useWebTorrent(); 
+  const { addTorrent, isClientReady, remoteBackend } = useWebTorrent(); 
+  const canDownload = isClientReady || !!remoteBackend; // The remote backend doesn't need the browser client
   const [isLoadingWebTorrent, setIsLoadingWebTorrent] = useState(false);
   const [isLoadingAria2, setIsLoadingAria2] = useState(false);
   const [selectedAriaQuality, setSelectedAriaQuality] = useState(preferredQuality || qualities[0]);
@@ -47,7 +48,7 @@ export function DownloadEpisodeButton({
   const uniqueItemId = `${seriesId}-${episodeIdString}`;
 
   const handleWebTorrentDownload = async () => {
-    if (!isClientReady) {
+    if (!canDownload) {
       toast({ title: "WebTorrent Not Ready", description: "Please wait for the client to initialize...", variant: "destructive" });
       return;
     }
@@ -67,7 +68,9 @@ export function DownloadEpisodeButton({
       if (fetchedMagnetLink) {
         console.log(`[DownloadEpisodeButton] Adding WebTorrent: ${fetchedMagnetLink.substring(0,60)}...`);
         const torrent = await addTorrent(fetchedMagnetLink, `${seriesTitle} - ${episodeIdString} - ${episodeName}`, uniqueItemId);
-        if (torrent) {
+        if (torrent && remoteBackend) {
+          toast({ title: "Sent to Download Server", description: `${episodeName} is downloading on ${remoteBackend.url}.` });
+        } else if (torrent) {
           toast({ title: "Download Queued (WebTorrent)", description: `${episodeName} is being added.` });
         } else {
           toast({ title: "WebTorrent Issue", description: `${episodeName} might already be in downloads or failed to add. Check active downloads or try again.`, variant: "default" });
@@ -150,15 +153,15 @@ export function DownloadEpisodeButton({
         variant="ghost"
         className="flex-shrink-0 text-primary hover:text-primary/80 h-9"
         onClick={handleWebTorrentDownload}
-        disabled={isLoadingWebTorrent || !isClientReady || isLoadingAria2}
-        aria-label={`Download episode ${episodeIdString} via WebTorrent: ${episodeName}`}
+        disabled={isLoadingWebTorrent || !canDownload || isLoadingAria2}
+        aria-label={`Download episode ${episodeIdString} via ${remoteBackend ? 'the download server' : 'WebTorrent'}: ${episodeName}`}
       >
         {isLoadingWebTorrent ? (
             <Loader2Icon className="animate-spin h-4 w-4" /> 
         ) : (
             <DownloadIcon className="h-4 w-4" />
         )}
-        <span className="ml-1.5 hidden sm:inline">{isClientReady ? 'WebTorrent' : 'WT Init...'}</span>
+        <span className="ml-1.5 hidden sm:inline">{remoteBackend ? 'Remote' : isClientReady ? 'WebTorrent' : 'WT Init...'}</span>
       </Button>
       <Button
         size="sm"
@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/select";
 import type { ConceptualAria2Task } from "@/types/download";
 import { cn } from "@/lib/utils";
+import { getSeasonTorrents } from "@/lib/tmdb";
 
 interface DownloadSeasonButtonProps {
   seriesId: number | string;
@@ -34,54 +35,75 @@ export function DownloadSeasonButton({
   const [selectedQuality, setSelectedQuality] = useState(qualities[0]);
   const [isLoading, setIsLoading] = useState(false);
 
+  // Sends one source to the server and remembers it for the Downloads page.
+  const queueServerDownload = async (task: Omit<ConceptualAria2Task, 'taskId' | 'addedTime' | 'quality'>, body: Record<string, unknown>): Promise<string | null> => {
+    const response = await fetch('/api/aria2/add', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, name: task.name, quality: selectedQuality, type: task.type })
+    });
+    const result = await response.json();
+    if (!response.ok || !result.taskId) {
+        throw new Error(result.error || "Failed to start season download on server.");
+    }
+
+    const conceptualTasksString = localStorage.getItem('chillymovies-aria2-tasks');
+    const conceptualTasks: ConceptualAria2Task[] = conceptualTasksString ? JSON.parse(conceptualTasksString) : [];
+    if (!conceptualTasks.find(t => t.taskId === result.taskId)) {
+        conceptualTasks.push({ ...task, taskId: result.taskId, name: result.taskName || task.name, quality: selectedQuality, addedTime: Date.now() });
+        localStorage.setItem('chillymovies-aria2-tasks', JSON.stringify(conceptualTasks));
+    }
+    return result.taskId;
+  };
+
   const handleDownloadSeason = async (e: React.MouseEvent | React.KeyboardEvent) => {
     e.stopPropagation();
     setIsLoading(true);
     const taskDisplayName = `${seriesTitle} - Season ${seasonNumber} (${seasonName})`;
+    const seasonCode = `S${String(seasonNumber).padStart(2,'0')}`;
     console.log(
       `[DownloadSeasonButton] Initiating server download for ${taskDisplayName} in ${selectedQuality}`
     );
 
     try {
-        const response = await fetch('/api/aria2/add', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                name: taskDisplayName,
-                seriesTitle,
-                season: seasonNumber,
-                quality: selectedQuality,
-                type: 'tv_season_pack'
-            })
-        });
-        const result = await response.json();
-        if (response.ok && result.taskId) {
+        const torrents = await getSeasonTorrents(seriesId, seriesTitle, seasonNumber, selectedQuality);
+        if (!torrents) {
+            toast({ title: "Server Download Error", description: `No torrents found for Season ${seasonNumber} of ${seriesTitle} (${selectedQuality}).`, variant: "destructive" });
+            return;
+        }
+
+        if (torrents.pack) {
+            // The server checks the pack's files once metadata arrives and fetches any missing episode on its own.
+            const taskId = await queueServerDownload(
+                { name: taskDisplayName, sourceUrlOrIdentifier: `${seriesTitle} ${seasonCode}`, type: 'tv_season_pack' },
+                { magnet: torrents.pack.magnet, seriesTitle, season: seasonNumber, episodes: torrents.episodes.map(ep => ep.episodeNumber) }
+            );
             toast({
                 title: "Sent to Server Download",
-                description: `Season ${seasonNumber} of ${seriesTitle} (${selectedQuality}) sent to server. Task ID: ${result.taskId}. Check Downloads page.`
+                description: `Season ${seasonNumber} of ${seriesTitle} (${selectedQuality}) sent to server. Task ID: ${taskId}. Check Downloads page.`
             });
-
-            const conceptualTasksString = localStorage.getItem('chillymovies-aria2-tasks');
-            const conceptualTasks: ConceptualAria2Task[] = conceptualTasksString ? JSON.parse(conceptualTasksString) : [];
-            const newTask: ConceptualAria2Task = {
-                taskId: result.taskId,
-                name: result.taskName || taskDisplayName,
-                quality: selectedQuality,
-                addedTime: Date.now(),
-                sourceUrlOrIdentifier: `${seriesTitle} S${String(seasonNumber).padStart(2,'0')}`,
-                type: 'tv_season_pack',
-            };
-            if (!conceptualTasks.find(task => task.taskId === result.taskId)) {
-                conceptualTasks.push(newTask);
-                localStorage.setItem('chillymovies-aria2-tasks', JSON.stringify(conceptualTasks));
-            }
-        } else {
-            toast({ title: "Server Download Error", description: result.error || "Failed to start season download on server.", variant: "destructive" });
+            return;
         }
 
+        let queued = 0;
+        for (const episode of torrents.fallback) {
+            if (!episode.magnet) continue;
+            const episodeCode = `${seasonCode}E${String(episode.episodeNumber).padStart(2,'0')}`;
+            await queueServerDownload(
+                { name: `${seriesTitle} - ${episodeCode}`, sourceUrlOrIdentifier: `${seriesTitle} ${episodeCode}`, type: 'tv_episode' },
+                { magnet: episode.magnet }
+            );
+            queued++;
+        }
+        const missing = torrents.fallback.length - queued;
+        toast({
+            title: "Sent to Server Download",
+            description: `No full-season pack found, so ${queued} episode${queued === 1 ? '' : 's'} of Season ${seasonNumber} were sent individually.${missing > 0 ? ` ${missing} could not be found.` : ''}`,
+            variant: missing > 0 ? "destructive" : "default",
+        });
     } catch (error) {
-        console.error("[DownloadSeasonButton] Error calling Aria2 add API for season:", error);
-        toast({ title: "Server API Error", description: "Could not communicate with download server for season.", variant: "destructive" });
+        console.error("[DownloadSeasonButton] Error starting server download for season:", error);
+        toast({ title: "Server API Error", description: error instanceof Error ? error.message : "Could not communicate with download server for season.", variant: "destructive" });
     } finally {
         setIsLoading(false);
     }
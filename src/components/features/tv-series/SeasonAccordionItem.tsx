@@ -13,9 +13,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast"; // Added useToast
 import { useEffect, useState } from "react";
 import type { Locale } from "@/config/i18n.config";
+import { StreamPlayerDialog } from "@/components/features/streaming/StreamPlayerDialog";
+import { useEpisodePlayback, type PlaylistEpisode } from "@/hooks/use-episode-playback";
 
 const QUALITIES = ["1080p (FHD)", "720p (HD)", "480p (SD)", "Any Available"]; // Moved from Download buttons
 
+const toPlaylistEpisode = (episode: TMDBEpisode): PlaylistEpisode => ({
+  seasonNumber: episode.season_number,
+  episodeNumber: episode.episode_number,
+  name: episode.name,
+});
+
 export function SeasonAccordionItem({ 
     seriesId, 
     seriesTitle,
@@ -37,6 +45,22 @@ export function SeasonAccordionItem({
   const [isInternallyOpen, setIsInternallyOpen] = useState(initialOpen || false);
   const [selectedQuality, setSelectedQuality] = useState(QUALITIES[0]);
   const { toast } = useToast();
+  const [isPlayerModalOpen, setIsPlayerModalOpen] = useState(false);
+  const [isLoadingSeason, setIsLoadingSeason] = useState(false);
+  const { stream, isPreparing, playEpisodes, stop, handleTimeUpdate, handleEnded } = useEpisodePlayback({
+    seriesId,
+    seriesTitle,
+    onError: (playbackError) => {
+      setIsPlayerModalOpen(false);
+      toast({
+        title: dictionary?.toastPlaybackErrorTitle || "Playback Error",
+        description: playbackError.message,
+        variant: "destructive",
+      });
+    },
+  });
+  // "1080p (FHD)" -> "1080p"; "Any Available" means no preference
+  const qualityHint = selectedQuality.startsWith("Any") ? undefined : selectedQuality.split(" ")[0];
 
   useEffect(() => {
     async function fetchEpisodes() {
@@ -57,22 +81,48 @@ export function SeasonAccordionItem({
     fetchEpisodes();
   }, [isInternallyOpen, seriesId, season, episodes.length, isLoading, dictionary]);
 
-  const handlePlaySeason = (e: React.MouseEvent) => {
+  // The whole season as a playlist in episode order, streamed from a season pack when one exists.
+  const handlePlaySeason = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    console.log(`[SeasonAccordionItem] "Play Season" S${season.season_number} (${selectedQuality}) for "${seriesTitle}" clicked. Backend call stubbed.`);
-    toast({
-      title: dictionary?.toastPlaybackStubTitle || "Playback (Stubbed)",
-      description: `${dictionary?.toastPlayingSeasonStubDesc || "Playing season"} ${season.season_number} (${selectedQuality}) ${dictionary?.of || "of"} "${seriesTitle}". ${dictionary?.featureToImplement || "Feature to be fully implemented."}`,
-    });
+    setIsPlayerModalOpen(true);
+    let seasonEpisodes = episodes;
+    if (seasonEpisodes.length === 0) {
+      // The accordion may never have been opened; fetch the episode list now.
+      setIsLoadingSeason(true);
+      try {
+        seasonEpisodes = (await getTvSeasonDetails(seriesId, season.season_number)).episodes;
+        setEpisodes(seasonEpisodes);
+      } catch (fetchError) {
+        console.error(`[SeasonAccordionItem] Failed to fetch episodes for season ${season.season_number}:`, fetchError);
+      } finally {
+        setIsLoadingSeason(false);
+      }
+    }
+    if (seasonEpisodes.length === 0) {
+      setIsPlayerModalOpen(false);
+      toast({
+        title: dictionary?.toastPlaybackErrorTitle || "Playback Error",
+        description: dictionary?.errorLoadingEpisodes || "Could not load episodes for this season.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const playlist = [...seasonEpisodes].sort((a, b) => a.episode_number - b.episode_number).map(toPlaylistEpisode);
+    console.log(`[SeasonAccordionItem] Playing season ${season.season_number} of "${seriesTitle}" (${playlist.length} episodes, ${selectedQuality})`);
+    await playEpisodes(playlist, 0, { preferSeasonPack: true, qualityHint });
   };
   
-  const handlePlayEpisode = (episode: TMDBEpisode, e: React.MouseEvent) => {
+  const handlePlayEpisode = async (episode: TMDBEpisode, e: React.MouseEvent) => {
     e.stopPropagation();
-    console.log(`[SeasonAccordionItem] "Play Episode" S${episode.season_number}E${episode.episode_number} (${selectedQuality}) for "${seriesTitle}" clicked. Backend call stubbed.`);
-     toast({
-      title: dictionary?.toastPlaybackStubTitle || "Playback (Stubbed)",
-      description: `${dictionary?.toastPlayingEpisodeStubDesc || "Playing episode"} S${episode.season_number}E${episode.episode_number} - "${episode.name}" (${selectedQuality}). ${dictionary?.featureToImplement || "Feature to be fully implemented."}`,
-    });
+    setIsPlayerModalOpen(true);
+    console.log(`[SeasonAccordionItem] Playing S${episode.season_number}E${episode.episode_number} of "${seriesTitle}" (${selectedQuality})`);
+    await playEpisodes([toPlaylistEpisode(episode)], 0, { qualityHint });
+  };
+
+  const handlePlayerModalChange = (open: boolean) => {
+    setIsPlayerModalOpen(open);
+    if (!open) stop();
   };
 
 
@@ -139,10 +189,10 @@ export function SeasonAccordionItem({
               variant="outline"
               className="h-9"
               onClick={handlePlaySeason}
-              disabled={isLoading}
+              disabled={isLoading || isLoadingSeason}
               aria-label={`${dictionary?.playSeasonButton || "Play Season"} ${season.season_number}: ${season.name} ${dictionary?.inQuality || "in"} ${selectedQuality}`}
             >
-              {isLoading ? <Loader2Icon className="animate-spin h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+              {isLoading || isLoadingSeason ? <Loader2Icon className="animate-spin h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
               <span className="ml-1.5 hidden sm:inline">{dictionary?.playSeasonButton || "Play Season"}</span>
             </Button>
           </div>
@@ -199,6 +249,17 @@ export function SeasonAccordionItem({
           ))}
         </div>
       </AccordionPrimitive.Content>
+
+      <StreamPlayerDialog
+        open={isPlayerModalOpen}
+        onOpenChange={handlePlayerModalChange}
+        stream={stream}
+        isPreparing={isPreparing || isLoadingSeason}
+        title={`${seriesTitle} - ${season.name}`}
+        preparingText={dictionary?.preparingStreamText}
+        onTimeUpdate={handleTimeUpdate}
+        onEnded={handleEnded}
+      />
     </AccordionPrimitive.Item>
   );
 }
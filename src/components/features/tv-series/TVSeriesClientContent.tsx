@@ -6,10 +6,13 @@ import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { PlayCircleIcon, PlayIcon, Loader2Icon } from "lucide-react";
-import { getFullImagePath } from "@/lib/tmdb";
+import { getFullImagePath, getTvSeasonDetails } from "@/lib/tmdb";
 import { useState } from "react";
-// import { VideoPlayer } from "@/components/features/streaming/VideoPlayer"; // Keep if you want player UI
+import { StreamPlayerDialog } from "@/components/features/streaming/StreamPlayerDialog";
 import { useToast } from "@/hooks/use-toast";
+import { useEpisodePlayback, type PlaylistEpisode } from "@/hooks/use-episode-playback";
+import { getEpisodePlaybackKey, isWatched } from "@/lib/playback-history";
+import { getPreferredStreamingQuality } from "@/lib/streaming";
 
 interface TVSeriesClientContentProps {
   series: TMDBTVSeries;
@@ -19,14 +22,30 @@ interface TVSeriesClientContentProps {
   locale: string;
 }
 
+function getQualityHint(): string | undefined {
+  const quality = getPreferredStreamingQuality();
+  return quality === 'any' ? undefined : quality;
+}
+
 export function TVSeriesClientContent({ series, trailerKey, children, dictionary, locale }: TVSeriesClientContentProps) {
   const { toast } = useToast();
   const [isTrailerModalOpen, setIsTrailerModalOpen] = useState(false);
   
   const [isPlayerModalOpen, setIsPlayerModalOpen] = useState(false);
-  // const [streamUrl, setStreamUrl] = useState<string | null>(null); // Stubbed
-  const [streamTitle, setStreamTitle] = useState<string>("");
-  const [isPlayLoading, setIsPlayLoading] = useState(false);
+  const [isFindingEpisode, setIsFindingEpisode] = useState(false);
+  const { stream, isPreparing, playEpisodes, stop, handleTimeUpdate, handleEnded } = useEpisodePlayback({
+    seriesId: series.id,
+    seriesTitle: series.name,
+    onError: (error) => {
+      setIsPlayerModalOpen(false);
+      toast({
+        title: dictionary?.toastStreamErrorTitle || "Playback Error",
+        description: `${dictionary?.toastStreamErrorDesc || "Could not start playback:"} ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+  const isPlayLoading = isFindingEpisode || isPreparing;
 
 
   const handleWatchTrailer = () => {
@@ -41,22 +60,60 @@ export function TVSeriesClientContent({ series, trailerKey, children, dictionary
     }
   };
 
+  // Plays the rest of the season that holds the first unwatched, already aired episode.
+  // Once everything has been watched it starts over from the first episode.
   const handlePlaySeries = async () => {
-    setIsPlayLoading(true);
-    const firstSeason = series.seasons?.find(s => s.season_number > 0 && s.episode_count > 0) || series.seasons?.[0];
-    const episodeToPlayTitle = firstSeason 
-      ? `${series.name} - S${String(firstSeason.season_number).padStart(2,'0')}E01 (${dictionary?.exampleEpisodeSuffix || 'Example'})` 
-      : series.name;
-    setStreamTitle(episodeToPlayTitle);
-
-    console.log(`[TVSeriesClientContent] "Play Series" clicked for: ${series.name}. Backend call stubbed.`);
-    toast({
-      title: "Playback (Stubbed)",
-      description: `Playing series "${series.name}". Feature to be fully implemented.`,
-    });
-    // setStreamUrl("placeholder_stream_url_series");
+    const seasons = (series.seasons || [])
+      .filter(s => s.season_number > 0 && s.episode_count > 0)
+      .sort((a, b) => a.season_number - b.season_number);
+    if (seasons.length === 0) {
+      toast({ title: dictionary?.toastNoEpisodesTitle || "Nothing to Play", description: dictionary?.toastNoEpisodesDesc || "No episodes are listed for this series yet.", variant: "destructive" });
+      return;
+    }
+
+    setIsFindingEpisode(true);
     setIsPlayerModalOpen(true);
-    setTimeout(() => setIsPlayLoading(false), 1500);
+    try {
+      const now = new Date();
+      let firstPlaylist: PlaylistEpisode[] | null = null;
+      for (const season of seasons) {
+        const seasonDetails = await getTvSeasonDetails(series.id, season.season_number);
+        const playlist: PlaylistEpisode[] = seasonDetails.episodes
+          .filter(ep => !ep.air_date || new Date(ep.air_date) <= now)
+          .sort((a, b) => a.episode_number - b.episode_number)
+          .map(ep => ({ seasonNumber: ep.season_number, episodeNumber: ep.episode_number, name: ep.name }));
+        if (playlist.length === 0) continue;
+        firstPlaylist = firstPlaylist || playlist;
+
+        const startIndex = playlist.findIndex(ep => !isWatched(getEpisodePlaybackKey(series.id, ep.seasonNumber, ep.episodeNumber)));
+        if (startIndex > -1) {
+          console.log(`[TVSeriesClientContent] Playing ${series.name} from S${season.season_number}E${playlist[startIndex].episodeNumber}`);
+          await playEpisodes(playlist, startIndex, { preferSeasonPack: true, qualityHint: getQualityHint() });
+          return;
+        }
+      }
+      if (firstPlaylist) {
+        await playEpisodes(firstPlaylist, 0, { preferSeasonPack: true, qualityHint: getQualityHint() });
+      } else {
+        setIsPlayerModalOpen(false);
+        toast({ title: dictionary?.toastNoEpisodesTitle || "Nothing to Play", description: dictionary?.toastNoEpisodesDesc || "No episodes are listed for this series yet.", variant: "destructive" });
+      }
+    } catch (error) {
+      console.error("[TVSeriesClientContent] Error finding the next episode:", error);
+      setIsPlayerModalOpen(false);
+      toast({
+        title: dictionary?.toastStreamErrorTitle || "Playback Error",
+        description: `${dictionary?.toastStreamErrorDesc || "Could not start playback:"} ${error instanceof Error ? error.message : String(error)}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsFindingEpisode(false);
+    }
+  };
+
+  const handlePlayerModalChange = (open: boolean) => {
+    setIsPlayerModalOpen(open);
+    if (!open) stop();
   };
 
 
@@ -126,15 +183,16 @@ export function TVSeriesClientContent({ series, trailerKey, children, dictionary
         </DialogContent>
       </Dialog>
 
-      <Dialog open={isPlayerModalOpen} onOpenChange={setIsPlayerModalOpen}>
-        <DialogContent className="sm:max-w-[90vw] md:max-w-[85vw] lg:max-w-[80vw] xl:max-w-[75vw] p-0 border-0 bg-black/95 backdrop-blur-md aspect-video rounded-lg overflow-hidden">
-          <DialogTitle className="sr-only">{streamTitle || (dictionary?.streamingVideoTitle || "Streaming Video")}</DialogTitle>
-          {/* <VideoPlayer src={streamUrl!} title={streamTitle || series.name} /> */}
-          <div className="w-full h-full flex items-center justify-center bg-black text-white">
-             {isPlayLoading ? <Loader2Icon className="h-12 w-12 animate-spin" /> : (streamTitle ? `Video Player for: ${streamTitle} (Stubbed)` : "Video Player (Stubbed)")}
-           </div>
-        </DialogContent>
-      </Dialog>
+      <StreamPlayerDialog
+        open={isPlayerModalOpen}
+        onOpenChange={handlePlayerModalChange}
+        stream={stream}
+        isPreparing={isPlayLoading}
+        title={series.name || (dictionary?.streamingVideoTitle || "Streaming Video")}
+        preparingText={dictionary?.preparingStreamText}
+        onTimeUpdate={handleTimeUpdate}
+        onEnded={handleEnded}
+      />
 
        <style jsx global>{`
         .animate-fade-in-up {
@@ -0,0 +1,20 @@
+// src/config/torrent-providers.config.ts
+// Which torrent indexers are searched, and how long each one gets to answer.
+// Override without a code change via env:
+//   TORRENT_PROVIDERS=yts,1337x           (only these are enabled)
+//   TORRENT_PROVIDER_TIMEOUT_MS=10000     (default timeout for every provider)
+
+export interface TorrentProviderSettings {
+  enabled: boolean;
+  timeoutMs?: number; // Falls back to defaultTimeoutMs
+}
+
+export const torrentProvidersConfig = {
+  defaultTimeoutMs: 8000,
+  providers: {
+    yts: { enabled: true, timeoutMs: 6000 },
+    '1337x': { enabled: true },
+    thepiratebay: { enabled: true },
+    torrentgalaxy: { enabled: false },
+  } as Record<string, TorrentProviderSettings>,
+};
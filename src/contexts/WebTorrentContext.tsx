@@ -1,20 +1,49 @@
 // src/contexts/WebTorrentContext.tsx
-import React, { createContext, useContext, ReactNode, useState, useEffect, useCallback } from 'react';
-import webTorrentService from '@/lib/webtorrent-service';
-import type { Torrent, TorrentProgress, HistoryItem } from '@/lib/webtorrent-service';
+import React, { createContext, useContext, ReactNode, useState, useEffect, useCallback, useMemo } from 'react';
+import webTorrentService, { DEFAULT_MAX_ACTIVE_DOWNLOADS } from '@/lib/webtorrent-service';
+import type { Torrent, TorrentProgress, HistoryItem, StreamOptions, AddTorrentOptions, TorrentFileInfo, QueuedDownload, QueueMove, StorageUsage, SaveToDiskResult, TorrentDetails } from '@/lib/webtorrent-service';
 import type { TorrentFile as WebTorrentFile } from 'webtorrent';
+import type { BandwidthSettings, SpeedLimits } from '@/lib/bandwidth';
+import type { SeedingPolicy } from '@/lib/seeding-policy';
+import type { Aria2DownloadItemDisplay } from '@/types/download';
+import { backendRequest, type BackendConnection } from '@/lib/backend-client';
+import { DEFAULT_REMOTE_BACKEND_SETTINGS, loadRemoteBackendSettings, saveRemoteBackendSettings, normalizeRemoteBackendSettings, toBackendConnection, type RemoteBackendSettings } from '@/lib/remote-backend';
 
 interface WebTorrentContextType {
   torrents: TorrentProgress[];
   history: HistoryItem[];
-  addTorrent: (magnetURI: string, itemName?: string, itemId?: string | number) => Promise<Torrent | null>;
+  queue: QueuedDownload[]; // Waiting for a free slot, in start order
+  maxActiveDownloads: number;
+  // Goes to the remote backend instead (and resolves to its task) while remote backend mode is on.
+  addTorrent: (magnetURI: string, itemName?: string, itemId?: string | number, options?: AddTorrentOptions) => Promise<Torrent | QueuedDownload | Aria2DownloadItemDisplay | null>;
   removeTorrent: (infoHashOrMagnetURI: string) => Promise<void>;
   pauseTorrent: (infoHashOrMagnetURI: string) => void;
   resumeTorrent: (infoHashOrMagnetURI: string) => void;
   getTorrentInstance: (infoHashOrMagnetURI: string) => Torrent | undefined;
+  getTorrentFiles: (infoHashOrMagnetURI: string) => TorrentFileInfo[];
+  getTorrentDetails: (infoHashOrMagnetURI: string) => TorrentDetails | null;
+  setFileSelection: (infoHashOrMagnetURI: string, fileIndexes: number[]) => void;
+  moveQueuedDownload: (id: string, move: QueueMove) => void;
+  removeFromQueue: (id: string) => void;
+  setMaxActiveDownloads: (max: number) => void;
+  setTorrentSpeedLimits: (infoHashOrMagnetURI: string, limits: SpeedLimits) => void;
+  getBandwidthSettings: () => BandwidthSettings;
+  setBandwidthSettings: (settings: BandwidthSettings) => void;
+  activeSpeedLimits: SpeedLimits | null; // Client-wide limits in force right now
+  getSeedingPolicy: () => SeedingPolicy;
+  setSeedingPolicy: (policy: SeedingPolicy) => void;
+  setTorrentSeedingPolicy: (infoHashOrMagnetURI: string, policy?: SeedingPolicy) => void; // undefined = follow the global policy
+  saveToDisk: (infoHashOrMagnetURI: string, fileIndex?: number, onProgress?: (progress: number) => void) => Promise<SaveToDiskResult>;
+  getStorageUsage: () => Promise<StorageUsage>;
+  evictStoredTorrent: (infoHash: string) => Promise<void>; // Deletes a torrent's pieces from browser storage
+  requestPersistentStorage: () => Promise<boolean>;
   getLargestFileForStreaming: (infoHashOrMagnetURI: string) => Promise<{ file: WebTorrentFile, streamUrl: string } | null>;
+  prepareStream: (infoHashOrMagnetURI: string, options?: StreamOptions) => Promise<{ file: WebTorrentFile, fileIndex: number, streamUrl: string } | null>;
   clearDownloadHistory: () => void;
   removeDownloadFromHistory: (infoHash: string) => void;
+  remoteBackend: BackendConnection | null; // Where downloads go instead of the browser; null = browser
+  remoteBackendSettings: RemoteBackendSettings;
+  setRemoteBackendSettings: (settings: RemoteBackendSettings) => void;
   isClientReady: boolean;
 }
 
@@ -35,7 +64,12 @@ interface WebTorrentProviderProps {
 export const WebTorrentProvider: React.FC<WebTorrentProviderProps> = ({ children }) => {
   const [torrents, setTorrents] = useState<TorrentProgress[]>([]);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [queue, setQueue] = useState<QueuedDownload[]>([]);
+  const [maxActiveDownloads, setMaxActiveDownloadsState] = useState(DEFAULT_MAX_ACTIVE_DOWNLOADS);
   const [isClientReady, setIsClientReady] = useState(false);
+  const [activeSpeedLimits, setActiveSpeedLimits] = useState<SpeedLimits | null>(null);
+  const [remoteBackendSettings, setRemoteBackendSettingsState] = useState<RemoteBackendSettings>(DEFAULT_REMOTE_BACKEND_SETTINGS);
+  const remoteBackend = useMemo(() => toBackendConnection(remoteBackendSettings), [remoteBackendSettings]);
 
   useEffect(() => {
     const initializeClient = async () => {
@@ -43,9 +77,13 @@ export const WebTorrentProvider: React.FC<WebTorrentProviderProps> = ({ children
       setIsClientReady(true);
       setTorrents(webTorrentService.getAllTorrentsProgress());
       setHistory(webTorrentService.getDownloadHistory());
+      setQueue(webTorrentService.getQueue());
+      setMaxActiveDownloadsState(webTorrentService.getMaxActiveDownloads());
+      setActiveSpeedLimits(webTorrentService.getActiveSpeedLimits());
     };
 
     initializeClient();
+    setRemoteBackendSettingsState(loadRemoteBackendSettings());
 
     const unsubscribeProgress = webTorrentService.onTorrentProgress((progress) => {
       setTorrents(prev => {
@@ -67,16 +105,30 @@ export const WebTorrentProvider: React.FC<WebTorrentProviderProps> = ({ children
         setHistory(webTorrentService.getDownloadHistory());
     });
 
+    const unsubscribeQueue = webTorrentService.onQueueUpdated(() => {
+        setQueue(webTorrentService.getQueue());
+        setMaxActiveDownloadsState(webTorrentService.getMaxActiveDownloads());
+    });
+
+    const unsubscribeBandwidth = webTorrentService.onBandwidthChanged(setActiveSpeedLimits);
+
     return () => {
       unsubscribeProgress();
       unsubscribeRemoved();
       unsubscribeHistory();
+      unsubscribeQueue();
+      unsubscribeBandwidth();
     };
   }, []);
 
-  const addTorrent = useCallback(async (magnetURI: string, itemName?: string, itemId?: string | number) => {
-    return webTorrentService.addTorrent(magnetURI, itemName, itemId);
-  }, []);
+  const addTorrent = useCallback(async (magnetURI: string, itemName?: string, itemId?: string | number, options?: AddTorrentOptions) => {
+    if (remoteBackend) {
+      // selectedFiles and seedingPolicy have no backend equivalent; callers warn with getUnsupportedRemoteOptions.
+      const body = { magnetURI, name: itemName, itemId, torrentFile: options?.torrentFile, speedLimits: options?.speedLimits };
+      return backendRequest<Aria2DownloadItemDisplay>('/download', { method: 'POST', body }, remoteBackend);
+    }
+    return webTorrentService.addTorrent(magnetURI, itemName, itemId, options);
+  }, [remoteBackend]);
 
   const removeTorrent = useCallback(async (infoHashOrMagnetURI: string) => {
     await webTorrentService.removeTorrent(infoHashOrMagnetURI);
@@ -94,10 +146,78 @@ export const WebTorrentProvider: React.FC<WebTorrentProviderProps> = ({ children
     return webTorrentService.getTorrent(infoHashOrMagnetURI);
   }, []);
   
+  const getTorrentFiles = useCallback((infoHashOrMagnetURI: string) => {
+    return webTorrentService.getTorrentFiles(infoHashOrMagnetURI);
+  }, []);
+
+  const getTorrentDetails = useCallback((infoHashOrMagnetURI: string) => {
+    return webTorrentService.getTorrentDetails(infoHashOrMagnetURI);
+  }, []);
+
+  const setFileSelection = useCallback((infoHashOrMagnetURI: string, fileIndexes: number[]) => {
+    webTorrentService.setFileSelection(infoHashOrMagnetURI, fileIndexes);
+  }, []);
+
+  const moveQueuedDownload = useCallback((id: string, move: QueueMove) => {
+    webTorrentService.moveQueuedDownload(id, move);
+  }, []);
+
+  const removeFromQueue = useCallback((id: string) => {
+    webTorrentService.removeFromQueue(id);
+  }, []);
+
+  const setMaxActiveDownloads = useCallback((max: number) => {
+    webTorrentService.setMaxActiveDownloads(max);
+  }, []);
+
+  const setTorrentSpeedLimits = useCallback((infoHashOrMagnetURI: string, limits: SpeedLimits) => {
+    webTorrentService.setTorrentSpeedLimits(infoHashOrMagnetURI, limits);
+  }, []);
+
+  const getBandwidthSettings = useCallback(() => {
+    return webTorrentService.getBandwidthSettings();
+  }, []);
+
+  const setBandwidthSettings = useCallback((settings: BandwidthSettings) => {
+    webTorrentService.setBandwidthSettings(settings);
+  }, []);
+
+  const getSeedingPolicy = useCallback(() => {
+    return webTorrentService.getSeedingPolicy();
+  }, []);
+
+  const setSeedingPolicy = useCallback((policy: SeedingPolicy) => {
+    webTorrentService.setSeedingPolicy(policy);
+  }, []);
+
+  const setTorrentSeedingPolicy = useCallback((infoHashOrMagnetURI: string, policy?: SeedingPolicy) => {
+    webTorrentService.setTorrentSeedingPolicy(infoHashOrMagnetURI, policy);
+  }, []);
+
+  const saveToDisk = useCallback((infoHashOrMagnetURI: string, fileIndex?: number, onProgress?: (progress: number) => void) => {
+    return webTorrentService.saveToDisk(infoHashOrMagnetURI, fileIndex, onProgress);
+  }, []);
+
+  const getStorageUsage = useCallback(() => {
+    return webTorrentService.getStorageUsage();
+  }, []);
+
+  const evictStoredTorrent = useCallback(async (infoHash: string) => {
+    await webTorrentService.evictStoredTorrent(infoHash);
+  }, []);
+
+  const requestPersistentStorage = useCallback(() => {
+    return webTorrentService.requestPersistentStorage();
+  }, []);
+
   const getLargestFileForStreaming = useCallback(async (infoHashOrMagnetURI: string) => {
     return webTorrentService.getLargestFileForStreaming(infoHashOrMagnetURI);
   }, []);
 
+  const prepareStream = useCallback(async (infoHashOrMagnetURI: string, options?: StreamOptions) => {
+    return webTorrentService.prepareStream(infoHashOrMagnetURI, options);
+  }, []);
+
   const clearDownloadHistory = useCallback(() => {
     webTorrentService.clearHistory();
   }, []);
@@ -106,17 +226,45 @@ export const WebTorrentProvider: React.FC<WebTorrentProviderProps> = ({ children
     webTorrentService.removeFromHistory(infoHash);
   }, []);
 
+  const setRemoteBackendSettings = useCallback((settings: RemoteBackendSettings) => {
+    saveRemoteBackendSettings(settings);
+    setRemoteBackendSettingsState(normalizeRemoteBackendSettings(settings));
+  }, []);
+
   const value: WebTorrentContextType = {
     torrents,
     history,
+    queue,
+    maxActiveDownloads,
     addTorrent,
     removeTorrent,
     pauseTorrent,
     resumeTorrent,
     getTorrentInstance,
+    getTorrentFiles,
+    getTorrentDetails,
+    setFileSelection,
+    moveQueuedDownload,
+    removeFromQueue,
+    setMaxActiveDownloads,
+    setTorrentSpeedLimits,
+    getBandwidthSettings,
+    setBandwidthSettings,
+    activeSpeedLimits,
+    getSeedingPolicy,
+    setSeedingPolicy,
+    setTorrentSeedingPolicy,
+    saveToDisk,
+    getStorageUsage,
+    evictStoredTorrent,
+    requestPersistentStorage,
     getLargestFileForStreaming,
+    prepareStream,
     clearDownloadHistory,
     removeDownloadFromHistory,
+    remoteBackend,
+    remoteBackendSettings,
+    setRemoteBackendSettings,
     isClientReady,
   };
 
@@ -0,0 +1,70 @@
+// src/hooks/use-download-events.ts
+import { useState, useEffect } from 'react';
+import type { Aria2DownloadItemDisplay, DownloadEventPayloads } from '@/types/download';
+
+/**
+ * Follows a download events stream (backend GET /events or /api/downloads/events).
+ * EventSource reconnects on its own; every reconnect starts with a fresh snapshot.
+ */
+export function useDownloadEvents(url: string | null) {
+  const [downloads, setDownloads] = useState<Aria2DownloadItemDisplay[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!url || typeof EventSource === 'undefined') {
+      setDownloads([]);
+      setIsConnected(false);
+      return;
+    }
+
+    const source = new EventSource(url);
+    const parse = <T,>(event: MessageEvent): T | null => {
+      try {
+        return JSON.parse(event.data) as T;
+      } catch {
+        return null;
+      }
+    };
+    const upsert = (item: Aria2DownloadItemDisplay) => {
+      setDownloads(prev => {
+        const index = prev.findIndex(d => d.taskId === item.taskId);
+        if (index === -1) return [...prev, item];
+        const next = [...prev];
+        next[index] = { ...prev[index], ...item };
+        return next;
+      });
+    };
+
+    source.onopen = () => setIsConnected(true);
+    source.onerror = () => setIsConnected(false);
+
+    source.addEventListener('snapshot', (event) => {
+      const payload = parse<DownloadEventPayloads['snapshot']>(event as MessageEvent);
+      if (payload) setDownloads(payload.downloads);
+      setIsConnected(true);
+    });
+    ['added', 'progress', 'done'].forEach(type => {
+      source.addEventListener(type, (event) => {
+        const payload = parse<DownloadEventPayloads['progress']>(event as MessageEvent);
+        if (payload) upsert(payload);
+      });
+    });
+    source.addEventListener('error', (event) => {
+      // Named 'error' events carry data; connection errors don't and are handled by onerror.
+      if (!(event as MessageEvent).data) return;
+      const payload = parse<DownloadEventPayloads['error']>(event as MessageEvent);
+      if (!payload) return;
+      setDownloads(prev => prev.map(d => d.taskId === payload.taskId ? { ...d, status: 'error', errorMessage: payload.errorMessage } : d));
+    });
+    source.addEventListener('removed', (event) => {
+      const payload = parse<DownloadEventPayloads['removed']>(event as MessageEvent);
+      if (payload) setDownloads(prev => prev.filter(d => d.taskId !== payload.taskId));
+    });
+
+    return () => {
+      source.close();
+    };
+  }, [url]);
+
+  return { downloads, isConnected };
+}
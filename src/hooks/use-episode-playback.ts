@@ -0,0 +1,134 @@
+// src/hooks/use-episode-playback.ts
+import { useState, useCallback, useRef } from 'react';
+import { useTorrentStream } from '@/hooks/use-torrent-stream';
+import { useWebTorrent } from '@/contexts/WebTorrentContext';
+import { getEpisodeMagnetLink, getSeasonTorrents } from '@/lib/tmdb';
+import type { SeasonTorrentSearchResponse } from '@/lib/season-pack';
+import { getEpisodePlaybackKey } from '@/lib/playback-history';
+import { matchesEpisode } from '@/lib/streaming';
+
+export interface PlaylistEpisode {
+  seasonNumber: number;
+  episodeNumber: number;
+  name?: string;
+}
+
+export interface EpisodePlaybackOptions {
+  qualityHint?: string; // e.g. "1080p"
+  preferSeasonPack?: boolean; // One torrent for the whole playlist instead of one per episode
+}
+
+interface UseEpisodePlaybackArgs {
+  seriesId: string | number;
+  seriesTitle: string;
+  onError?: (error: Error) => void;
+}
+
+const formatCode = (episode: PlaylistEpisode) =>
+  `S${String(episode.seasonNumber).padStart(2, '0')}E${String(episode.episodeNumber).padStart(2, '0')}`;
+
+/**
+ * Plays episodes of a series in order. Each episode is streamed from the season pack when
+ * asked to (and one exists), otherwise from its own torrent; the next one starts when the
+ * current one ends.
+ */
+export function useEpisodePlayback({ seriesId, seriesTitle, onError }: UseEpisodePlaybackArgs) {
+  const { stream, isPreparing, play, stop: stopStream, handleTimeUpdate, handleEnded: markEnded } = useTorrentStream();
+  const { getTorrentInstance, removeTorrent } = useWebTorrent();
+  const [playlist, setPlaylist] = useState<PlaylistEpisode[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(-1);
+  const [isResolving, setIsResolving] = useState(false);
+  const optionsRef = useRef<EpisodePlaybackOptions>({});
+  // `${season}|${quality}` -> validated season pack (or per-episode sources), null when nothing was found
+  const seasonTorrentsRef = useRef(new Map<string, SeasonTorrentSearchResponse | null>());
+
+  const getSeason = useCallback(async (seasonNumber: number, qualityHint?: string) => {
+    const cacheKey = `${seasonNumber}|${qualityHint || ''}`;
+    if (!seasonTorrentsRef.current.has(cacheKey)) {
+      seasonTorrentsRef.current.set(cacheKey, await getSeasonTorrents(seriesId, seriesTitle, seasonNumber, qualityHint));
+    }
+    return seasonTorrentsRef.current.get(cacheKey) || null;
+  }, [seriesId, seriesTitle]);
+
+  const playEpisode = useCallback(async (episode: PlaylistEpisode, options: EpisodePlaybackOptions) => {
+    const code = formatCode(episode);
+    const request = {
+      title: `${seriesTitle} - ${code}${episode.name ? ` - ${episode.name}` : ''}`,
+      playbackKey: getEpisodePlaybackKey(seriesId, episode.seasonNumber, episode.episodeNumber),
+      itemId: seriesId,
+    };
+
+    setIsResolving(true);
+    try {
+      let fallbackMagnet: string | null = null;
+      if (options.preferSeasonPack) {
+        const season = await getSeason(episode.seasonNumber, options.qualityHint);
+        const packMagnet = season?.pack?.magnet;
+        if (packMagnet) {
+          const wasRunning = !!getTorrentInstance(packMagnet);
+          try {
+            return await play({
+              ...request,
+              magnetURI: packMagnet,
+              fileNameFilter: fileName => matchesEpisode(fileName, episode.seasonNumber, episode.episodeNumber),
+            });
+          } catch (error) {
+            console.warn(`[useEpisodePlayback] ${code} is not playable from the season pack, trying an episode torrent:`, error);
+            // Don't leave a pack we started just for this episode downloading in the background.
+            if (!wasRunning) await removeTorrent(packMagnet).catch(() => {});
+          }
+        }
+        fallbackMagnet = season?.fallback.find(e => e.episodeNumber === episode.episodeNumber)?.magnet || null;
+      }
+      const magnetURI = fallbackMagnet || await getEpisodeMagnetLink(seriesTitle, episode.seasonNumber, episode.episodeNumber, options.qualityHint);
+      if (!magnetURI) throw new Error(`No torrent found for ${code}.`);
+      return await play({ ...request, magnetURI });
+    } finally {
+      setIsResolving(false);
+    }
+  }, [seriesId, seriesTitle, getSeason, getTorrentInstance, removeTorrent, play]);
+
+  const startAt = useCallback(async (episodes: PlaylistEpisode[], index: number, options: EpisodePlaybackOptions) => {
+    setCurrentIndex(index);
+    try {
+      await playEpisode(episodes[index], options);
+    } catch (error) {
+      console.error(`[useEpisodePlayback] Could not play ${formatCode(episodes[index])}:`, error);
+      onError?.(error instanceof Error ? error : new Error(String(error)));
+    }
+  }, [playEpisode, onError]);
+
+  /** Replaces the playlist and starts playing `episodes[startIndex]`. */
+  const playEpisodes = useCallback(async (episodes: PlaylistEpisode[], startIndex = 0, options: EpisodePlaybackOptions = {}) => {
+    if (episodes.length === 0) return;
+    optionsRef.current = options;
+    setPlaylist(episodes);
+    await startAt(episodes, Math.min(Math.max(startIndex, 0), episodes.length - 1), options);
+  }, [startAt]);
+
+  // Auto-advance: mark the finished episode watched and move on to the next one.
+  const handleEnded = useCallback(() => {
+    markEnded();
+    const nextIndex = currentIndex + 1;
+    if (nextIndex < playlist.length) {
+      startAt(playlist, nextIndex, optionsRef.current);
+    }
+  }, [markEnded, currentIndex, playlist, startAt]);
+
+  const stop = useCallback(() => {
+    stopStream();
+    setPlaylist([]);
+    setCurrentIndex(-1);
+  }, [stopStream]);
+
+  return {
+    stream,
+    isPreparing: isPreparing || isResolving,
+    currentEpisode: currentIndex > -1 ? playlist[currentIndex] : undefined,
+    nextEpisode: currentIndex > -1 ? playlist[currentIndex + 1] : undefined,
+    playEpisodes,
+    stop,
+    handleTimeUpdate,
+    handleEnded,
+  };
+}
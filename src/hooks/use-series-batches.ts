@@ -0,0 +1,69 @@
+// src/hooks/use-series-batches.ts
+import { useState, useEffect } from 'react';
+import type { Aria2DownloadItemDisplay, SeriesBatchJob, SeriesBatchSeason } from '@/types/download';
+
+const POLL_INTERVAL = 5000; // Jobs change rarely once their sources are queued
+
+/** Follows the "Download All Seasons" jobs of /api/downloads/series. */
+export function useSeriesBatches(enabled: boolean = true) {
+  const [jobs, setJobs] = useState<SeriesBatchJob[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch('/api/downloads/series', { cache: 'no-store' });
+        if (!response.ok) return;
+        const data = await response.json();
+        if (!cancelled) setJobs(data.jobs || []);
+      } catch (error) {
+        console.warn('[useSeriesBatches] Could not load series downloads:', error);
+      }
+    };
+
+    load();
+    const interval = setInterval(load, POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [enabled]);
+
+  return jobs;
+}
+
+export type SeasonRollupStatus = SeriesBatchSeason['state'] | 'downloading' | 'paused' | 'complete' | 'error';
+
+export interface SeasonRollup {
+  status: SeasonRollupStatus;
+  progress: number; // 0-100, weighted by size where it is known
+  completedLength: number;
+  totalLength: number;
+  downloadSpeed: number;
+}
+
+/** Combines the live state of a season's aria2 tasks into one status line. */
+export function getSeasonRollup(season: SeriesBatchSeason, downloads: Aria2DownloadItemDisplay[]): SeasonRollup {
+  const tasks = season.taskIds
+    .map(taskId => downloads.find(d => d.taskId === taskId))
+    .filter((d): d is Aria2DownloadItemDisplay => !!d);
+
+  const completedLength = tasks.reduce((sum, t) => sum + (t.completedLength || 0), 0);
+  const totalLength = tasks.reduce((sum, t) => sum + (t.totalLength || 0), 0);
+  const downloadSpeed = tasks.reduce((sum, t) => sum + t.downloadSpeed, 0);
+  const progress = totalLength > 0
+    ? Math.round((completedLength / totalLength) * 10000) / 100
+    : tasks.length > 0 ? tasks.reduce((sum, t) => sum + t.progress, 0) / tasks.length : 0;
+
+  let status: SeasonRollupStatus = season.state;
+  if (season.state === 'queued' && tasks.length > 0) {
+    if (tasks.some(t => t.status === 'error')) status = 'error';
+    else if (tasks.every(t => t.status === 'complete')) status = 'complete';
+    else if (tasks.every(t => t.status === 'paused' || t.status === 'complete')) status = 'paused';
+    else status = 'downloading';
+  }
+
+  return { status, progress, completedLength, totalLength, downloadSpeed };
+}
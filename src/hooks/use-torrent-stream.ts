@@ -0,0 +1,73 @@
+// src/hooks/use-torrent-stream.ts
+import { useState, useCallback, useRef } from 'react';
+import { useWebTorrent } from '@/contexts/WebTorrentContext';
+import { getResumePosition, markWatched, savePlaybackPosition } from '@/lib/playback-history';
+
+const POSITION_SAVE_INTERVAL = 5000; // 5 seconds
+
+export interface StreamRequest {
+  magnetURI: string;
+  title: string;
+  playbackKey: string; // See getMoviePlaybackKey / getEpisodePlaybackKey
+  itemId?: string | number;
+  fileIndex?: number;
+  fileNameFilter?: (fileName: string) => boolean;
+}
+
+export interface ActiveStream {
+  src: string;
+  title: string;
+  playbackKey: string;
+  initialPosition?: number;
+}
+
+/**
+ * Streams a torrent into VideoPlayer through the browser client and remembers how far
+ * the user got. `play` throws when no playable file can be found; callers show the toast.
+ */
+export function useTorrentStream() {
+  const { prepareStream } = useWebTorrent();
+  const [stream, setStream] = useState<ActiveStream | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const lastSavedAtRef = useRef(0);
+
+  const play = useCallback(async (request: StreamRequest): Promise<ActiveStream> => {
+    setIsPreparing(true);
+    try {
+      const result = await prepareStream(request.magnetURI, {
+        itemName: request.title,
+        itemId: request.itemId,
+        fileIndex: request.fileIndex,
+        fileNameFilter: request.fileNameFilter,
+      });
+      if (!result) throw new Error('No playable file was found in this torrent.');
+      const activeStream: ActiveStream = {
+        src: result.streamUrl,
+        title: request.title,
+        playbackKey: request.playbackKey,
+        initialPosition: getResumePosition(request.playbackKey),
+      };
+      lastSavedAtRef.current = 0;
+      setStream(activeStream);
+      return activeStream;
+    } finally {
+      setIsPreparing(false);
+    }
+  }, [prepareStream]);
+
+  const handleTimeUpdate = useCallback((currentTime: number, duration: number) => {
+    if (!stream) return;
+    const now = Date.now();
+    if (now - lastSavedAtRef.current < POSITION_SAVE_INTERVAL) return;
+    lastSavedAtRef.current = now;
+    savePlaybackPosition(stream.playbackKey, currentTime, duration);
+  }, [stream]);
+
+  const handleEnded = useCallback(() => {
+    if (stream) markWatched(stream.playbackKey);
+  }, [stream]);
+
+  const stop = useCallback(() => setStream(null), []);
+
+  return { stream, isPreparing, play, stop, handleTimeUpdate, handleEnded };
+}
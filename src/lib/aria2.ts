@@ -0,0 +1,207 @@
+// src/lib/aria2.ts
+// Minimal typed client for the aria2c JSON-RPC interface (https://aria2.github.io/manual/en/html/aria2c.html#rpc-interface).
+// Server-side only: it is used by the /api/aria2 routes and never shipped to the browser.
+import type { Aria2DownloadItemDisplay, ConceptualAria2Task } from '@/types/download';
+
+const ARIA2_RPC_URL = process.env.ARIA2_RPC_URL || 'http://localhost:6800/jsonrpc';
+const ARIA2_RPC_SECRET = process.env.ARIA2_RPC_SECRET;
+const ARIA2_RPC_TIMEOUT = 10000; // 10 seconds
+
+export type Aria2RawStatus = 'active' | 'waiting' | 'paused' | 'error' | 'complete' | 'removed';
+
+// aria2 returns every numeric field as a string.
+export interface Aria2File {
+  index: string;
+  path: string;
+  length: string;
+  completedLength: string;
+  selected: 'true' | 'false';
+  uris: { uri: string; status: 'used' | 'waiting' }[];
+}
+
+export interface Aria2Status {
+  gid: string;
+  status: Aria2RawStatus;
+  totalLength: string;
+  completedLength: string;
+  uploadLength?: string;
+  downloadSpeed: string;
+  uploadSpeed: string;
+  connections?: string;
+  numSeeders?: string;
+  errorCode?: string;
+  errorMessage?: string;
+  dir?: string;
+  files?: Aria2File[];
+  followedBy?: string[];
+  following?: string;
+  infoHash?: string;
+  bittorrent?: {
+    info?: { name: string };
+  };
+}
+
+// Options accepted by aria2.addUri; aria2 expects string values.
+export type Aria2InputOptions = Record<string, string>;
+
+export class Aria2RpcError extends Error {
+  code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = 'Aria2RpcError';
+    this.code = code;
+  }
+}
+
+export class Aria2Client {
+  private requestId = 0;
+
+  constructor(private readonly rpcUrl: string, private readonly secret?: string) {}
+
+  private async call<T>(method: string, params: unknown[] = []): Promise<T> {
+    const id = `chillymovies-${++this.requestId}`;
+    const rpcParams = this.secret ? [`token:${this.secret}`, ...params] : params;
+
+    let response: Response;
+    try {
+      response = await fetch(this.rpcUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id, method, params: rpcParams }),
+        cache: 'no-store',
+        signal: AbortSignal.timeout(ARIA2_RPC_TIMEOUT),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Aria2RpcError(`Could not reach aria2 RPC at ${this.rpcUrl}: ${errorMessage}`);
+    }
+
+    const payload = await response.json().catch(() => null);
+    if (payload?.error) {
+      throw new Aria2RpcError(payload.error.message || 'Unknown aria2 error', payload.error.code);
+    }
+    if (!response.ok || !payload) {
+      throw new Aria2RpcError(`aria2 RPC request failed with HTTP ${response.status}`);
+    }
+    return payload.result as T;
+  }
+
+  /** Queues one download (all URIs must point to the same resource). Returns the new GID. */
+  addUri(uris: string[], options: Aria2InputOptions = {}): Promise<string> {
+    return this.call<string>('aria2.addUri', [uris, options]);
+  }
+
+  tellStatus(gid: string, keys?: (keyof Aria2Status)[]): Promise<Aria2Status> {
+    return this.call<Aria2Status>('aria2.tellStatus', keys ? [gid, keys] : [gid]);
+  }
+
+  pause(gid: string): Promise<string> {
+    return this.call<string>('aria2.pause', [gid]);
+  }
+
+  unpause(gid: string): Promise<string> {
+    return this.call<string>('aria2.unpause', [gid]);
+  }
+
+  remove(gid: string): Promise<string> {
+    return this.call<string>('aria2.remove', [gid]);
+  }
+
+  /** Clears a stopped (complete, error or removed) task from aria2's results; remove() refuses those. */
+  removeDownloadResult(gid: string): Promise<string> {
+    return this.call<string>('aria2.removeDownloadResult', [gid]);
+  }
+
+  getFiles(gid: string): Promise<Aria2File[]> {
+    return this.call<Aria2File[]>('aria2.getFiles', [gid]);
+  }
+
+  tellActive(keys?: (keyof Aria2Status)[]): Promise<Aria2Status[]> {
+    return this.call<Aria2Status[]>('aria2.tellActive', keys ? [keys] : []);
+  }
+
+  tellWaiting(offset: number, num: number, keys?: (keyof Aria2Status)[]): Promise<Aria2Status[]> {
+    return this.call<Aria2Status[]>('aria2.tellWaiting', keys ? [offset, num, keys] : [offset, num]);
+  }
+
+  tellStopped(offset: number, num: number, keys?: (keyof Aria2Status)[]): Promise<Aria2Status[]> {
+    return this.call<Aria2Status[]>('aria2.tellStopped', keys ? [offset, num, keys] : [offset, num]);
+  }
+
+  /**
+   * Magnet downloads start as a metadata-only task which, once complete, is
+   * "followed by" the real download. This resolves a GID to the task doing the actual work.
+   */
+  async tellEffectiveStatus(gid: string): Promise<Aria2Status> {
+    let status = await this.tellStatus(gid);
+    const seen = new Set([gid]);
+    while (status.followedBy && status.followedBy.length > 0 && !seen.has(status.followedBy[0])) {
+      seen.add(status.followedBy[0]);
+      status = await this.tellStatus(status.followedBy[0]);
+    }
+    return status;
+  }
+}
+
+export const aria2Client = new Aria2Client(ARIA2_RPC_URL, ARIA2_RPC_SECRET);
+
+const MAX_LISTED_TASKS = 1000;
+
+function toNumber(value?: string): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/** Picks the name aria2 would show: torrent name, else the first file's basename. */
+export function getAria2TaskName(status: Aria2Status): string | undefined {
+  if (status.bittorrent?.info?.name) return status.bittorrent.info.name;
+  const firstPath = status.files?.find(f => f.path)?.path;
+  if (firstPath) return firstPath.split(/[\\/]/).pop();
+  return undefined;
+}
+
+export function mapAria2StatusToDisplay(
+  status: Aria2Status,
+  task?: Partial<ConceptualAria2Task> & { taskId?: string }
+): Aria2DownloadItemDisplay {
+  const totalLength = toNumber(status.totalLength);
+  const completedLength = toNumber(status.completedLength);
+
+  let displayStatus: Aria2DownloadItemDisplay['status'] = status.status;
+  // A metadata-only magnet task reports "active" with zero length until peers answer.
+  if (status.status === 'active' && totalLength === 0) displayStatus = 'connecting';
+
+  return {
+    taskId: task?.taskId || status.gid,
+    name: task?.name || getAria2TaskName(status) || status.gid,
+    status: displayStatus,
+    progress: totalLength > 0 ? Math.round((completedLength / totalLength) * 10000) / 100 : 0,
+    downloadSpeed: toNumber(status.downloadSpeed),
+    uploadSpeed: toNumber(status.uploadSpeed),
+    totalLength: totalLength || undefined,
+    completedLength,
+    connections: status.connections !== undefined ? toNumber(status.connections) : undefined,
+    downloadUrl: status.status === 'complete' ? `/api/aria2/file/${task?.taskId || status.gid}` : undefined,
+    errorCode: status.errorCode && status.errorCode !== '0' ? status.errorCode : undefined,
+    errorMessage: status.errorMessage || undefined,
+    quality: task?.quality,
+    addedTime: task?.addedTime,
+  };
+}
+
+/**
+ * Lists every task aria2 knows about, keyed the way clients stored them: a magnet's
+ * follow-up download is reported under the original GID and the metadata-only task is hidden.
+ */
+export async function listAria2Downloads(client: Aria2Client = aria2Client): Promise<Aria2DownloadItemDisplay[]> {
+  const [active, waiting, stopped] = await Promise.all([
+    client.tellActive(),
+    client.tellWaiting(0, MAX_LISTED_TASKS),
+    client.tellStopped(0, MAX_LISTED_TASKS),
+  ]);
+
+  return [...active, ...waiting, ...stopped]
+    .filter(status => !(status.followedBy && status.followedBy.length > 0))
+    .map(status => mapAria2StatusToDisplay(status, { taskId: status.following || status.gid }));
+}
@@ -0,0 +1,88 @@
+// src/lib/backend-client.ts
+// Calls to the Express download backend (src/server). The Next.js server talks to the backend from
+// its environment (BACKEND_URL, BACKEND_API_KEY), and that key must never reach the browser. In
+// remote backend mode the browser passes the connection the user entered on the Settings page.
+
+export interface BackendConnection {
+  url: string; // e.g. http://192.168.1.20:3001, without a trailing slash
+  apiKey?: string;
+}
+
+// The backend's GET /health response.
+export interface BackendHealth {
+  status: string;
+  message: string;
+}
+
+const ENV_BACKEND: BackendConnection = {
+  url: process.env.BACKEND_URL || `http://localhost:${process.env.BACKEND_PORT || '3001'}`,
+  apiKey: process.env.BACKEND_API_KEY,
+};
+const BACKEND_TIMEOUT = 10000; // 10 seconds
+
+export class BackendRequestError extends Error {
+  status?: number; // HTTP status from the backend; undefined when it could not be reached
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'BackendRequestError';
+    this.status = status;
+  }
+}
+
+function authHeaders(connection: BackendConnection, headers: Record<string, string> = {}): Record<string, string> {
+  return connection.apiKey ? { ...headers, 'X-API-Key': connection.apiKey } : headers;
+}
+
+/** Sends a JSON request to the backend and returns its JSON response. */
+export async function backendRequest<T>(path: string, init: { method?: string; body?: unknown } = {}, connection: BackendConnection = ENV_BACKEND): Promise<T> {
+  const headers = authHeaders(connection, { 'Content-Type': 'application/json' });
+
+  let response: Response;
+  try {
+    response = await fetch(`${connection.url}${path}`, {
+      method: init.method || 'GET',
+      headers,
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      cache: 'no-store',
+      signal: AbortSignal.timeout(BACKEND_TIMEOUT),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new BackendRequestError(`Could not reach the download backend at ${connection.url}: ${errorMessage}`);
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new BackendRequestError(payload?.error || `Backend request failed with HTTP ${response.status}`, response.status);
+  }
+  return payload as T;
+}
+
+/**
+ * Makes a GET request to the backend and hands back the raw response for relaying a body stream
+ * (e.g. byte ranges of a torrent file). No timeout: pieces may take a while to arrive from the swarm,
+ * so pass the incoming request's signal to stop when the caller goes away.
+ */
+export async function backendStream(path: string, init: { headers?: Record<string, string>; signal?: AbortSignal } = {}, connection: BackendConnection = ENV_BACKEND): Promise<Response> {
+  try {
+    return await fetch(`${connection.url}${path}`, { headers: authHeaders(connection, init.headers), cache: 'no-store', signal: init.signal });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new BackendRequestError(`Could not reach the download backend at ${connection.url}: ${errorMessage}`);
+  }
+}
+
+/** GET /health. It sits behind the API key check, so a wrong key fails here too. */
+export function checkBackendHealth(connection: BackendConnection = ENV_BACKEND): Promise<BackendHealth> {
+  return backendRequest<BackendHealth>('/health', {}, connection);
+}
+
+/**
+ * An absolute backend URL for things that can't send headers (EventSource, links, <video>).
+ * The backend also accepts the API key as ?apiKey=.
+ */
+export function backendUrl(path: string, connection: BackendConnection = ENV_BACKEND): string {
+  if (!connection.apiKey) return `${connection.url}${path}`;
+  return `${connection.url}${path}${path.includes('?') ? '&' : '?'}apiKey=${encodeURIComponent(connection.apiKey)}`;
+}
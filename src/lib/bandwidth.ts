@@ -0,0 +1,108 @@
+// src/lib/bandwidth.ts
+// Upload/download rate limits and the "alternative speed" schedule. Shared by the
+// Settings page, the browser WebTorrent client and the backend engine.
+
+// Rates are in KB/s; 0 means unlimited.
+export interface SpeedLimits {
+  downloadLimit: number;
+  uploadLimit: number;
+}
+
+// Swaps in a second set of limits between two times of day, e.g. unlimited overnight.
+export interface AltSpeedSchedule extends SpeedLimits {
+  enabled: boolean;
+  from: string; // "HH:MM", local time
+  to: string; // "HH:MM"; earlier than `from` means the window runs past midnight
+}
+
+export interface BandwidthSettings extends SpeedLimits {
+  altSpeed: AltSpeedSchedule;
+}
+
+export const BANDWIDTH_SETTINGS_STORAGE_KEY = 'chillymovies-bandwidth-settings';
+export const SCHEDULE_CHECK_INTERVAL = 30000; // How often engines re-evaluate the schedule
+
+export const UNLIMITED: SpeedLimits = { downloadLimit: 0, uploadLimit: 0 };
+
+export const DEFAULT_BANDWIDTH_SETTINGS: BandwidthSettings = {
+  ...UNLIMITED,
+  altSpeed: { enabled: false, ...UNLIMITED, from: '01:00', to: '07:00' },
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function toRate(value: unknown): number {
+  const rate = Math.floor(Number(value));
+  return Number.isFinite(rate) && rate > 0 ? rate : 0;
+}
+
+function toTime(value: unknown, fallback: string): string {
+  return typeof value === 'string' && TIME_PATTERN.test(value) ? value : fallback;
+}
+
+/** Per-torrent limits from untrusted input (request bodies, localStorage). */
+export function normalizeSpeedLimits(input: unknown): SpeedLimits {
+  const value = (input && typeof input === 'object' ? input : {}) as Partial<SpeedLimits>;
+  return { downloadLimit: toRate(value.downloadLimit), uploadLimit: toRate(value.uploadLimit) };
+}
+
+/** Fills in defaults and drops anything malformed, so stored or posted settings are always usable. */
+export function normalizeBandwidthSettings(input: unknown): BandwidthSettings {
+  const value = (input && typeof input === 'object' ? input : {}) as Partial<BandwidthSettings>;
+  const altSpeed = (value.altSpeed && typeof value.altSpeed === 'object' ? value.altSpeed : {}) as Partial<AltSpeedSchedule>;
+  const defaults = DEFAULT_BANDWIDTH_SETTINGS.altSpeed;
+  return {
+    ...normalizeSpeedLimits(value),
+    altSpeed: {
+      enabled: altSpeed.enabled === true,
+      ...normalizeSpeedLimits(altSpeed),
+      from: toTime(altSpeed.from, defaults.from),
+      to: toTime(altSpeed.to, defaults.to),
+    },
+  };
+}
+
+export function loadBandwidthSettings(): BandwidthSettings {
+  if (typeof localStorage === 'undefined') return DEFAULT_BANDWIDTH_SETTINGS;
+  try {
+    const stored = localStorage.getItem(BANDWIDTH_SETTINGS_STORAGE_KEY);
+    return normalizeBandwidthSettings(stored ? JSON.parse(stored) : null);
+  } catch (error) {
+    console.error('Failed to load bandwidth settings:', error);
+    return DEFAULT_BANDWIDTH_SETTINGS;
+  }
+}
+
+export function saveBandwidthSettings(settings: BandwidthSettings) {
+  localStorage.setItem(BANDWIDTH_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/** True while `now` falls inside the schedule's window. A window from 22:00 to 06:00 spans midnight. */
+export function isAltSpeedActive(schedule: AltSpeedSchedule, now = new Date()): boolean {
+  if (!schedule.enabled) return false;
+  const from = minutesOfDay(schedule.from);
+  const to = minutesOfDay(schedule.to);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (from === to) return true; // A zero-length window would never end; treat it as all day
+  return from < to ? current >= from && current < to : current >= from || current < to;
+}
+
+/** The limits that apply right now: the schedule's while its window is open, the regular ones otherwise. */
+export function getActiveLimits(settings: BandwidthSettings, now = new Date()): SpeedLimits {
+  const { downloadLimit, uploadLimit } = isAltSpeedActive(settings.altSpeed, now) ? settings.altSpeed : settings;
+  return { downloadLimit, uploadLimit };
+}
+
+/** KB/s as WebTorrent's throttle methods take it: bytes/s, or -1 for no limit. */
+export function toBytesPerSecond(limit: number): number {
+  return limit > 0 ? limit * 1024 : -1;
+}
+
+export function hasSpeedLimits(limits?: SpeedLimits): boolean {
+  return !!limits && (limits.downloadLimit > 0 || limits.uploadLimit > 0);
+}
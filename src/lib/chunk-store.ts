@@ -0,0 +1,270 @@
+// src/lib/chunk-store.ts
+// Persistent chunk stores for the browser WebTorrent client, so partial downloads survive a reload
+// and resume from their verified pieces. Pieces go to the Origin Private File System where the
+// browser can write to it, and to IndexedDB otherwise. Both key a torrent's data by its infohash.
+
+export type StorageBackend = 'opfs' | 'indexeddb' | 'memory';
+
+// What one torrent occupies in the persistent store.
+export interface StoredTorrent {
+  infoHash: string;
+  bytes: number;
+}
+
+export interface StorageEstimate {
+  usage: number; // Bytes used by the whole origin, not just torrents
+  quota: number;
+  persisted: boolean; // Whether the browser has promised not to evict our data under storage pressure
+}
+
+interface ChunkStoreOptions {
+  torrent?: { infoHash: string };
+  length?: number;
+}
+
+interface GetOptions {
+  offset?: number;
+  length?: number;
+}
+
+type Callback<T = void> = (err: Error | null, value?: T) => void;
+
+const OPFS_DIRECTORY = 'torrents';
+const IDB_NAME = 'chillymovies-chunks';
+const IDB_VERSION = 1;
+const IDB_CHUNKS = 'chunks'; // [infoHash, index] -> piece bytes
+const IDB_TORRENTS = 'torrents'; // infoHash -> { chunkLength, length }, for sizing without reading pieces
+
+const noop = () => {};
+
+let backend: StorageBackend | null = null;
+
+/** Where this browser keeps torrent pieces. 'memory' means nothing survives a reload. */
+export function getStorageBackend(): StorageBackend {
+  if (backend) return backend;
+  if (typeof window === 'undefined') return 'memory';
+  const fileHandle = (globalThis as { FileSystemFileHandle?: { prototype: object } }).FileSystemFileHandle;
+  // Safari has OPFS but can only write to it from a worker, so it falls back to IndexedDB.
+  if (typeof navigator.storage?.getDirectory === 'function' && fileHandle && 'createWritable' in fileHandle.prototype) backend = 'opfs';
+  else if (typeof indexedDB !== 'undefined') backend = 'indexeddb';
+  else backend = 'memory';
+  return backend;
+}
+
+function notFound(index: number): Error {
+  return Object.assign(new Error(`Chunk ${index} not found`), { notFound: true });
+}
+
+/**
+ * abstract-chunk-store implementation shared by both backends; subclasses only move bytes.
+ * WebTorrent constructs it with the torrent's piece length and passes itself as `opts.torrent`.
+ */
+abstract class PersistentChunkStore {
+  readonly chunkLength: number;
+  readonly length: number;
+  readonly lastChunkLength: number;
+  readonly lastChunkIndex: number;
+  protected readonly infoHash: string;
+  closed = false;
+
+  constructor(chunkLength: number, opts: ChunkStoreOptions = {}) {
+    this.chunkLength = Number(chunkLength);
+    if (!this.chunkLength) throw new Error('First argument must be a chunk length');
+    if (!opts.torrent?.infoHash) throw new Error('Persistent chunk stores need the torrent');
+    this.infoHash = opts.torrent.infoHash;
+    this.length = Number(opts.length) || Infinity;
+    this.lastChunkLength = this.length % this.chunkLength || this.chunkLength;
+    this.lastChunkIndex = Math.ceil(this.length / this.chunkLength) - 1;
+  }
+
+  protected abstract write(index: number, buf: Uint8Array): Promise<void>;
+  protected abstract read(index: number): Promise<Uint8Array | null>;
+
+  put(index: number, buf: Uint8Array, cb: Callback = noop): void {
+    if (this.closed) return queueMicrotask(() => cb(new Error('Storage is closed')));
+    const expected = index === this.lastChunkIndex ? this.lastChunkLength : this.chunkLength;
+    if (buf.length !== expected) return queueMicrotask(() => cb(new Error(`Chunk length must be ${expected}`)));
+    this.write(index, buf).then(() => cb(null), cb);
+  }
+
+  get(index: number, opts: GetOptions | Callback<Uint8Array> | null, cb: Callback<Uint8Array> = noop): void {
+    if (typeof opts === 'function') return this.get(index, null, opts);
+    if (this.closed) return queueMicrotask(() => cb(new Error('Storage is closed')));
+    this.read(index).then(buf => {
+      if (!buf) return cb(notFound(index));
+      const offset = opts?.offset || 0;
+      const length = opts?.length || buf.length - offset;
+      cb(null, offset === 0 && length === buf.length ? buf : buf.slice(offset, offset + length));
+    }, cb);
+  }
+
+  close(cb: Callback = noop) {
+    this.closed = true;
+    queueMicrotask(() => cb(null));
+  }
+
+  destroy(cb: Callback = noop) {
+    this.closed = true;
+    deleteStoredTorrent(this.infoHash).then(() => cb(null), cb);
+  }
+}
+
+// --- OPFS: one directory per torrent, one file per piece ---
+
+async function getOpfsRoot(): Promise<FileSystemDirectoryHandle> {
+  const origin = await navigator.storage.getDirectory();
+  return origin.getDirectoryHandle(OPFS_DIRECTORY, { create: true });
+}
+
+// Directory iteration is in lib.dom.asynciterable, which this project doesn't load.
+function entriesOf(directory: FileSystemDirectoryHandle): AsyncIterable<FileSystemHandle> {
+  return (directory as FileSystemDirectoryHandle & { values(): AsyncIterable<FileSystemHandle> }).values();
+}
+
+class OpfsChunkStore extends PersistentChunkStore {
+  private directory: Promise<FileSystemDirectoryHandle> | null = null;
+
+  private getDirectory() {
+    if (!this.directory) this.directory = getOpfsRoot().then(root => root.getDirectoryHandle(this.infoHash, { create: true }));
+    return this.directory;
+  }
+
+  protected async write(index: number, buf: Uint8Array) {
+    const file = await (await this.getDirectory()).getFileHandle(String(index), { create: true });
+    const writable = await file.createWritable({ keepExistingData: false });
+    await writable.write(buf);
+    await writable.close();
+  }
+
+  protected async read(index: number) {
+    try {
+      const file = await (await (await this.getDirectory()).getFileHandle(String(index))).getFile();
+      return file.size > 0 ? new Uint8Array(await file.arrayBuffer()) : null;
+    } catch (error) {
+      if ((error as DOMException).name === 'NotFoundError') return null;
+      throw error;
+    }
+  }
+}
+
+async function listOpfsTorrents(): Promise<StoredTorrent[]> {
+  const torrents: StoredTorrent[] = [];
+  for await (const entry of entriesOf(await getOpfsRoot())) {
+    if (entry.kind !== 'directory') continue;
+    let bytes = 0;
+    for await (const piece of entriesOf(entry as FileSystemDirectoryHandle)) {
+      if (piece.kind === 'file') bytes += (await (piece as FileSystemFileHandle).getFile()).size;
+    }
+    torrents.push({ infoHash: entry.name, bytes });
+  }
+  return torrents;
+}
+
+// --- IndexedDB: every torrent's pieces in one object store, keyed [infoHash, index] ---
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IDB_CHUNKS);
+        request.result.createObjectStore(IDB_TORRENTS);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+}
+
+async function runRequest<T>(storeName: string, mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = makeRequest(database.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const chunkRange = (infoHash: string) => IDBKeyRange.bound([infoHash, 0], [infoHash, Infinity]);
+
+class IdbChunkStore extends PersistentChunkStore {
+  private registered: Promise<IDBValidKey> | null = null;
+
+  protected async write(index: number, buf: Uint8Array) {
+    if (!this.registered) {
+      const meta = { chunkLength: this.chunkLength, length: this.length };
+      this.registered = runRequest(IDB_TORRENTS, 'readwrite', store => store.put(meta, this.infoHash));
+    }
+    await this.registered;
+    await runRequest(IDB_CHUNKS, 'readwrite', store => store.put(buf, [this.infoHash, index]));
+  }
+
+  protected async read(index: number) {
+    const value = await runRequest<Uint8Array | undefined>(IDB_CHUNKS, 'readonly', store => store.get([this.infoHash, index]));
+    return value ? new Uint8Array(value) : null;
+  }
+}
+
+async function listIdbTorrents(): Promise<StoredTorrent[]> {
+  const infoHashes = await runRequest(IDB_TORRENTS, 'readonly', store => store.getAllKeys());
+  return Promise.all(infoHashes.map(async key => {
+    const infoHash = String(key);
+    const meta = await runRequest<{ chunkLength: number; length: number } | undefined>(IDB_TORRENTS, 'readonly', store => store.get(infoHash));
+    const chunks = await runRequest(IDB_CHUNKS, 'readonly', store => store.count(chunkRange(infoHash)));
+    // The last piece is usually short, so cap at the torrent's size.
+    return { infoHash, bytes: meta ? Math.min(chunks * meta.chunkLength, meta.length) : 0 };
+  }));
+}
+
+// --- Public API ---
+
+/**
+ * The chunk store class to hand WebTorrent as `opts.store`, or undefined when this browser has
+ * no persistent storage (WebTorrent then keeps pieces in memory, as before).
+ */
+export function getPersistentChunkStore(): (new (chunkLength: number, opts?: ChunkStoreOptions) => PersistentChunkStore) | undefined {
+  const current = getStorageBackend();
+  if (current === 'opfs') return OpfsChunkStore;
+  if (current === 'indexeddb') return IdbChunkStore;
+  return undefined;
+}
+
+/** Every torrent with pieces in the persistent store, and roughly how much space each one takes. */
+export async function listStoredTorrents(): Promise<StoredTorrent[]> {
+  const current = getStorageBackend();
+  if (current === 'opfs') return listOpfsTorrents();
+  if (current === 'indexeddb') return listIdbTorrents();
+  return [];
+}
+
+/** Deletes a torrent's pieces. The torrent must not be running, or it will write them again. */
+export async function deleteStoredTorrent(infoHash: string): Promise<void> {
+  const current = getStorageBackend();
+  if (current === 'opfs') {
+    await (await getOpfsRoot()).removeEntry(infoHash, { recursive: true }).catch(error => {
+      if ((error as DOMException).name !== 'NotFoundError') throw error;
+    });
+  } else if (current === 'indexeddb') {
+    await runRequest(IDB_CHUNKS, 'readwrite', store => store.delete(chunkRange(infoHash)));
+    await runRequest(IDB_TORRENTS, 'readwrite', store => store.delete(infoHash));
+  }
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+  ]);
+  return { usage, quota, persisted };
+}
+
+/** Asks the browser to exempt our data from eviction. Browsers may grant it silently or refuse. */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
@@ -0,0 +1,164 @@
+// src/lib/downloads.ts
+// Maps each engine's own download shape onto the common Download model (src/types/download.ts),
+// so the Downloads page can list browser torrents, server tasks and aria2 tasks side by side.
+// The YouTube downloader is not part of it: its downloads are still stubbed and produce no jobs.
+import type { TorrentProgress, QueuedDownload } from './webtorrent-service';
+import type { Aria2DownloadItemDisplay, Download, DownloadEngine, DownloadStatus } from '../types/download';
+
+// Which statuses a download may move to from each status. Engines report their own states and the
+// adapters translate them, so this is what the UI relies on when it offers actions.
+export const DOWNLOAD_STATUS_TRANSITIONS: Record<DownloadStatus, readonly DownloadStatus[]> = {
+  queued: ['connecting', 'downloading', 'paused', 'failed', 'removed'],
+  connecting: ['downloading', 'stalled', 'paused', 'completed', 'failed', 'removed'],
+  downloading: ['stalled', 'paused', 'seeding', 'completed', 'failed', 'removed'],
+  stalled: ['downloading', 'paused', 'failed', 'removed'],
+  paused: ['queued', 'connecting', 'downloading', 'removed'],
+  seeding: ['completed', 'removed'],
+  completed: ['seeding', 'removed'],
+  failed: ['queued', 'removed'],
+  removed: [],
+};
+
+// Engines that can pause and resume.
+const PAUSABLE_ENGINES: readonly DownloadEngine[] = ['webtorrent', 'server', 'aria2', 'http'];
+
+export function canTransition(from: DownloadStatus, to: DownloadStatus): boolean {
+  return DOWNLOAD_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export interface DownloadActions {
+  pause: boolean;
+  resume: boolean;
+  remove: boolean;
+}
+
+export function getDownloadActions(download: Download): DownloadActions {
+  const pausable = PAUSABLE_ENGINES.includes(download.engine);
+  return {
+    pause: pausable && canTransition(download.status, 'paused'),
+    resume: pausable && download.status === 'paused',
+    remove: canTransition(download.status, 'removed'),
+  };
+}
+
+export const isActiveStatus = (status: DownloadStatus) => status === 'connecting' || status === 'downloading' || status === 'stalled';
+export const isFinishedStatus = (status: DownloadStatus) => status === 'seeding' || status === 'completed';
+
+const downloadId = (engine: DownloadEngine, engineId: string) => `${engine}:${engineId}`;
+
+// --- Adapters ---
+
+const TORRENT_STATUSES: Record<TorrentProgress['status'], DownloadStatus> = {
+  idle: 'connecting',
+  metadata: 'connecting',
+  connecting: 'connecting',
+  downloading: 'downloading',
+  stalled: 'stalled',
+  no_peers: 'stalled',
+  paused: 'paused',
+  seeding: 'seeding',
+  done: 'seeding',
+  completed: 'completed',
+  error: 'failed',
+};
+
+export function fromTorrentProgress(torrent: TorrentProgress): Download {
+  return {
+    id: downloadId('webtorrent', torrent.torrentId),
+    engine: 'webtorrent',
+    engineId: torrent.torrentId,
+    name: torrent.customName || torrent.torrentId,
+    status: TORRENT_STATUSES[torrent.status] || 'connecting',
+    statusDetail: torrent.status === 'no_peers' ? torrent.noPeersReason : undefined,
+    progress: torrent.progress,
+    totalBytes: torrent.length,
+    downloadedBytes: torrent.downloaded,
+    downloadSpeed: torrent.downloadSpeed,
+    uploadSpeed: torrent.uploadSpeed,
+    peers: torrent.peers,
+    eta: torrent.remainingTime !== undefined && Number.isFinite(torrent.remainingTime) ? torrent.remainingTime / 1000 : undefined,
+    addedTime: torrent.addedDate ? new Date(torrent.addedDate).getTime() : undefined,
+  };
+}
+
+export function fromQueuedDownload(item: QueuedDownload, queuePosition: number): Download {
+  return {
+    id: downloadId('webtorrent', item.id),
+    engine: 'webtorrent',
+    engineId: item.id,
+    name: item.name || item.id,
+    status: 'queued',
+    progress: 0,
+    downloadedBytes: 0,
+    downloadSpeed: 0,
+    uploadSpeed: 0,
+    addedTime: new Date(item.queuedDate).getTime(),
+    queuePosition,
+  };
+}
+
+const SERVER_STATUSES: Record<Aria2DownloadItemDisplay['status'], DownloadStatus> = {
+  waiting: 'queued',
+  connecting: 'connecting',
+  active: 'downloading',
+  paused: 'paused',
+  complete: 'completed',
+  error: 'failed',
+  removed: 'removed',
+};
+
+/**
+ * Tasks from the backend ('server' torrents, or 'http' when the item says so) or aria2, which share
+ * one display shape.
+ */
+export function fromServerDownload(item: Aria2DownloadItemDisplay, serverEngine: 'server' | 'aria2'): Download {
+  const engine: DownloadEngine = item.engine === 'http' ? 'http' : serverEngine;
+  const totalBytes = item.totalLength || undefined;
+  const downloadedBytes = item.completedLength || 0;
+  // The backend reports a torrent nobody is sending to as 'waiting'; elsewhere it means queued.
+  const status = engine === 'server' && item.status === 'waiting' ? 'stalled' : SERVER_STATUSES[item.status] || 'queued';
+  return {
+    id: downloadId(engine, item.taskId),
+    engine,
+    engineId: item.taskId,
+    name: item.name,
+    status,
+    statusDetail: item.errorMessage,
+    progress: item.progress / 100,
+    totalBytes,
+    downloadedBytes,
+    downloadSpeed: item.downloadSpeed,
+    uploadSpeed: item.uploadSpeed,
+    peers: item.connections,
+    eta: totalBytes && item.downloadSpeed > 0 ? (totalBytes - downloadedBytes) / item.downloadSpeed : undefined,
+    addedTime: item.addedTime,
+    quality: item.quality,
+  };
+}
+
+// --- Sorting ---
+
+export type DownloadSortKey = 'status' | 'added' | 'name' | 'progress' | 'speed' | 'size';
+export const DOWNLOAD_SORT_KEYS: DownloadSortKey[] = ['status', 'added', 'name', 'progress', 'speed', 'size'];
+
+// Busiest first: what needs attention at the top, finished and failed work at the bottom.
+const STATUS_ORDER: DownloadStatus[] = ['downloading', 'connecting', 'stalled', 'queued', 'paused', 'seeding', 'completed', 'failed', 'removed'];
+
+function compareDownloads(a: Download, b: Download, key: DownloadSortKey): number {
+  switch (key) {
+    case 'status':
+      return STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+        || (a.queuePosition ?? 0) - (b.queuePosition ?? 0)
+        || (a.addedTime || 0) - (b.addedTime || 0);
+    case 'added': return (a.addedTime || 0) - (b.addedTime || 0);
+    case 'name': return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+    case 'progress': return a.progress - b.progress;
+    case 'speed': return a.downloadSpeed - b.downloadSpeed;
+    case 'size': return (a.totalBytes || 0) - (b.totalBytes || 0);
+  }
+}
+
+/** A sorted copy. Ties keep their original order. */
+export function sortDownloads(downloads: Download[], key: DownloadSortKey, descending = false): Download[] {
+  return [...downloads].sort((a, b) => (descending ? -1 : 1) * compareDownloads(a, b, key));
+}
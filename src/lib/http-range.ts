@@ -0,0 +1,41 @@
+// src/lib/http-range.ts
+// Single-range "Range: bytes=..." parsing for the file and streaming endpoints. Shared with the Express backend.
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+/**
+ * Parses a Range header against a resource of `size` bytes.
+ * Returns null when no (usable) range was requested, 'unsatisfiable' for a 416.
+ * Multi-range requests are answered with their first range only.
+ */
+export function parseRangeHeader(rangeHeader: string | null | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!rangeHeader) return null;
+  const match = /^bytes=(\d*)-(\d*)/.exec(rangeHeader.trim());
+  if (!match) return null;
+
+  const [, startStr, endStr] = match;
+  let start: number;
+  let end: number;
+
+  if (startStr === '' && endStr === '') return null;
+  if (startStr === '') {
+    // Suffix range: last N bytes
+    const suffixLength = parseInt(endStr, 10);
+    if (suffixLength === 0) return 'unsatisfiable';
+    start = Math.max(size - suffixLength, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(startStr, 10);
+    end = endStr === '' ? size - 1 : Math.min(parseInt(endStr, 10), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+export function formatContentRange(range: ByteRange, size: number): string {
+  return `bytes ${range.start}-${range.end}/${size}`;
+}
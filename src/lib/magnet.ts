@@ -0,0 +1,60 @@
+// src/lib/magnet.ts
+// Builds magnet links for torrents we only know by infohash (e.g. YTS results), adds the configured
+// trackers to magnets from elsewhere, and reads the infohash back out.
+import { loadTrackerList, preferWebSocketTrackers, normalizeTrackerUrl } from './trackers';
+
+/** The user's tracker list, with the WebSocket trackers a browser can actually use first when running in one. */
+export function getMagnetTrackers(): string[] {
+  const trackers = loadTrackerList();
+  return typeof window === 'undefined' ? trackers : preferWebSocketTrackers(trackers);
+}
+
+export function buildMagnetURI(infoHash: string, displayName?: string, trackers: string[] = getMagnetTrackers()): string {
+  const name = displayName ? `&dn=${encodeURIComponent(displayName)}` : '';
+  const trackerParams = trackers.map(tr => `&tr=${encodeURIComponent(tr)}`).join('');
+  return `magnet:?xt=urn:btih:${infoHash}${name}${trackerParams}`;
+}
+
+/**
+ * Merges the configured trackers into a magnet link from an indexer. The magnet's own trackers are
+ * kept; the combined list is reordered the same way as in buildMagnetURI. Anything that isn't a
+ * magnet link (e.g. a .torrent URL) is returned unchanged.
+ */
+export function withConfiguredTrackers(magnetURI: string, trackers: string[] = getMagnetTrackers()): string {
+  if (!magnetURI.startsWith('magnet:?')) return magnetURI;
+  const params = magnetURI.slice('magnet:?'.length).split('&').filter(Boolean);
+  const ownTrackers = params.filter(param => param.startsWith('tr=')).map(param => {
+    try {
+      return normalizeTrackerUrl(decodeURIComponent(param.slice(3)));
+    } catch {
+      return null;
+    }
+  });
+  const merged = Array.from(new Set([...ownTrackers.filter((url): url is string => !!url), ...trackers]));
+  const ordered = typeof window === 'undefined' ? merged : preferWebSocketTrackers(merged);
+  const otherParams = params.filter(param => !param.startsWith('tr='));
+  return `magnet:?${[...otherParams, ...ordered.map(tr => `tr=${encodeURIComponent(tr)}`)].join('&')}`;
+}
+
+/** The trackers (tr=) a magnet link lists. */
+export function getMagnetURITrackers(magnetURI: string): string[] {
+  if (!magnetURI.startsWith('magnet:?')) return [];
+  return new URLSearchParams(magnetURI.slice('magnet:?'.length)).getAll('tr');
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Lower-case hex infohash of a magnet link or bare infohash, or undefined if there is none.
+ * Base32 hashes (32 characters, used by some indexers) are converted so they compare equal to hex ones.
+ */
+export function getInfoHash(magnetOrInfoHash: string): string | undefined {
+  const match = /(?:^|xt=urn:btih:)([a-z0-9]{40}|[a-z2-7]{32})(?:$|&)/i.exec(magnetOrInfoHash.trim());
+  if (!match) return undefined;
+  const hash = match[1];
+  if (hash.length === 40) return /^[0-9a-f]+$/i.test(hash) ? hash.toLowerCase() : undefined;
+
+  let bits = '';
+  for (const char of hash.toUpperCase()) bits += BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0');
+  return (bits.match(/.{4}/g) || []).map(nibble => parseInt(nibble, 2).toString(16)).join('');
+}
@@ -0,0 +1,55 @@
+// src/lib/media-types.ts
+// Extension-based MIME lookup for the files we stream or serve. Shared with the Express backend.
+
+const MIME_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mkv: 'video/x-matroska',
+  webm: 'video/webm',
+  avi: 'video/x-msvideo',
+  mov: 'video/quicktime',
+  ts: 'video/mp2t',
+  wmv: 'video/x-ms-wmv',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  ogg: 'audio/ogg',
+  opus: 'audio/opus',
+  wav: 'audio/wav',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  txt: 'text/plain',
+  nfo: 'text/plain',
+  torrent: 'application/x-bittorrent',
+};
+
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'mkv', 'webm', 'avi', 'mov', 'ts', 'wmv'];
+const SUBTITLE_EXTENSIONS = ['srt', 'vtt', 'ass', 'ssa', 'sub', 'idx'];
+// Bonus material and previews that ship alongside the real video in release torrents.
+const EXTRA_FILE_PATTERN = /(^|[\W_])(sample|trailer|featurette|extras?|behind[\W_]the[\W_]scenes)([\W_]|$)/i;
+
+function getExtension(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > -1 ? fileName.slice(dotIndex + 1).toLowerCase() : '';
+}
+
+export function getMimeType(fileName: string): string {
+  return MIME_TYPES[getExtension(fileName)] || 'application/octet-stream';
+}
+
+export function isVideoFile(fileName: string): boolean {
+  return VIDEO_EXTENSIONS.includes(getExtension(fileName));
+}
+
+export function isSubtitleFile(fileName: string): boolean {
+  return SUBTITLE_EXTENSIONS.includes(getExtension(fileName));
+}
+
+/** Samples, trailers and other extras, judged by the file name or path. */
+export function isExtraFile(filePath: string): boolean {
+  return EXTRA_FILE_PATTERN.test(filePath);
+}
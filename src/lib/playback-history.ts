@@ -0,0 +1,69 @@
+// src/lib/playback-history.ts
+// Last watched position per movie/episode, kept in localStorage. Cleared from Settings.
+
+const PLAYBACK_HISTORY_STORAGE_KEY = 'chillymovies-playback-history';
+const MIN_RESUME_POSITION = 10; // seconds; anything earlier just starts from the top
+const WATCHED_THRESHOLD = 0.92; // Fraction of the runtime after which credits are all that's left
+
+export interface PlaybackEntry {
+  position: number; // seconds
+  duration?: number; // seconds
+  watched: boolean;
+  updatedAt: number;
+}
+
+type PlaybackHistory = Record<string, PlaybackEntry>;
+
+export const getMoviePlaybackKey = (movieId: string | number) => `movie-${movieId}`;
+export const getEpisodePlaybackKey = (tvId: string | number, seasonNumber: number, episodeNumber: number) =>
+  `tv-${tvId}-s${seasonNumber}e${episodeNumber}`;
+
+function readHistory(): PlaybackHistory {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(PLAYBACK_HISTORY_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeHistory(history: PlaybackHistory) {
+  try {
+    localStorage.setItem(PLAYBACK_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error('Failed to save playback history:', error);
+  }
+}
+
+export function getPlaybackEntry(key: string): PlaybackEntry | undefined {
+  return readHistory()[key];
+}
+
+/** Where to pick up playback, or undefined to start from the beginning. */
+export function getResumePosition(key: string): number | undefined {
+  const entry = getPlaybackEntry(key);
+  if (!entry || entry.watched || entry.position < MIN_RESUME_POSITION) return undefined;
+  return entry.position;
+}
+
+export function isWatched(key: string): boolean {
+  return !!getPlaybackEntry(key)?.watched;
+}
+
+export function savePlaybackPosition(key: string, position: number, duration?: number) {
+  const history = readHistory();
+  const knownDuration = duration && Number.isFinite(duration) ? duration : history[key]?.duration;
+  history[key] = {
+    position,
+    duration: knownDuration,
+    watched: !!history[key]?.watched || (!!knownDuration && position / knownDuration >= WATCHED_THRESHOLD),
+    updatedAt: Date.now(),
+  };
+  writeHistory(history);
+}
+
+export function markWatched(key: string) {
+  const history = readHistory();
+  history[key] = { ...history[key], position: 0, watched: true, updatedAt: Date.now() };
+  writeHistory(history);
+}
@@ -0,0 +1,77 @@
+// src/lib/release-name.ts
+// Reads the scene-style tags out of a torrent/release title, e.g.
+// "Show.Name.S01E03.1080p.WEB-DL.DDP5.1.HDR.H.265-GROUP".
+
+export type Resolution = '2160p' | '1080p' | '720p' | '480p';
+export type ReleaseSource = 'BluRay' | 'WEB-DL' | 'WEBRip' | 'HDTV' | 'DVDRip' | 'CAM';
+export type ReleaseCodec = 'x265' | 'x264' | 'AV1' | 'XviD';
+export type HdrFormat = 'DV' | 'HDR10+' | 'HDR10' | 'HDR';
+
+export interface ParsedRelease {
+  resolution?: Resolution;
+  source?: ReleaseSource;
+  codec?: ReleaseCodec;
+  hdr?: HdrFormat;
+  group?: string;
+}
+
+// Lower index = higher resolution; used to measure how far a release is from the request.
+export const RESOLUTIONS: Resolution[] = ['2160p', '1080p', '720p', '480p'];
+
+const RESOLUTION_PATTERNS: [Resolution, RegExp][] = [
+  ['2160p', /\b(2160p|4k|uhd)\b/i],
+  ['1080p', /\b(1080[pi]|fhd)\b/i],
+  ['720p', /\b(720p|hd)\b/i],
+  ['480p', /\b(480p|576p|sd|dvd)\b/i],
+];
+
+// Order matters: "WEB-DL" must win over the generic "WEB" in WEBRip's pattern.
+const SOURCE_PATTERNS: [ReleaseSource, RegExp][] = [
+  ['CAM', /\b(cam|camrip|hdcam|ts|telesync|hdts|tc|telecine)\b/i],
+  ['BluRay', /\b(blu-?ray|bdrip|brrip|bdremux|remux)\b/i],
+  ['WEB-DL', /\b(web-?dl|amzn|nf|dsnp|hmax|atvp)\b/i],
+  ['WEBRip', /\b(web-?rip|web)\b/i],
+  ['HDTV', /\b(hdtv|pdtv)\b/i],
+  ['DVDRip', /\b(dvd-?rip|dvdscr|dvd5|dvd9)\b/i],
+];
+
+const CODEC_PATTERNS: [ReleaseCodec, RegExp][] = [
+  ['x265', /\b([xh] ?265|hevc)\b/i],
+  ['x264', /\b([xh] ?264|avc)\b/i],
+  ['AV1', /\bav1\b/i],
+  ['XviD', /\b(xvid|divx)\b/i],
+];
+
+const HDR_PATTERNS: [HdrFormat, RegExp][] = [
+  ['DV', /\b(dv|dovi|dolby[ .]?vision)\b/i],
+  ['HDR10+', /\bhdr10(\+|plus)/i],
+  ['HDR10', /\bhdr10\b/i],
+  ['HDR', /\bhdr\b/i],
+];
+
+function firstMatch<T>(patterns: [T, RegExp][], text: string): T | undefined {
+  return patterns.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+export function parseReleaseName(name: string): ParsedRelease {
+  // Dots and underscores are word separators in release names; keep hyphens for "WEB-DL" and the group.
+  const text = name.replace(/[._]/g, ' ');
+  const group = /-\s*([a-z0-9]+)(\s*\[[^\]]*\])?\s*(\.(mkv|mp4|avi))?\s*$/i.exec(name.trim())?.[1];
+
+  return {
+    resolution: firstMatch(RESOLUTION_PATTERNS, text),
+    source: firstMatch(SOURCE_PATTERNS, text),
+    codec: firstMatch(CODEC_PATTERNS, text),
+    hdr: firstMatch(HDR_PATTERNS, text),
+    group: group && !/^(dl|rip)$/i.test(group) ? group : undefined,
+  };
+}
+
+/**
+ * The resolution a quality hint asks for: "1080p (FHD)" -> "1080p", "720p (HD)" -> "720p".
+ * "Any Available", "any" and unknown hints ask for nothing in particular.
+ */
+export function parseQualityHint(hint?: string | null): Resolution | undefined {
+  if (!hint) return undefined;
+  return RESOLUTIONS.find(resolution => hint.toLowerCase().includes(resolution));
+}
@@ -0,0 +1,69 @@
+// src/lib/remote-backend.ts
+// Remote backend mode: the browser talks to a download backend (src/server) directly, with the URL
+// and API key entered on the Settings page. While it's on, downloads started anywhere in the app go
+// to that server instead of the in-browser WebTorrent client.
+import type { BackendConnection } from './backend-client';
+import type { AddTorrentOptions } from './webtorrent-service';
+
+export const REMOTE_BACKEND_STORAGE_KEY = 'chillymovies-remote-backend';
+
+export interface RemoteBackendSettings {
+  enabled: boolean;
+  url: string;
+  apiKey: string;
+}
+
+export const DEFAULT_REMOTE_BACKEND_SETTINGS: RemoteBackendSettings = { enabled: false, url: '', apiKey: '' };
+
+// Add options the backend's POST /download has no equivalent for; the rest are forwarded.
+const REMOTE_UNSUPPORTED_ADD_OPTIONS = ['selectedFiles', 'seedingPolicy'] as const;
+export type RemoteUnsupportedAddOption = typeof REMOTE_UNSUPPORTED_ADD_OPTIONS[number];
+
+/** The options a download would lose by going to the backend, so the UI can say so. */
+export function getUnsupportedRemoteOptions(options?: AddTorrentOptions): RemoteUnsupportedAddOption[] {
+  return REMOTE_UNSUPPORTED_ADD_OPTIONS.filter(option => options?.[option] !== undefined);
+}
+
+/** "http://host:3001" from what the user typed (the scheme is optional), or null if it isn't an http(s) URL. */
+export function normalizeBackendUrl(input: string): string | null {
+  const value = input.trim();
+  if (!value) return null;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`);
+    if ((url.protocol !== 'http:' && url.protocol !== 'https:') || !url.hostname) return null;
+    return `${url.origin}${url.pathname}`.replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+}
+
+export function normalizeRemoteBackendSettings(input: unknown): RemoteBackendSettings {
+  const raw = (input && typeof input === 'object' ? input : {}) as Partial<RemoteBackendSettings>;
+  const url = typeof raw.url === 'string' ? normalizeBackendUrl(raw.url) || '' : '';
+  return {
+    enabled: raw.enabled === true && url !== '',
+    url,
+    apiKey: typeof raw.apiKey === 'string' ? raw.apiKey.trim() : '',
+  };
+}
+
+export function loadRemoteBackendSettings(): RemoteBackendSettings {
+  if (typeof localStorage === 'undefined') return { ...DEFAULT_REMOTE_BACKEND_SETTINGS };
+  try {
+    const stored = localStorage.getItem(REMOTE_BACKEND_STORAGE_KEY);
+    return stored ? normalizeRemoteBackendSettings(JSON.parse(stored)) : { ...DEFAULT_REMOTE_BACKEND_SETTINGS };
+  } catch (error) {
+    console.error('Failed to load remote backend settings:', error);
+    return { ...DEFAULT_REMOTE_BACKEND_SETTINGS };
+  }
+}
+
+export function saveRemoteBackendSettings(settings: RemoteBackendSettings) {
+  localStorage.setItem(REMOTE_BACKEND_STORAGE_KEY, JSON.stringify(normalizeRemoteBackendSettings(settings)));
+}
+
+/** The connection to send downloads to, or null while remote backend mode is off. */
+export function toBackendConnection(settings: RemoteBackendSettings): BackendConnection | null {
+  if (!settings.enabled || !settings.url) return null;
+  return { url: settings.url, apiKey: settings.apiKey || undefined };
+}
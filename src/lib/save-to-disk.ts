@@ -0,0 +1,122 @@
+// src/lib/save-to-disk.ts
+// Exports finished browser downloads to the user's disk. Where the File System Access API exists
+// (Chromium), files are streamed into a folder the user picked once and we remember; elsewhere they
+// become regular browser downloads. Neither path holds a whole file in memory.
+
+const HANDLE_DB_NAME = 'chillymovies-handles';
+const HANDLE_STORE = 'handles';
+const DOWNLOAD_DIRECTORY_KEY = 'downloadDirectory';
+const INVALID_PATH_CHARS = /[<>:"\\|?*\u0000-\u001f]/g;
+
+// A file to write out: WebTorrent's TorrentFile satisfies this.
+export interface SavableFile {
+  name: string;
+  path: string; // Relative path inside the torrent, e.g. "Show S01/Show.S01E01.mkv"
+  length: number;
+  stream(): ReadableStream<Uint8Array>;
+}
+
+export type SaveMethod = 'directory' | 'download';
+
+// Chromium-only parts of the File System Access API that lib.dom doesn't declare yet.
+type PermissionedDirectoryHandle = FileSystemDirectoryHandle & {
+  queryPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+};
+type DirectoryPickerWindow = {
+  showDirectoryPicker(options?: { id?: string; mode?: 'read' | 'readwrite'; startIn?: string }): Promise<FileSystemDirectoryHandle>;
+};
+
+/** Whether this browser can write into a folder of the user's choosing. */
+export function supportsDirectoryAccess(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+}
+
+// Directory handles can't be serialised to localStorage, but IndexedDB stores them as-is.
+function withHandleStore<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const open = indexedDB.open(HANDLE_DB_NAME, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(HANDLE_STORE);
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const database = open.result;
+      const request = makeRequest(database.transaction(HANDLE_STORE, mode).objectStore(HANDLE_STORE));
+      request.onsuccess = () => { resolve(request.result); database.close(); };
+      request.onerror = () => { reject(request.error); database.close(); };
+    };
+  });
+}
+
+/** The remembered download folder, or null if none has been chosen. */
+export async function getDownloadDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  if (!supportsDirectoryAccess()) return null;
+  return (await withHandleStore<FileSystemDirectoryHandle | undefined>('readonly', store => store.get(DOWNLOAD_DIRECTORY_KEY))) || null;
+}
+
+/** Opens the folder picker and remembers the choice. Must run from a click or similar user gesture. */
+export async function chooseDownloadDirectory(): Promise<FileSystemDirectoryHandle> {
+  const directory = await (window as unknown as DirectoryPickerWindow).showDirectoryPicker({ id: 'chillymovies-downloads', mode: 'readwrite', startIn: 'downloads' });
+  await withHandleStore('readwrite', store => store.put(directory, DOWNLOAD_DIRECTORY_KEY));
+  return directory;
+}
+
+export async function forgetDownloadDirectory(): Promise<void> {
+  if (supportsDirectoryAccess()) await withHandleStore('readwrite', store => store.delete(DOWNLOAD_DIRECTORY_KEY));
+}
+
+// Browsers forget folder permissions between sessions; asking again needs a user gesture.
+async function ensureWritable(directory: FileSystemDirectoryHandle): Promise<boolean> {
+  const handle = directory as PermissionedDirectoryHandle;
+  if (await handle.queryPermission({ mode: 'readwrite' }) === 'granted') return true;
+  return (await handle.requestPermission({ mode: 'readwrite' })) === 'granted';
+}
+
+function toPathSegments(path: string): string[] {
+  return path.split(/[\\/]/)
+    .map(segment => segment.replace(INVALID_PATH_CHARS, '_').trim())
+    .filter(segment => segment && segment !== '.' && segment !== '..');
+}
+
+async function createFileHandle(root: FileSystemDirectoryHandle, path: string): Promise<FileSystemFileHandle> {
+  const segments = toPathSegments(path);
+  const fileName = segments.pop() || 'download';
+  let directory = root;
+  for (const segment of segments) directory = await directory.getDirectoryHandle(segment, { create: true });
+  return directory.getFileHandle(fileName, { create: true });
+}
+
+/**
+ * Streams files into the remembered download folder, keeping the torrent's folder layout.
+ * Asks for a folder first if none is remembered yet. Reports progress as a 0-1 fraction.
+ */
+export async function writeFilesToDirectory(files: SavableFile[], onProgress?: (progress: number) => void): Promise<string> {
+  const directory = (await getDownloadDirectory()) || (await chooseDownloadDirectory());
+  if (!(await ensureWritable(directory))) throw new Error(`Permission to write to "${directory.name}" was denied.`);
+
+  const totalBytes = files.reduce((sum, file) => sum + file.length, 0);
+  let writtenBytes = 0;
+  for (const file of files) {
+    const writable = await (await createFileHandle(directory, file.path)).createWritable();
+    const counter = new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        writtenBytes += chunk.byteLength;
+        onProgress?.(totalBytes > 0 ? writtenBytes / totalBytes : 1);
+        controller.enqueue(chunk);
+      },
+    });
+    // pipeTo closes the file when the stream ends and aborts it (discarding the partial write) on error.
+    await file.stream().pipeThrough(counter).pipeTo(writable);
+  }
+  return directory.name;
+}
+
+/** Hands a same-origin URL to the browser's own download manager, which streams it to disk. */
+export function downloadThroughBrowser(url: string, fileName: string) {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.rel = 'noopener';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
@@ -0,0 +1,109 @@
+// src/lib/season-pack.ts
+// Recognises whole-season releases and works out which file in a pack is which episode.
+// Shared by /api/torrents/tv/season, the aria2 routes and the browser client.
+import { isVideoFile, isExtraFile } from './media-types';
+import type { RankedTorrent } from './torrent-ranking';
+
+export interface SeasonEpisodeInfo {
+  episodeNumber: number;
+  name: string;
+  airDate: string | null;
+}
+
+// Response of GET /api/torrents/tv/season.
+export interface SeasonTorrentSearchResponse {
+  seasonNumber: number;
+  episodes: SeasonEpisodeInfo[]; // The episodes a complete download must contain
+  pack: RankedTorrent | null;
+  candidates: RankedTorrent[]; // Other packs that passed validation, best first
+  fallback: { episodeNumber: number; magnet: string | null; title?: string }[]; // Per-episode sources when there is no pack
+}
+
+export interface EpisodeFileMapping {
+  files: Record<number, number>; // episodeNumber -> file index in the torrent
+  missing: number[]; // Expected episodes without a file
+}
+
+/** Episode number a file or release name refers to, for the given season. */
+export function parseEpisodeNumber(name: string, seasonNumber: number): number | undefined {
+  const patterns = [
+    new RegExp(`s0*${seasonNumber}[ ._-]?e0*(\\d{1,3})(?!\\d)`, 'i'),
+    new RegExp(`(?:^|[^\\d])0*${seasonNumber}x0*(\\d{1,3})(?!\\d)`, 'i'),
+    // Only a spelled-out "Episode 5" / "Ep 5": a bare "E1" is too often part of a group tag ("-E1T").
+    /\b(?:episode|ep)[ ._-]?0*(\d{1,3})(?!\d)/i,
+  ];
+  for (const pattern of patterns) {
+    const match = pattern.exec(name);
+    if (match) return Number(match[1]);
+  }
+  return undefined;
+}
+
+/** First and last episode of a ranged release ("S01E01-E08", "S01E01-08"), or null. */
+export function getEpisodeRange(title: string, seasonNumber: number): [number, number] | null {
+  const match = new RegExp(`s0*${seasonNumber}[ ._-]?e0*(\\d{1,3})[ ._]?-[ ._]?e?0*(\\d{1,3})(?!\\d)`, 'i').exec(title);
+  return match ? [Number(match[1]), Number(match[2])] : null;
+}
+
+/** Every season number a release title names ("S03", "Season 3"), in order. */
+function getNamedSeasons(title: string): number[] {
+  return [...title.matchAll(/(?:\bs|season[ ._-]?)0*(\d{1,2})(?!\d)/gi)].map(match => Number(match[1]));
+}
+
+/**
+ * True when a release title looks like all of `seasonNumber`: "S02", "Season 2" or
+ * "Complete", and not a single episode or another season. A ranged title must cover every
+ * expected episode.
+ */
+export function isSeasonPackRelease(title: string, seasonNumber: number, episodeNumbers: number[]): boolean {
+  const range = getEpisodeRange(title, seasonNumber);
+  if (range) {
+    return episodeNumbers.every(episode => episode >= range[0] && episode <= range[1]);
+  }
+  if (parseEpisodeNumber(title, seasonNumber) !== undefined) return false;
+  if (getNamedSeasons(title).some(season => season !== seasonNumber)) return false;
+
+  const namesSeason = new RegExp(`(s0*${seasonNumber}(?![\\de])|season[ ._-]?0*${seasonNumber}(?!\\d))`, 'i').test(title);
+  return namesSeason || /\bcomplete\b/i.test(title);
+}
+
+/**
+ * True when a release title claims to hold a whole series: a season range covering every
+ * listed season ("S01-S05", "Seasons 1-5"), or "Complete" without naming a single season.
+ */
+export function isCompleteSeriesRelease(title: string, seasonNumbers: number[]): boolean {
+  if (/s\d{1,2}[ ._-]?e\d{1,3}/i.test(title)) return false;
+
+  const range = /(?:s|seasons?[ ._-]?)0*(\d{1,2})[ ._]?(?:-|to)[ ._]?(?:s|seasons?[ ._-]?)?0*(\d{1,2})(?!\d)/i.exec(title);
+  if (range) {
+    const [first, last] = [Number(range[1]), Number(range[2])];
+    return seasonNumbers.every(season => season >= first && season <= last);
+  }
+  const namesOneSeason = /(\bs\d{1,2}(?!\d)|season[ ._-]?\d)/i.test(title);
+  return /\bcomplete\b/i.test(title) && !namesOneSeason;
+}
+
+/**
+ * Maps the video files of a downloaded pack's metadata to episode numbers. When several
+ * files claim the same episode (e.g. a sample slipped through), the largest one wins.
+ */
+export function mapEpisodeFiles(
+  files: { name: string; length: number }[],
+  seasonNumber: number,
+  episodeNumbers: number[]
+): EpisodeFileMapping {
+  const mapped: Record<number, number> = {};
+  files.forEach((file, index) => {
+    const baseName = file.name.split(/[\\/]/).pop() || file.name;
+    if (!isVideoFile(baseName) || isExtraFile(baseName)) return;
+    const episode = parseEpisodeNumber(baseName, seasonNumber);
+    if (episode === undefined) return;
+    const current = mapped[episode];
+    if (current === undefined || files[current].length < file.length) mapped[episode] = index;
+  });
+
+  return {
+    files: mapped,
+    missing: episodeNumbers.filter(episode => mapped[episode] === undefined),
+  };
+}
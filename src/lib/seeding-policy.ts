@@ -0,0 +1,59 @@
+// src/lib/seeding-policy.ts
+// When a finished download stops uploading to other peers. Set globally on the Settings
+// page and optionally overridden per torrent from the Downloads page.
+
+export type SeedingMode =
+  | 'while_open' // Keep seeding until the tab is closed
+  | 'ratio' // Stop once uploaded / downloaded reaches `ratio`
+  | 'time'; // Stop after `hours` of seeding
+
+export interface SeedingPolicy {
+  mode: SeedingMode;
+  ratio: number;
+  hours: number;
+}
+
+export type SeedingStopReason = 'ratio' | 'time';
+
+export const SEEDING_POLICY_STORAGE_KEY = 'chillymovies-seeding-policy';
+export const SEEDING_MODES: SeedingMode[] = ['while_open', 'ratio', 'time'];
+
+// Matches what the app did before seeding rules existed.
+export const DEFAULT_SEEDING_POLICY: SeedingPolicy = { mode: 'while_open', ratio: 1, hours: 24 };
+
+function toPositive(value: unknown, fallback: number): number {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : fallback;
+}
+
+/** Fills in defaults and drops anything malformed. */
+export function normalizeSeedingPolicy(input: unknown): SeedingPolicy {
+  const value = (input && typeof input === 'object' ? input : {}) as Partial<SeedingPolicy>;
+  return {
+    mode: SEEDING_MODES.includes(value.mode as SeedingMode) ? (value.mode as SeedingMode) : DEFAULT_SEEDING_POLICY.mode,
+    ratio: toPositive(value.ratio, DEFAULT_SEEDING_POLICY.ratio),
+    hours: toPositive(value.hours, DEFAULT_SEEDING_POLICY.hours),
+  };
+}
+
+export function loadSeedingPolicy(): SeedingPolicy {
+  if (typeof localStorage === 'undefined') return DEFAULT_SEEDING_POLICY;
+  try {
+    const stored = localStorage.getItem(SEEDING_POLICY_STORAGE_KEY);
+    return normalizeSeedingPolicy(stored ? JSON.parse(stored) : null);
+  } catch (error) {
+    console.error('Failed to load seeding policy:', error);
+    return DEFAULT_SEEDING_POLICY;
+  }
+}
+
+export function saveSeedingPolicy(policy: SeedingPolicy) {
+  localStorage.setItem(SEEDING_POLICY_STORAGE_KEY, JSON.stringify(policy));
+}
+
+/** Why a torrent that has been seeding for `seedingMs` at share ratio `ratio` should stop now, or null to keep going. */
+export function getSeedingStopReason(policy: SeedingPolicy, ratio: number, seedingMs: number): SeedingStopReason | null {
+  if (policy.mode === 'ratio' && ratio >= policy.ratio) return 'ratio';
+  if (policy.mode === 'time' && seedingMs >= policy.hours * 60 * 60 * 1000) return 'time';
+  return null;
+}
@@ -0,0 +1,200 @@
+// src/lib/series-downloads.ts
+// Server-side orchestration of whole-season and whole-series downloads on aria2.
+// Batch jobs live in memory for the lifetime of the Next.js server process.
+import { aria2Client } from './aria2';
+import { getTvSeriesDetails } from './tmdb';
+import { searchTorrents, findSeasonTorrents, findCompleteSeriesPack, formatEpisodeCode } from './torrent-search';
+import { rankTorrents } from './torrent-ranking';
+import { mapEpisodeFiles } from './season-pack';
+import type { SeriesBatchJob, SeriesBatchSeason } from '@/types/download';
+
+const PACK_METADATA_POLL_INTERVAL = 5000;
+const PACK_METADATA_TIMEOUT = 3 * 60 * 1000;
+const SEASON_CONCURRENCY = 2; // Seasons resolved at once; each may fan out into per-episode searches
+const MAX_KEPT_JOBS = 20;
+
+export interface SeasonPackTarget {
+  seriesTitle: string;
+  season: number;
+  episodes: number[];
+  quality?: string;
+}
+
+/**
+ * Waits for a season pack's metadata, maps its files to episodes and queues a per-episode
+ * download for every expected episode the pack turns out not to contain.
+ * Resolves with the GIDs it queued and the episodes nothing was found for.
+ */
+export async function completeSeasonPack(taskId: string, target: SeasonPackTarget): Promise<{ taskIds: string[]; missing: number[] }> {
+  const { seriesTitle, season, episodes, quality } = target;
+  const deadline = Date.now() + PACK_METADATA_TIMEOUT;
+
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, PACK_METADATA_POLL_INTERVAL));
+    const status = await aria2Client.tellEffectiveStatus(taskId);
+    if (status.status === 'error' || status.status === 'removed') break;
+    // The metadata-only task has a single "[METADATA]" entry; the real download lists the pack's files.
+    const files = (status.files || []).filter(f => f.path && !f.path.startsWith('[METADATA]'));
+    if (files.length === 0) continue;
+
+    const mapping = mapEpisodeFiles(files.map(f => ({ name: f.path, length: Number(f.length) })), season, episodes);
+    console.log(`[SeriesDownloads] Season pack ${taskId} mapped ${Object.keys(mapping.files).length}/${episodes.length} episodes. Missing: ${mapping.missing.join(', ') || 'none'}`);
+
+    const taskIds: string[] = [];
+    const missing: number[] = [];
+    for (const episode of mapping.missing) {
+      const [best] = rankTorrents(await searchTorrents({ kind: 'episode', title: seriesTitle, season, episode }), { quality, kind: 'episode' });
+      if (!best) {
+        console.warn(`[SeriesDownloads] No torrent found for missing episode ${formatEpisodeCode(season, episode)} of ${seriesTitle}.`);
+        missing.push(episode);
+        continue;
+      }
+      const episodeTaskId = await aria2Client.addUri([best.magnet]);
+      console.log(`[SeriesDownloads] Queued missing episode ${formatEpisodeCode(season, episode)} as GID ${episodeTaskId}`);
+      taskIds.push(episodeTaskId);
+    }
+    return { taskIds, missing };
+  }
+
+  console.warn(`[SeriesDownloads] Gave up waiting for season pack metadata for ${taskId}.`);
+  return { taskIds: [], missing: [] };
+}
+
+const jobs = new Map<string, SeriesBatchJob>();
+
+export function getSeriesBatch(jobId: string): SeriesBatchJob | undefined {
+  return jobs.get(jobId);
+}
+
+/** Newest first. */
+export function listSeriesBatches(): SeriesBatchJob[] {
+  return Array.from(jobs.values()).sort((a, b) => b.createdTime - a.createdTime);
+}
+
+function updateSeason(job: SeriesBatchJob, season: SeriesBatchSeason, changes: Partial<SeriesBatchSeason>) {
+  Object.assign(season, changes);
+  job.updatedTime = Date.now();
+}
+
+async function resolveSeason(job: SeriesBatchJob, season: SeriesBatchSeason): Promise<void> {
+  updateSeason(job, season, { state: 'resolving' });
+  const result = await findSeasonTorrents(job.seriesId, job.seriesTitle, season.seasonNumber, job.quality);
+
+  if (result.pack) {
+    const taskId = await aria2Client.addUri([result.pack.magnet]);
+    console.log(`[SeriesDownloads] ${job.seriesTitle} ${formatEpisodeCode(season.seasonNumber)}: queued pack "${result.pack.title}" as GID ${taskId}`);
+    updateSeason(job, season, { state: 'queued', source: 'season_pack', taskIds: [taskId] });
+
+    // Top up episodes the pack lacks once its file list is known; the job itself doesn't wait for this.
+    completeSeasonPack(taskId, {
+      seriesTitle: job.seriesTitle,
+      season: season.seasonNumber,
+      episodes: result.episodes.map(e => e.episodeNumber),
+      quality: job.quality,
+    })
+      .then(({ taskIds, missing }) => updateSeason(job, season, { taskIds: [...season.taskIds, ...taskIds], missingEpisodes: missing }))
+      .catch(error => console.error(`[SeriesDownloads] Season pack follow-up failed for ${taskId}:`, error));
+    return;
+  }
+
+  const taskIds: string[] = [];
+  const missingEpisodes: number[] = [];
+  for (const episode of result.fallback) {
+    if (!episode.magnet) {
+      missingEpisodes.push(episode.episodeNumber);
+      continue;
+    }
+    taskIds.push(await aria2Client.addUri([episode.magnet]));
+  }
+  console.log(`[SeriesDownloads] ${job.seriesTitle} ${formatEpisodeCode(season.seasonNumber)}: queued ${taskIds.length} episode(s), ${missingEpisodes.length} not found`);
+  updateSeason(job, season, {
+    state: taskIds.length > 0 ? 'queued' : 'not_found',
+    source: 'episodes',
+    taskIds,
+    missingEpisodes,
+  });
+}
+
+async function runSeriesBatch(job: SeriesBatchJob): Promise<void> {
+  const seasonNumbers = job.seasons.map(s => s.seasonNumber);
+
+  if (job.seasons.length > 1) {
+    const seriesPack = await findCompleteSeriesPack(job.seriesTitle, seasonNumbers, job.quality).catch(() => null);
+    if (seriesPack) {
+      const taskId = await aria2Client.addUri([seriesPack.magnet]);
+      console.log(`[SeriesDownloads] ${job.seriesTitle}: queued complete series pack "${seriesPack.title}" as GID ${taskId}`);
+      job.seasons.forEach(season => updateSeason(job, season, { state: 'queued', source: 'series_pack', taskIds: [taskId] }));
+      return;
+    }
+  }
+
+  // A small worker pool: each worker takes the next unresolved season until none are left.
+  let next = 0;
+  const worker = async () => {
+    while (next < job.seasons.length) {
+      const season = job.seasons[next++];
+      try {
+        await resolveSeason(job, season);
+      } catch (error) {
+        console.error(`[SeriesDownloads] ${job.seriesTitle} ${formatEpisodeCode(season.seasonNumber)} failed:`, error);
+        updateSeason(job, season, { state: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(SEASON_CONCURRENCY, job.seasons.length) }, worker));
+}
+
+export interface SeriesBatchOptions {
+  seriesId: number | string;
+  seriesTitle: string;
+  quality: string;
+  includeSpecials?: boolean;
+}
+
+/**
+ * Creates a batch job for every season of a series (season 0, "Specials", only when asked)
+ * and starts resolving it in the background. Resolves once the season list is known.
+ */
+export async function startSeriesBatch(options: SeriesBatchOptions): Promise<SeriesBatchJob> {
+  const series = await getTvSeriesDetails(options.seriesId);
+  const seasons = series.seasons
+    .filter(s => s.episode_count > 0 && (options.includeSpecials || s.season_number > 0))
+    .sort((a, b) => a.season_number - b.season_number);
+
+  const now = Date.now();
+  const job: SeriesBatchJob = {
+    jobId: `series-${options.seriesId}-${now}`,
+    seriesId: options.seriesId,
+    seriesTitle: options.seriesTitle,
+    quality: options.quality,
+    includeSpecials: !!options.includeSpecials,
+    state: 'resolving',
+    createdTime: now,
+    updatedTime: now,
+    seasons: seasons.map(s => ({
+      seasonNumber: s.season_number,
+      name: s.name,
+      episodeCount: s.episode_count,
+      state: 'pending',
+      taskIds: [],
+      missingEpisodes: [],
+    })),
+  };
+
+  jobs.set(job.jobId, job);
+  for (const oldJob of listSeriesBatches().slice(MAX_KEPT_JOBS)) jobs.delete(oldJob.jobId);
+
+  runSeriesBatch(job)
+    .then(() => {
+      job.state = job.seasons.every(s => s.state === 'failed' || s.state === 'not_found') ? 'failed' : 'done';
+      job.updatedTime = Date.now();
+    })
+    .catch(error => {
+      console.error(`[SeriesDownloads] Batch ${job.jobId} failed:`, error);
+      job.state = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+      job.updatedTime = Date.now();
+    });
+
+  return job;
+}
@@ -0,0 +1,36 @@
+// src/lib/streaming.ts
+// Picks what to stream when the user just presses Play.
+import type { YTSMovieTorrent } from '@/types/tmdb';
+
+export const PREFERRED_STREAMING_QUALITY_STORAGE_KEY = 'chillymovies-preferred-streaming-quality';
+const DEFAULT_STREAMING_QUALITY = '1080p'; // Same default as the Settings page
+
+export function getPreferredStreamingQuality(): string {
+  if (typeof localStorage === 'undefined') return DEFAULT_STREAMING_QUALITY;
+  return localStorage.getItem(PREFERRED_STREAMING_QUALITY_STORAGE_KEY) || DEFAULT_STREAMING_QUALITY;
+}
+
+const bySeeds = (a: YTSMovieTorrent, b: YTSMovieTorrent) => b.seeds - a.seeds;
+
+/**
+ * The best-seeded torrent in the preferred quality, otherwise the best-seeded torrent overall.
+ * 3D releases are only picked when they are all there is.
+ */
+export function selectStreamingTorrent(torrents: YTSMovieTorrent[] | undefined, preferredQuality: string = getPreferredStreamingQuality()): YTSMovieTorrent | null {
+  if (!torrents || torrents.length === 0) return null;
+  const flat = torrents.filter(t => t.quality !== '3D');
+  const candidates = (flat.length > 0 ? flat : torrents).slice().sort(bySeeds);
+
+  if (preferredQuality !== 'any') {
+    const preferred = candidates.find(t => t.quality === preferredQuality && t.seeds > 0);
+    if (preferred) return preferred;
+  }
+  return candidates[0];
+}
+
+/** True for file names like "Show.S01E03.mkv", "show_s1e3_720p.mp4" or "Show 1x03.avi". */
+export function matchesEpisode(fileName: string, seasonNumber: number, episodeNumber: number): boolean {
+  const seasonEpisode = new RegExp(`s0*${seasonNumber}[ ._-]?e0*${episodeNumber}(?!\\d)`, 'i');
+  const crossFormat = new RegExp(`(^|[^\\d])0*${seasonNumber}x0*${episodeNumber}(?!\\d)`, 'i');
+  return seasonEpisode.test(fileName) || crossFormat.test(fileName);
+}
@@ -1,32 +1,13 @@
 // src/lib/tmdb.ts
-import type { TMDBMovie, TMDBPaginatedResponse, TMDBBaseMovie, TMDBTVSeries, TMDBBaseTVSeries, TMDBTvSeasonDetails, TMDBMultiPaginatedResponse, TMDBVideoResponse, TMDBGenre, TMDBDiscoverFilters, YTSMovieTorrent } from '@/types/tmdb';
+import type { TMDBMovie, TMDBPaginatedResponse, TMDBBaseMovie, TMDBTVSeries, TMDBBaseTVSeries, TMDBTvSeasonDetails, TMDBMultiPaginatedResponse, TMDBVideoResponse, TMDBGenre, TMDBDiscoverFilters } from '@/types/tmdb';
+import type { SeasonTorrentSearchResponse } from '@/lib/season-pack';
+import { withConfiguredTrackers } from '@/lib/magnet';
 
 const API_KEY = process.env.NEXT_PUBLIC_TMDB_API_KEY;
 const BASE_URL = 'https://api.themoviedb.org/3';
 export const IMAGE_BASE_URL = 'https://image.tmdb.org/t/p/';
 
 
-interface YTSMovieDetail {
-  id: number;
-  imdb_code: string;
-  title: string;
-  year: number;
-  torrents: YTSMovieTorrent[];
-}
-
-interface YTSResponseData {
-  movie_count: number;
-  limit: number;
-  page_number: number;
-  movies?: YTSMovieDetail[];
-}
-
-interface YTSResponse {
-  status: string;
-  status_message: string;
-  data: YTSResponseData;
-}
-
 async function fetchTMDB<T>(endpoint: string, params: Record<string, string | number | boolean> = {}): Promise<T> {
   if (!API_KEY) {
     console.error('NEXT_PUBLIC_TMDB_API_KEY is not defined. Please set it in .env or environment variables.');
@@ -108,30 +89,6 @@ export async function getMovieDetails(movieId: number | string): Promise<TMDBMov
   console.log(`[TMDB Fetch] Movie Details for ID: ${movieId}`);
   const movieDetails = await fetchTMDB<TMDBMovie>(`movie/${movieId}`, { append_to_response: 'videos,external_ids' });
 
-  if (movieDetails.imdb_id) {
-    console.log(`[YTS Search] Attempting for IMDB ID: ${movieDetails.imdb_id} for movie: ${movieDetails.title}`);
-    try {
-      const ytsQueryUrl = `https://yts.mx/api/v2/list_movies.json?query_term=${movieDetails.imdb_id}&limit=1`;
-      const ytsResponse = await fetch(ytsQueryUrl, { next: { revalidate: 3600 } }); // Revalidate YTS results hourly
-      
-      if (!ytsResponse.ok) {
-        console.warn(`[YTS Search] API request failed for ${movieDetails.imdb_id}. Status: ${ytsResponse.status}`);
-      } else {
-        const ytsData: YTSResponse = await ytsResponse.json();
-        if (ytsData.status === 'ok' && ytsData.data?.movies && ytsData.data.movies.length > 0) {
-          const movie = ytsData.data.movies[0];
-          if (movie.torrents && movie.torrents.length > 0) {
-            console.log(`[YTS Search] Found ${movie.torrents.length} torrents for ${movieDetails.title}`);
-            movieDetails.torrents = movie.torrents.sort((a, b) => (b.seeds || 0) - (a.seeds || 0));
-          }
-        } else {
-            console.log(`[YTS Search] No movie found on YTS for IMDB ID ${movieDetails.imdb_id}`);
-        }
-      }
-    } catch (error) {
-      console.error(`[YTS Search] Error fetching from YTS for ${movieDetails.imdb_id}:`, error);
-    }
-  }
   return movieDetails;
 }
 
@@ -156,7 +113,7 @@ export async function getTvSeasonDetails(tvId: number | string, seasonNumber: nu
 }
 
 export async function getEpisodeMagnetLink(seriesTitle: string, seasonNumber: number, episodeNumber: number, qualityHint?: string): Promise<string | null> {
-  // The qualityHint is conceptual for now; the backend /api/torrents/tv needs to support it.
+  // /api/torrents/tv ranks releases by qualityHint (e.g. "1080p (FHD)"), seeds and size; this takes the top one.
   const queryParams = new URLSearchParams({
     title: seriesTitle,
     season: String(seasonNumber),
@@ -179,13 +136,46 @@ export async function getEpisodeMagnetLink(seriesTitle: string, seasonNumber: nu
       return null;
     }
     console.log(`[getEpisodeMagnetLink] Found magnet: ${data.magnet ? data.magnet.substring(0,60)+'...' : 'None'}`);
-    return data.magnet || null;
+    return data.magnet ? withConfiguredTrackers(data.magnet) : null;
   } catch (error) {
     console.error(`[getEpisodeMagnetLink] Network error:`, error);
     return null;
   }
 }
 
+/**
+ * A validated whole-season pack for the aired episodes of a season, or per-episode
+ * sources when no pack exists. Null when nothing at all was found.
+ */
+export async function getSeasonTorrents(tvId: number | string, seriesTitle: string, seasonNumber: number, qualityHint?: string): Promise<SeasonTorrentSearchResponse | null> {
+  const queryParams = new URLSearchParams({
+    tvId: String(tvId),
+    title: seriesTitle,
+    season: String(seasonNumber),
+  });
+  if (qualityHint) queryParams.set('quality', qualityHint);
+
+  const apiUrl = `/api/torrents/tv/season?${queryParams.toString()}`;
+  try {
+    console.log(`[getSeasonTorrents] Fetching from: ${apiUrl}`);
+    const response = await fetch(apiUrl, { cache: 'no-store' });
+    if (!response.ok) {
+      console.warn(`[getSeasonTorrents] No torrents for S${String(seasonNumber).padStart(2, '0')}: ${response.status}`);
+      return null;
+    }
+    const data: SeasonTorrentSearchResponse = await response.json();
+    return {
+      ...data,
+      pack: data.pack && { ...data.pack, magnet: withConfiguredTrackers(data.pack.magnet) },
+      candidates: data.candidates.map(candidate => ({ ...candidate, magnet: withConfiguredTrackers(candidate.magnet) })),
+      fallback: data.fallback.map(episode => ({ ...episode, magnet: episode.magnet && withConfiguredTrackers(episode.magnet) })),
+    };
+  } catch (error) {
+    console.error(`[getSeasonTorrents] Network error:`, error);
+    return null;
+  }
+}
+
 export async function searchMulti(query: string, page: number = 1): Promise<TMDBMultiPaginatedResponse> {
   if (!query.trim()) {
     return { page: 1, results: [], total_pages: 0, total_results: 0 };
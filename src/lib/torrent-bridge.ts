@@ -0,0 +1,35 @@
+// src/lib/torrent-bridge.ts
+// Browser side of the hybrid bridge: browsers can only reach WebRTC peers, so for a torrent
+// nobody is seeding over WebRTC we ask the download backend to join the TCP/UDP swarm and hand
+// the data back over HTTP as a web seed (or over WebRTC, once it shows up on the WebSocket trackers).
+
+export type BridgeState = 'requesting' | 'active' | 'failed';
+
+export interface Bridge {
+  taskId: string;
+  webSeedUrl: string; // Absolute, ready for torrent.addWebSeed()
+  created: boolean; // False when the backend was already downloading it for its own sake
+}
+
+const BRIDGE_API_URL = '/api/bridge';
+
+/** Asks the backend to bridge a torrent. Rejects with the backend's reason, e.g. when it isn't running. */
+export async function requestBridge(magnetURI: string, name?: string): Promise<Bridge> {
+  const response = await fetch(BRIDGE_API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ magnetURI, name }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+  return { taskId: data.taskId, created: data.created, webSeedUrl: new URL(data.webSeedUrl, window.location.origin).href };
+}
+
+/** Lets the backend drop a bridge the browser no longer needs. Failures only get logged. */
+export async function releaseBridge(infoHash: string): Promise<void> {
+  try {
+    await fetch(`${BRIDGE_API_URL}/${infoHash}`, { method: 'DELETE' });
+  } catch (error) {
+    console.warn('Could not release bridge:', infoHash, error);
+  }
+}
@@ -0,0 +1,206 @@
+// src/lib/torrent-inspector.ts
+// Read-only views of a running torrent's internals (peers, trackers, piece availability) for the
+// details drawer. Tracker outcomes are only ever emitted as events, so they are recorded from the
+// moment the torrent is added.
+import type { Torrent } from 'webtorrent';
+import type { Wire } from 'bittorrent-protocol';
+
+export type TrackerStatus = 'pending' | 'working' | 'error';
+
+export interface TrackerInfo {
+  url: string;
+  status: TrackerStatus;
+  seeders?: number; // As reported by the tracker's last announce
+  leechers?: number;
+  lastAnnounce?: string;
+  message?: string; // Last error or warning from this tracker
+}
+
+export interface PeerInfo {
+  id: string;
+  address: string;
+  client: string;
+  type: Wire['type'];
+  downloadSpeed: number;
+  uploadSpeed: number;
+  progress: number; // Share of the torrent the peer has, 0-1
+  peerChoking: boolean; // The peer refuses to send us data right now
+  peerInterested: boolean; // The peer wants data from us
+}
+
+export interface TorrentWarning {
+  time: string;
+  message: string;
+}
+
+export interface TorrentInspection {
+  infoHash: string;
+  name: string;
+  magnetURI: string;
+  created?: string; // When the .torrent was made, if it says
+  createdBy?: string;
+  comment?: string;
+  pieceLength: number;
+  // One entry per piece: -1 once we have it, otherwise how many connected peers do.
+  pieces: number[];
+  peers: PeerInfo[];
+  trackers: TrackerInfo[];
+  warnings: TorrentWarning[]; // Most recent last
+}
+
+// Runtime members @types/webtorrent doesn't declare.
+type InspectableTorrent = Torrent & {
+  wires: Wire[];
+  bitfield?: { get(index: number): boolean };
+  created?: Date;
+  createdBy?: string;
+  comment?: string;
+  discovery?: { tracker?: TrackerClient | null } | null;
+};
+type TrackerClient = {
+  on(event: 'update', listener: (data: { announce: string; complete?: number; incomplete?: number }) => void): void;
+};
+
+interface InspectorState {
+  trackers: Map<string, TrackerInfo>;
+  warnings: TorrentWarning[];
+  trackerClient?: TrackerClient;
+}
+
+const MAX_WARNINGS = 20;
+
+// Azureus-style peer id prefixes ("-qB4650-") of clients people are likely to meet.
+const PEER_CLIENTS: Record<string, string> = {
+  AZ: 'Vuze', BC: 'BitComet', BT: 'BitTorrent', DE: 'Deluge', FD: 'Free Download Manager', KT: 'KTorrent',
+  LT: 'libtorrent', lt: 'rTorrent', qB: 'qBittorrent', TR: 'Transmission', TX: 'Tixati', UT: 'µTorrent', UM: 'µTorrent Mac',
+  WD: 'WebTorrent Desktop', WW: 'WebTorrent',
+};
+
+const inspectors = new WeakMap<Torrent, InspectorState>();
+
+const stripTrailingSlash = (url: string) => url.replace(/\/$/, '');
+
+function getTracker(state: InspectorState, url: string): TrackerInfo {
+  const key = stripTrailingSlash(url);
+  let tracker = state.trackers.get(key);
+  if (!tracker) {
+    tracker = { url: key, status: 'pending' };
+    state.trackers.set(key, tracker);
+  }
+  return tracker;
+}
+
+// Discovery (and with it the tracker client) only exists once the infohash is known, and is replaced on restart.
+function watchTrackerClient(torrent: InspectableTorrent, state: InspectorState) {
+  const trackerClient = torrent.discovery?.tracker;
+  if (!trackerClient || trackerClient === state.trackerClient) return;
+  state.trackerClient = trackerClient;
+  trackerClient.on('update', data => {
+    Object.assign(getTracker(state, data.announce), {
+      status: 'working',
+      seeders: data.complete,
+      leechers: data.incomplete,
+      lastAnnounce: new Date().toISOString(),
+      message: undefined,
+    });
+  });
+}
+
+/**
+ * Starts recording tracker responses and warnings for a torrent. Call it right after client.add(),
+ * since warnings about unusable trackers fire as soon as discovery starts.
+ */
+export function attachTorrentInspector(torrent: Torrent) {
+  if (inspectors.has(torrent)) return;
+  const state: InspectorState = { trackers: new Map(), warnings: [] };
+  inspectors.set(torrent, state);
+
+  torrent.on('warning', (err: Error | string) => {
+    const message = typeof err === 'string' ? err : err.message;
+    state.warnings.push({ time: new Date().toISOString(), message });
+    if (state.warnings.length > MAX_WARNINGS) state.warnings.shift();
+    // Most tracker errors name the tracker; pin those on it.
+    const url = (torrent.announce || []).find(announce => message.includes(stripTrailingSlash(announce)));
+    if (url) Object.assign(getTracker(state, url), { status: 'error', message });
+  });
+  const watch = () => watchTrackerClient(torrent as InspectableTorrent, state);
+  // WebTorrent starts discovery straight after emitting 'infoHash' when the client is already listening.
+  torrent.on('infoHash', () => queueMicrotask(watch));
+  torrent.on('ready', watch);
+  // 'trackerAnnounce' is missing from the typings.
+  (torrent as unknown as NodeJS.EventEmitter).on('trackerAnnounce', watch);
+}
+
+/** "qBittorrent 4.6.5.0" from a hex peer id, or the raw prefix for clients we don't know. */
+export function describePeerClient(peerId?: string): string {
+  if (!peerId) return '';
+  const prefix = Array.from(peerId.slice(0, 16).match(/../g) || [], byte => String.fromCharCode(parseInt(byte, 16))).join('');
+  const match = prefix.match(/^-([A-Za-z~]{2})([0-9A-Za-z]{4})-/);
+  if (!match) return prefix.replace(/[^\x20-\x7e]/g, '').trim();
+  const name = PEER_CLIENTS[match[1]] || match[1];
+  // WebTorrent writes two digits each for major and minor; most others use one digit per part.
+  const version = match[1] === 'WW' || match[1] === 'WD'
+    ? `${parseInt(match[2].slice(0, 2), 10)}.${parseInt(match[2].slice(2), 10)}`
+    : match[2].split('').join('.');
+  return `${name} ${version}`;
+}
+
+function describeAddress(wire: Wire): string {
+  if (wire.type === 'webSeed') return wire.url || 'web seed';
+  if (!wire.remoteAddress) return wire.type;
+  const host = String(wire.remoteAddress).includes(':') ? `[${wire.remoteAddress}]` : wire.remoteAddress;
+  return wire.remotePort ? `${host}:${wire.remotePort}` : host;
+}
+
+/** A snapshot of a torrent's peers, trackers and pieces. Fine to call every second or so. */
+export function inspectTorrent(torrent: Torrent): TorrentInspection {
+  const inspectable = torrent as InspectableTorrent;
+  const state = inspectors.get(torrent);
+  if (state) watchTrackerClient(inspectable, state);
+
+  const pieceCount = torrent.ready ? torrent.pieces.length : 0;
+  const wires = inspectable.wires || [];
+  const pieces = new Array<number>(pieceCount).fill(0);
+  const peers = wires.map((wire, index): PeerInfo => {
+    let havePieces = 0;
+    for (let i = 0; i < pieceCount; i++) {
+      if (wire.peerPieces.get(i)) {
+        havePieces++;
+        pieces[i]++;
+      }
+    }
+    return {
+      id: wire.peerId || `${wire.type}-${index}`,
+      address: describeAddress(wire),
+      client: describePeerClient(wire.peerId),
+      type: wire.type,
+      downloadSpeed: wire.downloadSpeed(),
+      uploadSpeed: wire.uploadSpeed(),
+      progress: pieceCount > 0 ? havePieces / pieceCount : 0,
+      peerChoking: wire.peerChoking,
+      peerInterested: wire.peerInterested,
+    };
+  });
+  for (let i = 0; i < pieceCount; i++) {
+    if (inspectable.bitfield?.get(i)) pieces[i] = -1;
+  }
+
+  // Trackers nobody has heard from yet still belong in the list.
+  const trackers = new Map<string, TrackerInfo>();
+  (torrent.announce || []).forEach(url => trackers.set(stripTrailingSlash(url), { url: stripTrailingSlash(url), status: 'pending' }));
+  state?.trackers.forEach((tracker, url) => trackers.set(url, { ...tracker }));
+
+  return {
+    infoHash: torrent.infoHash,
+    name: torrent.name,
+    magnetURI: torrent.magnetURI,
+    created: inspectable.created?.toISOString(),
+    createdBy: inspectable.createdBy,
+    comment: inspectable.comment,
+    pieceLength: torrent.pieceLength,
+    pieces,
+    peers,
+    trackers: Array.from(trackers.values()),
+    warnings: state ? [...state.warnings] : [],
+  };
+}
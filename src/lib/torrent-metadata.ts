@@ -0,0 +1,80 @@
+// src/lib/torrent-metadata.ts
+// What the "Add download" dialog previews before a download starts. Magnet links and infohashes are
+// read right here; .torrent files and .torrent URLs go through /api/torrents/metadata, which parses
+// them on the server (and fetches the URL there, since indexers rarely allow cross-origin requests).
+import { buildMagnetURI, getInfoHash, withConfiguredTrackers } from './magnet';
+
+export type TorrentSourceType = 'magnet' | 'file' | 'url';
+
+export interface TorrentMetadataFile {
+  path: string;
+  length: number;
+}
+
+export interface TorrentMetadata {
+  infoHash: string;
+  name?: string;
+  source: TorrentSourceType;
+  // Only a .torrent has these; a magnet's file list arrives from peers once the download starts.
+  files?: TorrentMetadataFile[];
+  length?: number;
+  announce: string[];
+  urlList: string[]; // Web seeds
+  comment?: string;
+  createdBy?: string;
+  created?: string;
+  private?: boolean; // Only its own trackers may hear about it
+  torrentFile?: string; // The .torrent itself, base64, to start the download from
+}
+
+export const MAX_TORRENT_FILE_SIZE = 10 * 1024 * 1024; // Even huge season packs stay well under this
+
+export const isTorrentFileName = (name: string) => /\.torrent$/i.test(name);
+
+/** Metadata from a pasted magnet link or bare infohash, or null if the text is neither. */
+export function parseMagnetInput(input: string): TorrentMetadata | null {
+  const value = input.trim();
+  const infoHash = getInfoHash(value);
+  if (!infoHash) return null;
+  if (!value.startsWith('magnet:?')) return { infoHash, source: 'magnet', announce: [], urlList: [] };
+
+  const params = new URLSearchParams(value.slice('magnet:?'.length));
+  return {
+    infoHash,
+    name: params.get('dn') || undefined,
+    source: 'magnet',
+    length: Number(params.get('xl')) || undefined,
+    announce: params.getAll('tr'),
+    urlList: params.getAll('ws'),
+  };
+}
+
+/**
+ * The magnet for a download: the torrent's own trackers and web seeds plus the configured trackers,
+ * except for a private torrent. With a .torrent it only names the download; the file is added itself.
+ */
+export function toMagnetURI(metadata: TorrentMetadata): string {
+  const webSeeds = metadata.urlList.map(url => `&ws=${encodeURIComponent(url)}`).join('');
+  const magnetURI = `${buildMagnetURI(metadata.infoHash, metadata.name, metadata.announce)}${webSeeds}`;
+  return metadata.private ? magnetURI : withConfiguredTrackers(magnetURI);
+}
+
+/** Reads a .torrent file (uploaded or dropped) or a URL to one. Throws with the server's message on failure. */
+export async function fetchTorrentMetadata(source: File | string): Promise<TorrentMetadata> {
+  let response: Response;
+  if (typeof source === 'string') {
+    response = await fetch('/api/torrents/metadata', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: source }),
+    });
+  } else {
+    if (source.size > MAX_TORRENT_FILE_SIZE) throw new Error(`${source.name} is too large to be a .torrent file`);
+    const form = new FormData();
+    form.append('file', source);
+    response = await fetch('/api/torrents/metadata', { method: 'POST', body: form });
+  }
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(result.error || `Request failed with status ${response.status}`);
+  return result as TorrentMetadata;
+}
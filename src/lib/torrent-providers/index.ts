@@ -0,0 +1,67 @@
+// src/lib/torrent-providers/index.ts
+// Server-side torrent search across every enabled indexer. Never import this from client components.
+import type { TorrentProvider, TorrentQuery, TorrentSearchResult } from './types';
+import { getActiveProviders, getProviderTimeout } from './registry';
+
+export type { TorrentProvider, TorrentQuery, TorrentQueryKind, TorrentSearchResult } from './types';
+export { registerProvider, setProviderEnabled, isProviderEnabled, listProviders } from './registry';
+export { formatEpisodeCode, getInfoHashFromMagnet, parseSizeToBytes } from './utils';
+
+async function searchWithTimeout(provider: TorrentProvider, query: TorrentQuery, limit: number): Promise<TorrentSearchResult[]> {
+  const timeoutMs = getProviderTimeout(provider.id);
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  try {
+    return await Promise.race([provider.search(query, limit), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** One entry per infohash: the best seed/peer counts and every provider that listed it. */
+function mergeResults(results: TorrentSearchResult[]): TorrentSearchResult[] {
+  const byInfoHash = new Map<string, TorrentSearchResult>();
+  results.forEach(result => {
+    const existing = byInfoHash.get(result.infoHash);
+    if (!existing) {
+      byInfoHash.set(result.infoHash, { ...result, providers: [...result.providers] });
+      return;
+    }
+    const preferred = result.seeds > existing.seeds ? result : existing;
+    byInfoHash.set(result.infoHash, {
+      ...preferred,
+      seeds: Math.max(existing.seeds, result.seeds),
+      peers: Math.max(existing.peers, result.peers),
+      sizeBytes: existing.sizeBytes ?? result.sizeBytes,
+      quality: existing.quality ?? result.quality,
+      releaseType: existing.releaseType ?? result.releaseType,
+      uploadedAt: existing.uploadedAt ?? result.uploadedAt,
+      providers: Array.from(new Set([...existing.providers, ...result.providers])),
+    });
+  });
+  return Array.from(byInfoHash.values());
+}
+
+/**
+ * Queries every enabled provider that supports the query in parallel. A provider that fails or
+ * runs out of time is logged and skipped. Results are de-duplicated by infohash, best-seeded first.
+ */
+export async function searchProviders(query: TorrentQuery, limit: number = 10): Promise<TorrentSearchResult[]> {
+  const providers = getActiveProviders(query.kind);
+  if (providers.length === 0) {
+    console.warn(`[TorrentProviders] No enabled provider supports "${query.kind}" queries.`);
+    return [];
+  }
+
+  const settled = await Promise.allSettled(providers.map(provider => searchWithTimeout(provider, query, limit)));
+  const results = settled.flatMap((outcome, index) => {
+    if (outcome.status === 'fulfilled') return outcome.value;
+    const reason = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+    console.warn(`[TorrentProviders] ${providers[index].name} failed for ${query.kind} query: ${reason}`);
+    return [];
+  });
+
+  return mergeResults(results).sort((a, b) => b.seeds - a.seeds);
+}
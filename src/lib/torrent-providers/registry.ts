@@ -0,0 +1,58 @@
+// src/lib/torrent-providers/registry.ts
+import { torrentProvidersConfig } from '@/config/torrent-providers.config';
+import type { TorrentProvider, TorrentQueryKind } from './types';
+import { ytsProvider } from './yts';
+import { createTorrentSearchApiProvider } from './torrent-search-api';
+
+const providers = new Map<string, TorrentProvider>();
+// Runtime overrides set through setProviderEnabled; they win over config and env.
+const enabledOverrides = new Map<string, boolean>();
+
+export function registerProvider(provider: TorrentProvider) {
+  providers.set(provider.id, provider);
+}
+
+registerProvider(ytsProvider);
+registerProvider(createTorrentSearchApiProvider('1337x', '1337x'));
+registerProvider(createTorrentSearchApiProvider('thepiratebay', 'ThePirateBay'));
+registerProvider(createTorrentSearchApiProvider('torrentgalaxy', 'TorrentGalaxy'));
+
+function getEnvEnabledList(): string[] | null {
+  const list = process.env.TORRENT_PROVIDERS;
+  return list ? list.split(',').map(id => id.trim().toLowerCase()).filter(Boolean) : null;
+}
+
+export function isProviderEnabled(id: string): boolean {
+  if (enabledOverrides.has(id)) return enabledOverrides.get(id)!;
+  const envList = getEnvEnabledList();
+  if (envList) return envList.includes(id);
+  return !!torrentProvidersConfig.providers[id]?.enabled;
+}
+
+export function setProviderEnabled(id: string, enabled: boolean) {
+  if (!providers.has(id)) throw new Error(`Unknown torrent provider: ${id}`);
+  enabledOverrides.set(id, enabled);
+}
+
+// A provider's own timeoutMs wins; TORRENT_PROVIDER_TIMEOUT_MS only replaces the default.
+export function getProviderTimeout(id: string): number {
+  const providerTimeout = torrentProvidersConfig.providers[id]?.timeoutMs;
+  if (providerTimeout) return providerTimeout;
+  const envTimeout = parseInt(process.env.TORRENT_PROVIDER_TIMEOUT_MS || '', 10);
+  return Number.isFinite(envTimeout) && envTimeout > 0 ? envTimeout : torrentProvidersConfig.defaultTimeoutMs;
+}
+
+/** Enabled providers that can answer a query of this kind. */
+export function getActiveProviders(kind?: TorrentQueryKind): TorrentProvider[] {
+  return Array.from(providers.values()).filter(p => isProviderEnabled(p.id) && (!kind || p.supports.includes(kind)));
+}
+
+export function listProviders() {
+  return Array.from(providers.values()).map(p => ({
+    id: p.id,
+    name: p.name,
+    supports: p.supports,
+    enabled: isProviderEnabled(p.id),
+    timeoutMs: getProviderTimeout(p.id),
+  }));
+}
@@ -0,0 +1,38 @@
+// src/lib/torrent-providers/torrent-search-api.ts
+// Adapts the scrapers bundled with torrent-search-api (1337x, ThePirateBay, ...) to TorrentProvider.
+import TorrentSearchApi from 'torrent-search-api';
+import type { TorrentProvider, TorrentSearchResult } from './types';
+import { getInfoHashFromMagnet, parseSizeToBytes, toSearchText } from './utils';
+
+/**
+ * @param id Registry id (lowercase)
+ * @param apiProviderName Provider name as torrent-search-api knows it, e.g. "ThePirateBay"
+ */
+export function createTorrentSearchApiProvider(id: string, apiProviderName: string): TorrentProvider {
+  return {
+    id,
+    name: apiProviderName,
+    // Keyword search only, so no 'imdb': a title search can't promise the hits are that movie.
+    supports: ['text', 'episode', 'season'],
+    async search(query, limit) {
+      if (!TorrentSearchApi.isProviderActive(apiProviderName)) TorrentSearchApi.enableProvider(apiProviderName);
+
+      const results = await TorrentSearchApi.search([apiProviderName], toSearchText(query), 'All', limit);
+      return results.flatMap((result): TorrentSearchResult[] => {
+        const infoHash = result.magnet ? getInfoHashFromMagnet(result.magnet) : null;
+        if (!result.magnet || !infoHash) return [];
+        const uploadedAt = result.time ? Date.parse(result.time) : NaN;
+        return [{
+          title: result.title,
+          infoHash,
+          magnet: result.magnet,
+          seeds: result.seeds || 0,
+          peers: result.peers || 0,
+          sizeBytes: parseSizeToBytes(result.size),
+          uploadedAt: Number.isFinite(uploadedAt) ? uploadedAt : undefined,
+          providers: [id],
+        }];
+      });
+    },
+  };
+}
@@ -0,0 +1,30 @@
+// src/lib/torrent-providers/types.ts
+
+// What a caller is looking for. Providers declare which kinds they can answer.
+export type TorrentQuery =
+  | { kind: 'imdb'; imdbId: string; title?: string }
+  | { kind: 'episode'; title: string; season: number; episode: number }
+  | { kind: 'season'; title: string; season: number }
+  | { kind: 'text'; text: string };
+
+export type TorrentQueryKind = TorrentQuery['kind'];
+
+export interface TorrentSearchResult {
+  title: string;
+  infoHash: string; // Lowercase hex, used to de-duplicate across providers
+  magnet: string;
+  seeds: number;
+  peers: number;
+  sizeBytes?: number;
+  quality?: string; // Only when the index states it (e.g. YTS "1080p")
+  releaseType?: string; // e.g. "web", "bluray"
+  uploadedAt?: number; // ms since epoch
+  providers: string[]; // Every index that listed this torrent
+}
+
+export interface TorrentProvider {
+  id: string; // Key in torrentProvidersConfig.providers
+  name: string;
+  supports: TorrentQueryKind[];
+  search(query: TorrentQuery, limit: number): Promise<TorrentSearchResult[]>;
+}
@@ -0,0 +1,59 @@
+// src/lib/torrent-providers/utils.ts
+import type { TorrentQuery } from './types';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32ToHex(base32: string): string {
+  let bits = '';
+  for (const char of base32.toUpperCase()) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) return '';
+    bits += value.toString(2).padStart(5, '0');
+  }
+  let hex = '';
+  for (let i = 0; i + 4 <= bits.length; i += 4) {
+    hex += parseInt(bits.slice(i, i + 4), 2).toString(16);
+  }
+  return hex;
+}
+
+/** Lowercase hex infohash of a magnet link (hex or base32 form), or null if it has none. */
+export function getInfoHashFromMagnet(magnet: string): string | null {
+  const match = /xt=urn:btih:([a-z0-9]+)/i.exec(magnet);
+  if (!match) return null;
+  const hash = match[1];
+  if (/^[a-f0-9]{40}$/i.test(hash)) return hash.toLowerCase();
+  if (hash.length === 32) return base32ToHex(hash) || null;
+  return null;
+}
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3, tb: 1024 ** 4 };
+
+/** "1.4 GB", "700 MiB" -> bytes. */
+export function parseSizeToBytes(size?: string): number | undefined {
+  if (!size) return undefined;
+  const match = /([\d.,]+)\s*([kmgt]?i?b)/i.exec(size);
+  if (!match) return undefined;
+  const unit = match[2].toLowerCase().replace('i', '');
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  return Number.isFinite(value) && SIZE_UNITS[unit] ? Math.round(value * SIZE_UNITS[unit]) : undefined;
+}
+
+export function formatEpisodeCode(season: number | string, episode?: number | string): string {
+  const seasonCode = `S${String(season).padStart(2, '0')}`;
+  return episode === undefined ? seasonCode : `${seasonCode}E${String(episode).padStart(2, '0')}`;
+}
+
+/** Free-text form of a query, for indexers that only do keyword search. */
+export function toSearchText(query: TorrentQuery): string {
+  switch (query.kind) {
+    case 'imdb':
+      return query.title || query.imdbId;
+    case 'episode':
+      return `${query.title} ${formatEpisodeCode(query.season, query.episode)}`;
+    case 'season':
+      return `${query.title} ${formatEpisodeCode(query.season)}`;
+    case 'text':
+      return query.text;
+  }
+}
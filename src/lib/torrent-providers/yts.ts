@@ -0,0 +1,58 @@
+// src/lib/torrent-providers/yts.ts
+// YTS movie index (https://yts.mx/api). Looks movies up by IMDb id, which is exact.
+import type { YTSMovieTorrent } from '@/types/tmdb';
+import { buildMagnetURI } from '@/lib/magnet';
+import type { TorrentProvider, TorrentSearchResult } from './types';
+
+const YTS_API_URL = 'https://yts.mx/api/v2/list_movies.json';
+
+interface YTSMovieDetail {
+  id: number;
+  imdb_code: string;
+  title: string;
+  year: number;
+  torrents?: YTSMovieTorrent[];
+}
+
+interface YTSResponse {
+  status: string;
+  status_message: string;
+  data: {
+    movie_count: number;
+    movies?: YTSMovieDetail[];
+  };
+}
+
+export const ytsProvider: TorrentProvider = {
+  id: 'yts',
+  name: 'YTS',
+  supports: ['imdb', 'text'],
+  async search(query, limit) {
+    const queryTerm = query.kind === 'imdb' ? query.imdbId : query.kind === 'text' ? query.text : null;
+    if (!queryTerm) return [];
+
+    const url = `${YTS_API_URL}?query_term=${encodeURIComponent(queryTerm)}&limit=${Math.min(limit, 50)}`;
+    const response = await fetch(url, { next: { revalidate: 3600 } }); // Revalidate YTS results hourly
+    if (!response.ok) throw new Error(`YTS request failed with status ${response.status}`);
+    const data: YTSResponse = await response.json();
+    if (data.status !== 'ok') throw new Error(data.status_message || 'YTS returned an error');
+
+    return (data.data.movies || []).flatMap(movie =>
+      (movie.torrents || []).map((torrent): TorrentSearchResult => {
+        const title = `${movie.title} (${movie.year}) [${torrent.quality}] [${torrent.type}] [YTS]`;
+        return {
+          title,
+          infoHash: torrent.hash.toLowerCase(),
+          magnet: buildMagnetURI(torrent.hash, `${movie.title} (${movie.year}) [${torrent.quality}]`),
+          seeds: torrent.seeds || 0,
+          peers: torrent.peers || 0,
+          sizeBytes: torrent.size_bytes,
+          quality: torrent.quality,
+          releaseType: torrent.type,
+          uploadedAt: torrent.date_uploaded_unix ? torrent.date_uploaded_unix * 1000 : undefined,
+          providers: ['yts'],
+        };
+      })
+    );
+  },
+};
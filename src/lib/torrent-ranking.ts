@@ -0,0 +1,88 @@
+// src/lib/torrent-ranking.ts
+// Orders search results by how well they fit a request: the asked-for resolution first,
+// then release source, swarm health and whether the size is believable for the resolution.
+import { parseReleaseName, parseQualityHint, RESOLUTIONS, type ParsedRelease, type Resolution } from './release-name';
+import type { TorrentQueryKind, TorrentSearchResult } from './torrent-providers/types';
+
+export interface RankedTorrent extends TorrentSearchResult {
+  release: ParsedRelease;
+  score: number;
+}
+
+export interface RankOptions {
+  quality?: string | null; // Quality hint as the UI sends it, e.g. "1080p (FHD)" or "Any Available"
+  kind?: TorrentQueryKind;
+}
+
+const GB = 1024 ** 3;
+const MB = 1024 ** 2;
+
+// Plausible size of a single episode per resolution. Season packs and movies scale from this.
+const EPISODE_SIZE_RANGE: Record<Resolution, [number, number]> = {
+  '2160p': [1 * GB, 20 * GB],
+  '1080p': [300 * MB, 8 * GB],
+  '720p': [150 * MB, 3 * GB],
+  '480p': [50 * MB, 1 * GB],
+};
+const SIZE_MULTIPLIER: Partial<Record<TorrentQueryKind, [number, number]>> = {
+  season: [4, 30], // Anything from a short season to a long one
+  imdb: [1.5, 4], // A feature film runs roughly two to four episodes long
+};
+
+const SOURCE_SCORES: Record<NonNullable<ParsedRelease['source']>, number> = {
+  'BluRay': 15,
+  'WEB-DL': 12,
+  'WEBRip': 10,
+  'HDTV': 5,
+  'DVDRip': 0,
+  'CAM': -100,
+};
+
+const EXACT_RESOLUTION_SCORE = 100;
+const RESOLUTION_STEP_PENALTY = 30; // Per step away from the requested resolution
+const UNKNOWN_RESOLUTION_SCORE = 40; // Could be anything; better than a known mismatch
+const SEED_WEIGHT = 20; // Applied to log10(seeds + 1): 10 seeds ~ 21, 1000 seeds ~ 60
+const BAD_SIZE_PENALTY = 50;
+const BROWSER_FRIENDLY_CODEC_SCORE = 5; // x264 plays in every browser; HEVC often doesn't
+
+function isSizePlausible(sizeBytes: number, resolution: Resolution, kind?: TorrentQueryKind): boolean {
+  const [min, max] = EPISODE_SIZE_RANGE[resolution];
+  const [minFactor, maxFactor] = (kind && SIZE_MULTIPLIER[kind]) || [1, 1];
+  return sizeBytes >= min * minFactor && sizeBytes <= max * maxFactor;
+}
+
+export function scoreTorrent(result: TorrentSearchResult, release: ParsedRelease, options: RankOptions = {}): number {
+  const requested = parseQualityHint(options.quality);
+  // Indexers that state the quality (YTS) are more reliable than the title.
+  const resolution = parseQualityHint(result.quality) || release.resolution;
+
+  let score = 0;
+  if (requested) {
+    if (!resolution) {
+      score += UNKNOWN_RESOLUTION_SCORE;
+    } else {
+      const distance = Math.abs(RESOLUTIONS.indexOf(resolution) - RESOLUTIONS.indexOf(requested));
+      score += EXACT_RESOLUTION_SCORE - distance * RESOLUTION_STEP_PENALTY;
+    }
+  }
+
+  if (release.source) score += SOURCE_SCORES[release.source];
+  if (release.codec === 'x264') score += BROWSER_FRIENDLY_CODEC_SCORE;
+  score += SEED_WEIGHT * Math.log10(result.seeds + 1);
+
+  if (result.sizeBytes && resolution && !isSizePlausible(result.sizeBytes, resolution, options.kind)) {
+    score -= BAD_SIZE_PENALTY;
+  }
+
+  return Math.round(score * 10) / 10;
+}
+
+/** Best fit first; ties go to the better-seeded torrent. */
+export function rankTorrents(results: TorrentSearchResult[], options: RankOptions = {}): RankedTorrent[] {
+  return results
+    .map(result => {
+      const release = parseReleaseName(result.title);
+      return { ...result, release, score: scoreTorrent(result, release, options) };
+    })
+    .sort((a, b) => b.score - a.score || b.seeds - a.seeds);
+}
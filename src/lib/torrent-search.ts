@@ -0,0 +1,98 @@
+// src/lib/torrent-search.ts
+// Server-side torrent search shared by /api/torrents/*, the aria2 routes and the movie page.
+// The indexers are pluggable: see src/lib/torrent-providers and src/config/torrent-providers.config.ts.
+import type { YTSMovieTorrent } from '@/types/tmdb';
+import { getTvSeasonDetails } from './tmdb';
+import { searchProviders, formatEpisodeCode } from './torrent-providers';
+import { parseReleaseName } from './release-name';
+import { rankTorrents, type RankedTorrent } from './torrent-ranking';
+import { isSeasonPackRelease, isCompleteSeriesRelease, type SeasonEpisodeInfo, type SeasonTorrentSearchResponse } from './season-pack';
+import type { TorrentQuery, TorrentSearchResult } from './torrent-providers';
+
+export { formatEpisodeCode };
+export type { TorrentQuery, TorrentSearchResult };
+
+/**
+ * Searches all enabled providers and returns only results with at least one seeder,
+ * best-seeded first.
+ */
+export async function searchTorrents(query: TorrentQuery, limit: number = 10): Promise<TorrentSearchResult[]> {
+  const results = await searchProviders(query, limit);
+  console.log(`[TorrentSearch] Found ${results.length} results for ${JSON.stringify(query)}. First 5:`, results.slice(0, 5).map(r => ({ title: r.title, seeds: r.seeds, providers: r.providers })));
+  return results.filter(torrent => torrent.seeds > 0);
+}
+
+export async function findBestEpisodeMagnet(title: string, season: number, episode: number): Promise<string | null> {
+  const results = await searchTorrents({ kind: 'episode', title, season, episode });
+  return results[0]?.magnet || null;
+}
+
+/** Movie torrents by IMDb id, in the YTS shape the movie page components already use. */
+export async function searchMovieTorrents(imdbId: string, title?: string): Promise<YTSMovieTorrent[]> {
+  const results = await searchTorrents({ kind: 'imdb', imdbId, title }, 20);
+  return results.map(result => ({
+    url: result.magnet,
+    hash: result.infoHash,
+    quality: result.quality || parseReleaseName(result.title).resolution || 'Unknown',
+    type: result.releaseType || '',
+    seeds: result.seeds,
+    peers: result.peers,
+    size: result.sizeBytes ? `${(result.sizeBytes / 1024 ** 3).toFixed(2)} GB` : '',
+    size_bytes: result.sizeBytes || 0,
+    date_uploaded: result.uploadedAt ? new Date(result.uploadedAt).toISOString() : '',
+    date_uploaded_unix: result.uploadedAt ? Math.floor(result.uploadedAt / 1000) : 0,
+  }));
+}
+
+const MAX_SEASON_CANDIDATES = 5;
+const EPISODE_FALLBACK_CONCURRENCY = 3; // Per-episode searches hit every provider; don't fire a whole season at once
+
+// Episodes that have aired; a pack can't be expected to contain the rest.
+function getExpectedEpisodes(episodes: SeasonEpisodeInfo[]): SeasonEpisodeInfo[] {
+  const today = new Date().toISOString().slice(0, 10);
+  const aired = episodes.filter(e => e.airDate && e.airDate <= today);
+  return aired.length > 0 ? aired : episodes;
+}
+
+/**
+ * Sources for a whole season: the best pack that contains every aired episode, or, when
+ * no such pack exists, the best torrent for each episode on its own.
+ */
+export async function findSeasonTorrents(tvId: number | string, title: string, season: number, quality?: string | null): Promise<SeasonTorrentSearchResponse> {
+  const seasonDetails = await getTvSeasonDetails(tvId, season);
+  const episodes = getExpectedEpisodes(seasonDetails.episodes.map(e => ({ episodeNumber: e.episode_number, name: e.name, airDate: e.air_date })));
+  const episodeNumbers = episodes.map(e => e.episodeNumber);
+
+  const packs = rankTorrents(await searchTorrents({ kind: 'season', title, season }), { quality, kind: 'season' })
+    .filter(t => isSeasonPackRelease(t.title, season, episodeNumbers));
+
+  const response: SeasonTorrentSearchResponse = { seasonNumber: season, episodes, pack: null, candidates: [], fallback: [] };
+  if (packs.length > 0) {
+    response.pack = packs[0];
+    response.candidates = packs.slice(1, MAX_SEASON_CANDIDATES + 1);
+    return response;
+  }
+
+  console.warn(`[TorrentSearch] No pack for ${title} ${formatEpisodeCode(season)}. Falling back to per-episode search.`);
+  for (let i = 0; i < episodeNumbers.length; i += EPISODE_FALLBACK_CONCURRENCY) {
+    const batch = episodeNumbers.slice(i, i + EPISODE_FALLBACK_CONCURRENCY);
+    const results = await Promise.all(batch.map(async episode => {
+      try {
+        const best = rankTorrents(await searchTorrents({ kind: 'episode', title, season, episode }), { quality, kind: 'episode' })[0];
+        return { episodeNumber: episode, magnet: best?.magnet || null, title: best?.title };
+      } catch (error) {
+        console.error(`[TorrentSearch] Episode search failed for ${title} ${formatEpisodeCode(season, episode)}:`, error);
+        return { episodeNumber: episode, magnet: null };
+      }
+    }));
+    response.fallback.push(...results);
+  }
+  return response;
+}
+
+/** The best release that claims to hold every listed season, or null. */
+export async function findCompleteSeriesPack(title: string, seasonNumbers: number[], quality?: string | null): Promise<RankedTorrent | null> {
+  const results = await searchTorrents({ kind: 'text', text: `${title} complete series` });
+  const packs = rankTorrents(results, { quality }).filter(t => isCompleteSeriesRelease(t.title, seasonNumbers));
+  return packs[0] || null;
+}
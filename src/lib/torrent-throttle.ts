@@ -0,0 +1,133 @@
+// src/lib/torrent-throttle.ts
+// Client-wide and per-torrent rate limits for WebTorrent, used by both the browser client
+// and the backend engine. WebTorrent only throttles client-wide out of the box.
+import { Throttle, ThrottleGroup } from 'speed-limiter';
+import type { Instance as WebTorrentInstance, Torrent } from 'webtorrent';
+import type { Wire } from 'bittorrent-protocol';
+import { toBytesPerSecond, UNLIMITED, type SpeedLimits } from './bandwidth';
+
+interface ThrottleGroups {
+  down: ThrottleGroup;
+  up: ThrottleGroup;
+}
+
+// Runtime members @types/webtorrent doesn't declare.
+type ThrottledClient = WebTorrentInstance & {
+  throttleGroups: ThrottleGroups;
+  throttleDownload(rate: number): void;
+  throttleUpload(rate: number): void;
+};
+type ClientOwnedTorrent = Torrent & { client: ThrottledClient };
+// Moving a throttle between groups uses speed-limiter's private bookkeeping.
+type MovableThrottle = Throttle & { _group: ThrottleGroup };
+type GroupInternals = ThrottleGroup & {
+  _addThrottle(throttle: Throttle): void;
+  _removeThrottle(throttle: Throttle): void;
+};
+// The streamx state WebTorrent's peer pipeline (conn -> down throttle -> counter -> wire -> up throttle -> conn) leaves behind.
+interface PipedStream {
+  _readableState?: { pipeTo: unknown };
+  _writableState?: { pipeline: { from: PipedStream } | null };
+}
+
+interface TorrentThrottle {
+  client: ThrottledClient;
+  groups: ThrottleGroups;
+  limits: SpeedLimits;
+}
+
+const throttles = new WeakMap<Torrent, TorrentThrottle>();
+
+// Point a torrent's group at its own limit, drawing from the client-wide bucket while that one is enabled.
+function configureGroup(group: ThrottleGroup, clientGroup: ThrottleGroup, limit: number) {
+  const torrentRate = toBytesPerSecond(limit);
+  const clientRate = clientGroup.getEnabled() ? clientGroup.getRate() : -1;
+  if (torrentRate < 0 && clientRate < 0) {
+    group.bucket.parentBucket = null;
+    group.setEnabled(false);
+    return;
+  }
+  const rate = torrentRate < 0 ? clientRate : torrentRate;
+  const slowest = clientRate < 0 ? rate : Math.min(rate, clientRate);
+  // Slices must fit in both buckets, or the parent rejects them outright.
+  group.setRate(rate, Math.max(Math.floor(slowest / 10), 1));
+  group.bucket.parentBucket = clientRate < 0 ? null : clientGroup.bucket;
+  group.setEnabled(true);
+}
+
+function configureTorrent(throttle: TorrentThrottle) {
+  const { throttleGroups } = throttle.client;
+  configureGroup(throttle.groups.down, throttleGroups.down, throttle.limits.downloadLimit);
+  configureGroup(throttle.groups.up, throttleGroups.up, throttle.limits.uploadLimit);
+}
+
+// Reassigns a throttle that is already part of a peer's pipeline; it reads its group per chunk.
+function moveThrottle(throttle: Throttle, group: ThrottleGroup) {
+  const movable = throttle as MovableThrottle;
+  if (movable._group === group) return;
+  (movable._group as GroupInternals)._removeThrottle(throttle);
+  movable._group = group;
+  (group as GroupInternals)._addThrottle(throttle);
+  throttle.setEnabled(group.getEnabled());
+}
+
+// A wire's two throttles, found through the pipeline WebTorrent built around it.
+function getWireThrottles(wire: Wire): { down: Throttle; up: Throttle } | null {
+  const piped = wire as unknown as PipedStream;
+  const up = piped._readableState?.pipeTo;
+  const down = piped._writableState?.pipeline?.from._writableState?.pipeline?.from;
+  return up instanceof Throttle && down instanceof Throttle ? { down, up } : null;
+}
+
+/**
+ * Gives a torrent throttle groups of its own. WebTorrent pipes every connection through the
+ * client's groups, incoming ones before it even knows their torrent, so each wire's throttles
+ * are moved over to the torrent's groups once the wire joins it. Call it right after client.add().
+ */
+export function attachTorrentThrottle(torrent: Torrent, limits: SpeedLimits = UNLIMITED) {
+  if (throttles.has(torrent)) return;
+  const throttle: TorrentThrottle = {
+    client: (torrent as ClientOwnedTorrent).client,
+    groups: {
+      down: new ThrottleGroup({ rate: 0, enabled: false }),
+      up: new ThrottleGroup({ rate: 0, enabled: false }),
+    },
+    limits,
+  };
+  throttles.set(torrent, throttle);
+  configureTorrent(throttle);
+  torrent.on('wire', (wire: Wire) => {
+    const wireThrottles = getWireThrottles(wire);
+    if (!wireThrottles) return;
+    moveThrottle(wireThrottles.down, throttle.groups.down);
+    moveThrottle(wireThrottles.up, throttle.groups.up);
+  });
+  torrent.once('close', () => {
+    throttle.groups.down.destroy();
+    throttle.groups.up.destroy();
+    throttles.delete(torrent);
+  });
+}
+
+/** Changes a torrent's own limits. Applies to its open connections straight away. */
+export function setTorrentThrottle(torrent: Torrent, limits: SpeedLimits) {
+  const throttle = throttles.get(torrent);
+  if (!throttle) return;
+  throttle.limits = limits;
+  configureTorrent(throttle);
+}
+
+export function getTorrentThrottle(torrent: Torrent): SpeedLimits {
+  return throttles.get(torrent)?.limits || UNLIMITED;
+}
+
+/** Sets the client-wide limits and re-links every torrent's groups to them. */
+export function applyClientThrottle(client: WebTorrentInstance, limits: SpeedLimits) {
+  const throttledClient = client as ThrottledClient;
+  throttledClient.throttleDownload(toBytesPerSecond(limits.downloadLimit));
+  throttledClient.throttleUpload(toBytesPerSecond(limits.uploadLimit));
+  client.torrents.forEach(torrent => {
+    const throttle = throttles.get(torrent);
+    if (throttle) configureTorrent(throttle);
+  });
+}
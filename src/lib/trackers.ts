@@ -0,0 +1,73 @@
+// src/lib/trackers.ts
+// The tracker list added to every magnet link we build or hand to a client, managed on the
+// Settings page. Browsers can only reach WebSocket trackers, so those go first there; the rest
+// stay in the list for the download server and for magnets shared elsewhere.
+
+export const TRACKER_LIST_STORAGE_KEY = 'chillymovies-trackers';
+
+export const DEFAULT_TRACKERS = [
+  'wss://tracker.openwebtorrent.com',
+  'wss://tracker.webtorrent.dev',
+  'wss://tracker.btorrent.xyz',
+  'wss://tracker.files.fm:7073/announce',
+  'udp://tracker.opentrackr.org:1337/announce',
+  'udp://tracker.openbittorrent.com:80/announce',
+  'udp://tracker.torrent.eu.org:451/announce',
+  'udp://tracker.dler.org:6969/announce',
+  'udp://open.stealth.si:80/announce',
+];
+
+const TRACKER_PROTOCOLS = ['udp:', 'http:', 'https:', 'ws:', 'wss:'];
+
+/** The tracker URL trimmed and without a trailing slash, or null if it isn't a tracker URL. */
+export function normalizeTrackerUrl(input: string): string | null {
+  const value = input.trim();
+  try {
+    const url = new URL(value);
+    if (!TRACKER_PROTOCOLS.includes(url.protocol) || !url.hostname) return null;
+  } catch {
+    return null;
+  }
+  return value.replace(/\/$/, '');
+}
+
+export const isWebSocketTracker = (url: string) => /^wss?:\/\//i.test(url);
+
+/** Drops invalid entries and duplicates, keeping the first occurrence's position. */
+export function normalizeTrackerList(input: unknown): string[] {
+  if (!Array.isArray(input)) return [...DEFAULT_TRACKERS];
+  const trackers: string[] = [];
+  for (const entry of input) {
+    const url = typeof entry === 'string' ? normalizeTrackerUrl(entry) : null;
+    if (url && !trackers.includes(url)) trackers.push(url);
+  }
+  return trackers;
+}
+
+/**
+ * Reads a tracker list file as published by tracker list projects: one URL per line, usually
+ * separated by blank lines, sometimes with # comments. Lines that aren't tracker URLs are skipped.
+ */
+export function parseTrackerList(text: string): string[] {
+  return normalizeTrackerList(text.split(/[\r\n,]+/).filter(line => !line.trim().startsWith('#')));
+}
+
+export function loadTrackerList(): string[] {
+  if (typeof localStorage === 'undefined') return [...DEFAULT_TRACKERS];
+  try {
+    const stored = localStorage.getItem(TRACKER_LIST_STORAGE_KEY);
+    return stored ? normalizeTrackerList(JSON.parse(stored)) : [...DEFAULT_TRACKERS];
+  } catch (error) {
+    console.error('Failed to load tracker list:', error);
+    return [...DEFAULT_TRACKERS];
+  }
+}
+
+export function saveTrackerList(trackers: string[]) {
+  localStorage.setItem(TRACKER_LIST_STORAGE_KEY, JSON.stringify(normalizeTrackerList(trackers)));
+}
+
+/** WebSocket trackers first, each group in its original order. */
+export function preferWebSocketTrackers(trackers: string[]): string[] {
+  return [...trackers.filter(isWebSocketTracker), ...trackers.filter(url => !isWebSocketTracker(url))];
+}
@@ -24,7 +24,17 @@ if (typeof window !== 'undefined') {
     ActualWebTorrent = module.default;
   });
 }
-import type { Instance as WebTorrentInstance, Torrent as WebTorrentAPITorrent, TorrentFile as WebTorrentAPITorrentFile } from 'webtorrent';
+import type { Instance as WebTorrentInstance, Torrent as WebTorrentAPITorrent, TorrentFile as WebTorrentAPITorrentFile, TorrentOptions } from 'webtorrent';
+import type { Wire } from 'bittorrent-protocol';
+import { isVideoFile, isSubtitleFile, isExtraFile } from './media-types';
+import { loadBandwidthSettings, saveBandwidthSettings, getActiveLimits, hasSpeedLimits, SCHEDULE_CHECK_INTERVAL, type BandwidthSettings, type SpeedLimits } from './bandwidth';
+import { attachTorrentThrottle, setTorrentThrottle, getTorrentThrottle, applyClientThrottle } from './torrent-throttle';
+import { getInfoHash, getMagnetURITrackers } from './magnet';
+import { getPersistentChunkStore, getStorageBackend, getStorageEstimate, listStoredTorrents, deleteStoredTorrent, requestPersistentStorage, type StorageBackend, type StorageEstimate } from './chunk-store';
+import { supportsDirectoryAccess, writeFilesToDirectory, downloadThroughBrowser, type SavableFile, type SaveMethod } from './save-to-disk';
+import { attachTorrentInspector, inspectTorrent, type TorrentInspection } from './torrent-inspector';
+import { requestBridge, releaseBridge, type BridgeState } from './torrent-bridge';
+import { loadSeedingPolicy, saveSeedingPolicy, getSeedingStopReason, type SeedingPolicy, type SeedingStopReason } from './seeding-policy';
 
 
 // Re-exporting types for clarity, these now represent the actual webtorrent types
@@ -35,6 +45,15 @@ export type Torrent = WebTorrentAPITorrent & {
   statusForHistory?: HistoryItem['status'];
   lastProgressTime?: number;
   noPeersReason?: string;
+  selectedFiles?: number[]; // File indexes to download; undefined means all of them
+  seedingPolicy?: SeedingPolicy; // Overrides the global policy for this torrent
+  seedingSince?: number; // When the download finished and seeding began
+  seedingStopped?: SeedingStopReason; // Set once a seeding rule has fired
+  lastStatsSave?: number;
+  bridgeState?: BridgeState; // Set once the backend has been asked to relay this torrent
+  bridgeAttemptAt?: number;
+  bridgeError?: string;
+  wires: Wire[]; // Open peer connections; present at runtime but missing from @types/webtorrent
 };
 export type TorrentFile = WebTorrentAPITorrentFile;
 
@@ -46,6 +65,7 @@ export type TorrentProgressStatus =
   | 'error' 
   | 'connecting' 
   | 'done' 
+  | 'completed' // Finished, and a seeding rule has stopped the upload
   | 'metadata' 
   | 'stalled'
   | 'no_peers';
@@ -64,6 +84,14 @@ export type TorrentProgress = {
   itemId?: string | number;
   status: TorrentProgressStatus;
   noPeersReason?: string; 
+  fileCount?: number;
+  selectedFileCount?: number;
+  speedLimits?: SpeedLimits; // Only set when the torrent has limits of its own
+  uploaded: number;
+  ratio: number;
+  seedingPolicy?: SeedingPolicy; // Only set when the torrent overrides the global policy
+  seedingStopReason?: SeedingStopReason;
+  bridgeState?: BridgeState;
 };
 
 export interface HistoryItem {
@@ -76,21 +104,118 @@ export interface HistoryItem {
   status: 'completed' | 'failed' | 'removed' | 'active' | 'error' | 'stalled';
   size?: number;
   lastError?: string;
+  selectedFiles?: number[]; // Kept so a re-queue downloads the same files
+  speedLimits?: SpeedLimits;
+  seedingPolicy?: SeedingPolicy;
+  uploaded?: number; // Seeding stats, refreshed while the torrent seeds
+  ratio?: number;
+}
+
+export type TorrentFileKind = 'video' | 'subtitle' | 'extra' | 'other';
+
+export interface TorrentFileInfo {
+  index: number;
+  name: string;
+  path: string;
+  length: number;
+  kind: TorrentFileKind;
+  selected: boolean;
+  progress: number;
+}
+
+export interface AddTorrentOptions {
+  selectedFiles?: number[];
+  speedLimits?: SpeedLimits;
+  seedingPolicy?: SeedingPolicy;
+  // Base64 .torrent. Added from it, peers needn't send the metadata first (private and poorly seeded
+  // torrents may never send it); the magnet then only names the torrent and contributes its trackers.
+  torrentFile?: string;
+}
+
+// A download waiting for a free slot. Its position in the queue is its priority.
+export interface QueuedDownload {
+  id: string; // infoHash when the magnet carries one, otherwise the magnet itself
+  magnetURI: string;
+  name?: string;
+  itemId?: string | number;
+  options: AddTorrentOptions;
+  queuedDate: string;
+}
+
+export type QueueMove = 'up' | 'down' | 'top';
+
+// A torrent with pieces in the persistent chunk store, joined with what the client and history know about it.
+export interface StoredDownload {
+  infoHash: string;
+  name: string;
+  bytes: number; // Space its pieces take up
+  size?: number; // Full size of the torrent, when known
+  state: 'active' | 'complete' | 'partial'; // Active ones are still being written to and can't be evicted
+}
+
+export interface SaveToDiskResult {
+  method: SaveMethod;
+  fileCount: number;
+  directoryName?: string; // Set when the files went into the remembered download folder
+}
+
+// Everything the details drawer shows for one torrent.
+export interface TorrentDetails extends TorrentInspection {
+  progress: TorrentProgress;
+  files: TorrentFileInfo[];
+  addedDate?: string;
+  length: number;
+  uploaded: number;
+  downloaded: number; // All verified bytes, including ones from deselected files
+}
+
+export interface StorageUsage {
+  backend: StorageBackend;
+  estimate: StorageEstimate | null; // null when the browser can't report usage
+  downloads: StoredDownload[];
 }
 
 const HISTORY_STORAGE_KEY = 'chillymovies_download_history_v2';
+const QUEUE_STORAGE_KEY = 'chillymovies_download_queue_v1';
+export const MAX_ACTIVE_DOWNLOADS_STORAGE_KEY = 'chillymovies-max-active-downloads';
+export const DEFAULT_MAX_ACTIVE_DOWNLOADS = 3;
+// Statuses that hold one of the active slots. Stalled and peerless torrents keep running but free their slot.
+const SLOT_STATUSES: TorrentProgressStatus[] = ['connecting', 'metadata', 'downloading'];
 const STALL_TIMEOUT = 30000; // 30 seconds
 const NO_PEERS_TIMEOUT = 60000; // 60 seconds
+const SEEDING_STATS_SAVE_INTERVAL = 60000; // How often a seeding torrent's upload stats go to history
+const BRIDGE_RETRY_INTERVAL = 5 * 60000; // Before asking the backend again after it couldn't bridge a torrent
+const STREAM_WORKER_URL = '/webtorrent-sw.js'; // Served from public/, so its scope covers the whole app
+const STREAM_HEAD_BYTES = 8 * 1024 * 1024; // Fetched before anything else so playback starts quickly
+const STREAM_METADATA_TIMEOUT = 60000; // How long playback waits for a torrent's file list from peers
+
+export interface StreamOptions {
+  itemName?: string;
+  itemId?: string | number;
+  fileIndex?: number; // Defaults to the largest video file
+  fileNameFilter?: (fileName: string) => boolean; // Narrows the default pick, e.g. to one episode of a season pack
+}
 
 class WebTorrentService extends EventEmitter {
   private client: WebTorrentInstance | null = null;
   private history: HistoryItem[] = [];
   private progressInterval: NodeJS.Timeout | null = null;
+  private streamServerReady: Promise<void> | null = null;
+  private bandwidthSettings: BandwidthSettings | null = null;
+  private activeLimits: SpeedLimits | null = null;
+  private scheduleInterval: NodeJS.Timeout | null = null;
+  private queue: QueuedDownload[] = [];
+  private maxActiveDownloads = DEFAULT_MAX_ACTIVE_DOWNLOADS;
+  private startingCount = 0; // Queue items handed to startTorrent that the client hasn't listed yet
+  private seedingPolicy: SeedingPolicy | null = null;
 
   constructor() {
     super();
     if (typeof window !== 'undefined') {
         this.loadHistory();
+        this.loadQueue();
+        this.bandwidthSettings = loadBandwidthSettings();
+        this.seedingPolicy = loadSeedingPolicy();
     }
   }
   
@@ -108,6 +233,9 @@ class WebTorrentService extends EventEmitter {
     }
     this.client = new ActualWebTorrent();
     this.startProgressEmitter();
+    this.startBandwidthSchedule();
+    this.resumeInterruptedDownloads();
+    this.processQueue();
     return this.client;
   }
   
@@ -115,10 +243,123 @@ class WebTorrentService extends EventEmitter {
     if (this.progressInterval) clearInterval(this.progressInterval);
     this.progressInterval = setInterval(() => {
         if (!this.client) return;
-        this.client.torrents.forEach(torrent => this.emit('progress', this.getTorrentProgress(torrent as Torrent)));
+        this.client.torrents.forEach(torrent => {
+          this.checkSelectionDone(torrent as Torrent);
+          this.enforceSeedingPolicy(torrent as Torrent);
+          const progress = this.getTorrentProgress(torrent as Torrent);
+          if (progress.status === 'no_peers') this.requestBridge(torrent as Torrent);
+          this.emit('progress', progress);
+        });
+        // Picks up finished and stalled torrents, which free their slot without any event of their own.
+        this.processQueue();
     }, 1000);
   }
 
+  // Re-checks the alternative speed window, so a schedule starting at 01:00 kicks in without a reload.
+  private startBandwidthSchedule() {
+    if (this.scheduleInterval) clearInterval(this.scheduleInterval);
+    this.applyBandwidthLimits();
+    this.scheduleInterval = setInterval(() => this.applyBandwidthLimits(), SCHEDULE_CHECK_INTERVAL);
+  }
+
+  private applyBandwidthLimits(force = false) {
+    if (!this.client || !this.bandwidthSettings) return;
+    const limits = getActiveLimits(this.bandwidthSettings);
+    if (!force && this.activeLimits && this.activeLimits.downloadLimit === limits.downloadLimit && this.activeLimits.uploadLimit === limits.uploadLimit) return;
+    applyClientThrottle(this.client, limits);
+    this.activeLimits = limits;
+    console.log(`Bandwidth limits applied: down ${limits.downloadLimit || 'unlimited'} KB/s, up ${limits.uploadLimit || 'unlimited'} KB/s`);
+    this.emit('bandwidthChanged', limits);
+  }
+
+  public getBandwidthSettings = (): BandwidthSettings => this.bandwidthSettings || loadBandwidthSettings();
+
+  /** The client-wide limits in force right now, after the schedule is taken into account. */
+  public getActiveSpeedLimits = (): SpeedLimits => getActiveLimits(this.getBandwidthSettings());
+
+  /** Saves the settings next to the other `chillymovies-*` preferences and applies them to the running client. */
+  public setBandwidthSettings(settings: BandwidthSettings) {
+    this.bandwidthSettings = settings;
+    saveBandwidthSettings(settings);
+    this.applyBandwidthLimits(true);
+  }
+
+  private loadQueue() {
+    try {
+      const storedQueue = localStorage.getItem(QUEUE_STORAGE_KEY);
+      this.queue = storedQueue ? JSON.parse(storedQueue) : [];
+      const storedMax = Number(localStorage.getItem(MAX_ACTIVE_DOWNLOADS_STORAGE_KEY));
+      if (Number.isInteger(storedMax) && storedMax > 0) this.maxActiveDownloads = storedMax;
+    } catch (error) {
+      console.error("Failed to load or parse download queue:", error);
+      this.queue = [];
+    }
+  }
+
+  private saveQueue() {
+    try {
+      localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(this.queue));
+    } catch (error) {
+      console.error("Failed to save download queue:", error);
+    }
+    this.emit('queueUpdated');
+  }
+
+  public getQueue = (): QueuedDownload[] => [...this.queue];
+
+  public getMaxActiveDownloads = (): number => this.maxActiveDownloads;
+
+  public setMaxActiveDownloads(max: number) {
+    this.maxActiveDownloads = Math.max(1, Math.floor(max) || DEFAULT_MAX_ACTIVE_DOWNLOADS);
+    localStorage.setItem(MAX_ACTIVE_DOWNLOADS_STORAGE_KEY, String(this.maxActiveDownloads));
+    this.emit('queueUpdated');
+    this.processQueue();
+  }
+
+  private findQueued(magnetOrInfoHash: string): QueuedDownload | undefined {
+    const id = getInfoHash(magnetOrInfoHash) || magnetOrInfoHash;
+    return this.queue.find(item => item.id === id);
+  }
+
+  /** Changes a queued download's priority: one place up or down, or straight to the front. */
+  public moveQueuedDownload(id: string, move: QueueMove) {
+    const index = this.queue.findIndex(item => item.id === id);
+    if (index < 0) return;
+    const target = move === 'top' ? 0 : move === 'up' ? index - 1 : index + 1;
+    if (target < 0 || target >= this.queue.length || target === index) return;
+    const [item] = this.queue.splice(index, 1);
+    this.queue.splice(target, 0, item);
+    this.saveQueue();
+  }
+
+  public removeFromQueue(id: string) {
+    const before = this.queue.length;
+    this.queue = this.queue.filter(item => item.id !== id);
+    if (this.queue.length !== before) this.saveQueue();
+  }
+
+  private countActiveSlots(): number {
+    const running = this.client?.torrents.filter(t => SLOT_STATUSES.includes(this.getTorrentProgress(t as Torrent).status)).length || 0;
+    return running + this.startingCount;
+  }
+
+  /** Starts queued downloads, front first, until every active slot is taken. */
+  private processQueue() {
+    if (!this.client || this.queue.length === 0) return;
+    let freeSlots = this.maxActiveDownloads - this.countActiveSlots();
+    while (freeSlots > 0 && this.queue.length > 0) {
+      // Off the queue now: startTorrent only gets to it after an await, and the next pass must not start it again.
+      const next = this.queue.shift()!;
+      this.saveQueue();
+      freeSlots--;
+      this.startingCount++;
+      console.log('Starting queued torrent:', next.name || next.id);
+      this.startTorrent(next.magnetURI, next.name, next.itemId, next.options)
+        .catch(err => console.error('Failed to start queued torrent:', next.id, err))
+        .finally(() => { this.startingCount--; });
+    }
+  }
+
   private loadHistory() {
     try {
       const storedHistory = localStorage.getItem(HISTORY_STORAGE_KEY);
@@ -158,9 +399,14 @@ class WebTorrentService extends EventEmitter {
       this.history[existingIndex] = {
         ...this.history[existingIndex],
         status: newStatus,
-        completedDate: newStatus === 'completed' ? new Date().toISOString() : this.history[existingIndex].completedDate,
+        // Seeding keeps saving a completed torrent; only the first save marks when it finished.
+        completedDate: newStatus === 'completed' && this.history[existingIndex].status !== 'completed' ? new Date().toISOString() : this.history[existingIndex].completedDate,
         lastError: lastError || this.history[existingIndex].lastError,
         size: torrent.length,
+        selectedFiles: torrent.selectedFiles,
+        speedLimits: this.getOwnSpeedLimits(torrent),
+        seedingPolicy: torrent.seedingPolicy,
+        ...this.getSeedingStats(torrent),
       };
     } else {
       this.history.unshift({
@@ -172,25 +418,70 @@ class WebTorrentService extends EventEmitter {
         status: newStatus,
         size: torrent.length,
         lastError,
+        selectedFiles: torrent.selectedFiles,
+        speedLimits: this.getOwnSpeedLimits(torrent),
+        seedingPolicy: torrent.seedingPolicy,
+        ...this.getSeedingStats(torrent),
       });
     }
+    torrent.lastStatsSave = Date.now();
     this.saveHistory();
   }
 
-  async addTorrent(magnetURI: string, itemName?: string, itemId?: string | number): Promise<Torrent | null> {
+  /**
+   * Starts a download, or queues it when every active slot is taken (or others are already waiting).
+   * Resolves with the torrent or the queue entry, and null when it is already downloading or queued.
+   */
+  async addTorrent(magnetURI: string, itemName?: string, itemId?: string | number, options: AddTorrentOptions = {}): Promise<Torrent | QueuedDownload | null> {
     const client = await this.getClient();
-    if (client.get(magnetURI)) {
+    if (this.getTorrent(magnetURI) || this.findQueued(magnetURI)) {
       console.warn("Torrent already added:", magnetURI);
       return null;
     }
+    if (this.queue.length === 0 && this.countActiveSlots() < this.maxActiveDownloads) {
+      return this.startTorrent(magnetURI, itemName, itemId, options);
+    }
+
+    const queued: QueuedDownload = {
+      id: getInfoHash(magnetURI) || magnetURI,
+      magnetURI,
+      name: itemName,
+      itemId,
+      options,
+      queuedDate: new Date().toISOString(),
+    };
+    this.queue.push(queued);
+    console.log('Torrent queued:', queued.id, `(position ${this.queue.length})`);
+    this.saveQueue();
+    this.processQueue();
+    return queued;
+  }
+
+  // Adds a torrent to the client right away. A queued copy of it, if any, leaves the queue.
+  private async startTorrent(magnetURI: string, itemName?: string, itemId?: string | number, options: AddTorrentOptions = {}): Promise<Torrent | null> {
+    const client = await this.getClient();
+    const queued = this.findQueued(magnetURI);
+    if (queued) this.removeFromQueue(queued.id);
+    if (this.getTorrent(magnetURI)) {
+      console.warn("Torrent already added:", magnetURI);
+      return null;
+    }
+
+    // Pieces go to OPFS/IndexedDB where the browser allows it, so a reload doesn't lose them.
+    const store = getPersistentChunkStore();
+    const torrentOptions: TorrentOptions = store ? { store: store as unknown as TorrentOptions['store'] } : {};
+    if (options.torrentFile) torrentOptions.announce = getMagnetURITrackers(magnetURI);
+    const torrentId = options.torrentFile ? Buffer.from(options.torrentFile, 'base64') : magnetURI;
 
     return new Promise((resolve, reject) => {
-        const torrent = client.add(magnetURI, (torrentInstance) => {
+        const torrent = client.add(torrentId, torrentOptions, (torrentInstance) => {
             const enhancedTorrent = torrentInstance as Torrent;
             enhancedTorrent.customName = itemName;
             enhancedTorrent.itemId = itemId;
-            enhancedTorrent.addedDate = new Date();
+            enhancedTorrent.addedDate = enhancedTorrent.addedDate || new Date();
+            enhancedTorrent.seedingPolicy = options.seedingPolicy;
             enhancedTorrent.lastProgressTime = Date.now();
+            if (options.selectedFiles) this.applyFileSelection(enhancedTorrent, options.selectedFiles);
             
             console.log('Torrent added:', enhancedTorrent.infoHash);
             this.updateHistory(enhancedTorrent, 'active');
@@ -198,7 +489,9 @@ class WebTorrentService extends EventEmitter {
             enhancedTorrent.on('done', () => {
                 console.log('Torrent done:', enhancedTorrent.infoHash);
                 enhancedTorrent.statusForHistory = 'completed';
+                enhancedTorrent.seedingSince = enhancedTorrent.seedingSince || Date.now();
                 this.updateHistory(enhancedTorrent, 'completed');
+                this.releaseBridge(enhancedTorrent);
                 this.emit('done', enhancedTorrent);
             });
             
@@ -216,10 +509,18 @@ class WebTorrentService extends EventEmitter {
 
         // If 'add' immediately returns a torrent object (it does for magnet links)
         if (torrent) {
+            // Before any peer connects, so every wire's throttles are moved to the torrent's groups.
+            attachTorrentThrottle(torrent, options.speedLimits);
+            // Tracker warnings can fire before metadata arrives, so start recording them now.
+            attachTorrentInspector(torrent);
+            // Set now rather than on metadata: the no-peers check (and so the queue's slot count) times from it.
+            torrent.addedDate = new Date();
             // Attach an early error handler for invalid magnet links etc.
+            // Remove this torrent object, never by magnet: a duplicate's error would take the original with it.
+            // WebTorrent usually drops an errored torrent itself, and remove() rejects for one that is gone.
             torrent.once('error', (err) => {
                 reject(err);
-                client.remove(magnetURI, () => {});
+                if (client.torrents.includes(torrent)) client.remove(torrent, () => {});
             });
         }
     });
@@ -229,10 +530,90 @@ class WebTorrentService extends EventEmitter {
     return this.client?.torrents.map(t => this.getTorrentProgress(t as Torrent)) || [];
   }
 
+  private getSelectedFiles(torrent: Torrent): TorrentFile[] {
+    if (!torrent.selectedFiles) return torrent.files;
+    return torrent.files.filter((_, index) => torrent.selectedFiles!.includes(index));
+  }
+
+  // WebTorrent only emits 'done' once every file is complete, which never happens when some are deselected.
+  private isSelectionDone(torrent: Torrent): boolean {
+    if (!torrent.ready) return false;
+    if (!torrent.selectedFiles) return torrent.done;
+    const selectedFiles = this.getSelectedFiles(torrent);
+    return selectedFiles.length > 0 && selectedFiles.every(file => (file as TorrentFile & { done: boolean }).done);
+  }
+
+  private checkSelectionDone(torrent: Torrent) {
+    if (!torrent.selectedFiles || torrent.statusForHistory === 'completed' || !this.isSelectionDone(torrent)) return;
+    console.log('Torrent selection done:', torrent.infoHash);
+    torrent.statusForHistory = 'completed';
+    torrent.seedingSince = torrent.seedingSince || Date.now();
+    this.updateHistory(torrent, 'completed');
+    this.releaseBridge(torrent);
+    this.emit('done', torrent);
+  }
+
+  /**
+   * Browsers only reach WebRTC peers, so a torrent without any asks the download backend to join
+   * its TCP/UDP swarm and serve it back as a web seed. Retried a few minutes after a failure.
+   */
+  private requestBridge(torrent: Torrent) {
+    if (torrent.bridgeState === 'requesting' || torrent.bridgeState === 'active') return;
+    if (torrent.bridgeState === 'failed' && Date.now() - (torrent.bridgeAttemptAt || 0) < BRIDGE_RETRY_INTERVAL) return;
+    torrent.bridgeState = 'requesting';
+    torrent.bridgeAttemptAt = Date.now();
+    requestBridge(torrent.magnetURI, torrent.customName || torrent.name).then(bridge => {
+      if (this.getTorrent(torrent.infoHash) !== torrent) {
+        releaseBridge(bridge.taskId); // Removed while we waited
+        return;
+      }
+      torrent.addWebSeed(bridge.webSeedUrl);
+      torrent.bridgeState = 'active';
+      torrent.bridgeError = undefined;
+      console.log('Torrent bridged through the download server:', torrent.infoHash);
+    }, (error: Error) => {
+      torrent.bridgeState = 'failed';
+      torrent.bridgeError = error.message;
+      console.warn('Download server could not bridge torrent:', torrent.infoHash, error.message);
+    });
+  }
+
+  private releaseBridge(torrent: Torrent) {
+    if (torrent.bridgeState !== 'active') return;
+    torrent.bridgeState = undefined;
+    releaseBridge(torrent.infoHash);
+  }
+
+  private getEffectiveSeedingPolicy = (torrent: Torrent): SeedingPolicy => torrent.seedingPolicy || this.getSeedingPolicy();
+
+  // Ratio is uploaded / downloaded, so it only means something once there is metadata.
+  private getSeedingStats(torrent: Torrent): { uploaded: number; ratio: number } {
+    const ratio = torrent.ready && Number.isFinite(torrent.ratio) ? torrent.ratio : 0;
+    return { uploaded: torrent.uploaded, ratio: Math.round(ratio * 100) / 100 };
+  }
+
+  // Runs every tick for a finished torrent: stops it once its rule fires, and otherwise keeps its stats in history fresh.
+  private enforceSeedingPolicy(torrent: Torrent) {
+    if (!torrent.seedingSince || torrent.seedingStopped || torrent.paused) return;
+    const reason = getSeedingStopReason(this.getEffectiveSeedingPolicy(torrent), torrent.ratio, Date.now() - torrent.seedingSince);
+    if (reason) this.stopSeeding(torrent, reason);
+    else if (Date.now() - (torrent.lastStatsSave || 0) > SEEDING_STATS_SAVE_INTERVAL) this.updateHistory(torrent);
+  }
+
+  private stopSeeding(torrent: Torrent, reason: SeedingStopReason) {
+    console.log('Torrent seeding stopped:', torrent.infoHash, `(${reason} limit reached)`);
+    torrent.seedingStopped = reason;
+    // pause() only turns away new peers; the ones already connected would keep downloading from us.
+    torrent.pause();
+    torrent.wires.slice().forEach(wire => wire.destroy());
+    this.updateHistory(torrent, 'completed');
+  }
   private getTorrentProgress(torrent: Torrent): TorrentProgress {
+    const selectedFiles = torrent.ready ? this.getSelectedFiles(torrent) : [];
+    const isDone = this.isSelectionDone(torrent);
     let status: TorrentProgressStatus = 'connecting';
     if (torrent.ready) {
-        if (torrent.done) status = torrent.uploadSpeed > 0 ? 'seeding' : 'done';
+        if (isDone) status = torrent.seedingStopped ? 'completed' : torrent.uploadSpeed > 0 ? 'seeding' : 'done';
         else if (torrent.paused) status = 'paused';
         else status = 'downloading';
     } else {
@@ -248,42 +629,97 @@ class WebTorrentService extends EventEmitter {
         torrent.lastProgressTime = Date.now();
     }
     
-    if (status !== 'done' && status !== 'seeding' && torrent.numPeers === 0 && Date.now() - (torrent.addedDate?.getTime() || 0) > NO_PEERS_TIMEOUT) {
+    if (!isDone && torrent.numPeers === 0 && Date.now() - (torrent.addedDate?.getTime() || 0) > NO_PEERS_TIMEOUT) {
         status = 'no_peers';
-        torrent.noPeersReason = "No peers found after 60 seconds.";
+        torrent.noPeersReason = torrent.bridgeState === 'failed'
+          ? `No peers found after 60 seconds, and the download server could not bridge it: ${torrent.bridgeError}`
+          : "No peers found after 60 seconds.";
     }
 
+    // With a partial selection, progress and size only count the chosen files.
+    const length = torrent.selectedFiles ? selectedFiles.reduce((sum, f) => sum + f.length, 0) : torrent.length;
+    const downloaded = torrent.selectedFiles ? selectedFiles.reduce((sum, f) => sum + f.downloaded, 0) : torrent.downloaded;
+
     return {
       torrentId: torrent.infoHash,
-      progress: torrent.progress,
+      progress: torrent.selectedFiles ? (isDone ? 1 : length > 0 ? downloaded / length : 0) : torrent.progress,
       downloadSpeed: torrent.downloadSpeed,
       uploadSpeed: torrent.uploadSpeed,
       peers: torrent.numPeers,
       remainingTime: torrent.timeRemaining,
-      downloaded: torrent.downloaded,
-      length: torrent.length,
+      downloaded,
+      length,
       customName: torrent.customName,
       addedDate: torrent.addedDate,
       itemId: torrent.itemId,
       status: status,
-      noPeersReason: torrent.noPeersReason
+      noPeersReason: torrent.noPeersReason,
+      fileCount: torrent.ready ? torrent.files.length : undefined,
+      selectedFileCount: torrent.ready ? selectedFiles.length : undefined,
+      speedLimits: this.getOwnSpeedLimits(torrent),
+      ...this.getSeedingStats(torrent),
+      seedingPolicy: torrent.seedingPolicy,
+      seedingStopReason: torrent.seedingStopped,
+      bridgeState: torrent.bridgeState,
     };
   }
 
-  async removeTorrent(infoHashOrMagnetURI: string): Promise<void> {
+  private getOwnSpeedLimits(torrent: Torrent): SpeedLimits | undefined {
+    const limits = getTorrentThrottle(torrent);
+    return hasSpeedLimits(limits) ? limits : undefined;
+  }
+
+  /** Caps one torrent on top of the client-wide limits (0 = no cap of its own). Saved with its history entry. */
+  setTorrentSpeedLimits(infoHashOrMagnetURI: string, limits: SpeedLimits) {
+    const torrent = this.getTorrent(infoHashOrMagnetURI);
+    if (!torrent) return;
+    setTorrentThrottle(torrent, limits);
+    this.updateHistory(torrent);
+  }
+
+  public getSeedingPolicy = (): SeedingPolicy => this.seedingPolicy || loadSeedingPolicy();
+
+  /** Replaces the global seeding policy. Torrents without an override follow it from the next tick. */
+  public setSeedingPolicy(policy: SeedingPolicy) {
+    this.seedingPolicy = policy;
+    saveSeedingPolicy(policy);
+  }
+
+  /**
+   * Gives one torrent its own seeding policy, or hands it back to the global one (undefined).
+   * A torrent whose rule already fired starts seeding again, until the new rule fires.
+   */
+  setTorrentSeedingPolicy(infoHashOrMagnetURI: string, policy?: SeedingPolicy) {
+    const torrent = this.getTorrent(infoHashOrMagnetURI);
+    if (!torrent) return;
+    torrent.seedingPolicy = policy;
+    if (torrent.seedingStopped) this.resumeTorrent(torrent.infoHash);
+    else this.updateHistory(torrent);
+  }
+
+  /**
+   * Stops a torrent and drops it from the client. Its stored pieces are deleted unless it had
+   * finished, in which case they stay until evicted from the storage view (`deleteData` overrides).
+   */
+  async removeTorrent(infoHashOrMagnetURI: string, deleteData?: boolean): Promise<void> {
     const client = await this.getClient();
-    const torrent = client.get(infoHashOrMagnetURI) as Torrent;
+    const torrent = this.getTorrent(infoHashOrMagnetURI);
     if (torrent) {
       this.updateHistory(torrent, 'removed');
-      client.remove(infoHashOrMagnetURI, (err) => {
-          if (err) console.error("Error removing torrent:", err);
-          else this.emit('removed', torrent.infoHash);
+      this.releaseBridge(torrent);
+      const destroyStore = deleteData ?? !this.isSelectionDone(torrent);
+      await new Promise<void>(resolve => {
+        client.remove(torrent, { destroyStore }, (err) => {
+            if (err) console.error("Error removing torrent:", err);
+            else this.emit('removed', torrent.infoHash);
+            resolve();
+        });
       });
     }
   }
 
   pauseTorrent(infoHashOrMagnetURI: string) {
-    const torrent = this.client?.get(infoHashOrMagnetURI) as Torrent;
+    const torrent = this.getTorrent(infoHashOrMagnetURI);
     if (torrent && !torrent.paused) {
       torrent.pause();
       torrent.statusForHistory = 'paused';
@@ -292,31 +728,240 @@ class WebTorrentService extends EventEmitter {
   }
 
   resumeTorrent(infoHashOrMagnetURI: string) {
-    const torrent = this.client?.get(infoHashOrMagnetURI) as Torrent;
+    const torrent = this.getTorrent(infoHashOrMagnetURI);
     if (torrent && torrent.paused) {
       torrent.resume();
-      torrent.statusForHistory = 'active';
+      if (torrent.seedingStopped) {
+        // Seeding again: the time limit counts from now.
+        torrent.seedingStopped = undefined;
+        torrent.seedingSince = Date.now();
+      }
+      torrent.statusForHistory = this.isSelectionDone(torrent) ? 'completed' : 'active';
       this.updateHistory(torrent);
     }
   }
   
-  getTorrent = (infoHashOrMagnetURI: string): Torrent | undefined => this.client?.get(infoHashOrMagnetURI) as Torrent;
+  // client.get() is async in WebTorrent 2 (it parses the id first), so look the torrent up directly.
+  getTorrent = (infoHashOrMagnetURI: string): Torrent | undefined => {
+    const infoHash = getInfoHash(infoHashOrMagnetURI);
+    return this.client?.torrents.find(t => (infoHash && t.infoHash === infoHash) || t.magnetURI === infoHashOrMagnetURI) as Torrent | undefined;
+  };
 
-  async getLargestFileForStreaming(infoHashOrMagnetURI: string): Promise<{ file: TorrentFile, streamUrl: string } | null> {
+  // Downloads that were running when the page closed go back to the front of the queue.
+  // Their verified pieces are still in the persistent store, so they pick up where they left off.
+  private resumeInterruptedDownloads() {
+    if (!getPersistentChunkStore()) return;
+    const interrupted: QueuedDownload[] = this.history
+      .filter(item => item.status === 'active' && !this.findQueued(item.magnetURI))
+      .map(item => ({
+        id: item.infoHash,
+        magnetURI: item.magnetURI,
+        name: item.name,
+        itemId: item.itemId,
+        options: { selectedFiles: item.selectedFiles, speedLimits: item.speedLimits, seedingPolicy: item.seedingPolicy },
+        queuedDate: new Date().toISOString(),
+      }));
+    if (interrupted.length === 0) return;
+    console.log('Resuming interrupted downloads:', interrupted.map(item => item.id));
+    this.queue.unshift(...interrupted);
+    this.saveQueue();
+  }
+
+  public getStorageBackend = (): StorageBackend => getStorageBackend();
+
+  /** What the browser reports for the whole origin, plus every torrent in the persistent store. */
+  async getStorageUsage(): Promise<StorageUsage> {
+    const [estimate, stored] = await Promise.all([getStorageEstimate(), listStoredTorrents()]);
+    const downloads = stored.map(({ infoHash, bytes }): StoredDownload => {
+      const torrent = this.getTorrent(infoHash);
+      const historyItem = this.history.find(item => item.infoHash === infoHash);
+      const isComplete = torrent ? this.isSelectionDone(torrent) : historyItem?.status === 'completed';
+      return {
+        infoHash,
+        name: torrent?.customName || torrent?.name || historyItem?.name || infoHash,
+        bytes,
+        size: torrent?.length || historyItem?.size,
+        state: torrent && !isComplete ? 'active' : isComplete ? 'complete' : 'partial',
+      };
+    });
+    return { backend: getStorageBackend(), estimate, downloads: downloads.sort((a, b) => b.bytes - a.bytes) };
+  }
+
+  /** Frees a torrent's stored pieces. A finished torrent that is still seeding is removed first. */
+  async evictStoredTorrent(infoHash: string): Promise<void> {
+    if (this.getTorrent(infoHash)) await this.removeTorrent(infoHash, true);
+    else await deleteStoredTorrent(infoHash);
+  }
+
+  public requestPersistentStorage = (): Promise<boolean> => requestPersistentStorage();
+
+  /** The files of a torrent whose metadata has arrived, or an empty list before that. */
+  getTorrentFiles(infoHashOrMagnetURI: string): TorrentFileInfo[] {
+    const torrent = this.getTorrent(infoHashOrMagnetURI);
+    if (!torrent?.ready) return [];
+    return torrent.files.map((file, index) => ({
+      index,
+      name: file.name,
+      path: file.path,
+      length: file.length,
+      kind: isExtraFile(file.path) ? 'extra' : isVideoFile(file.name) ? 'video' : isSubtitleFile(file.name) ? 'subtitle' : 'other',
+      selected: !torrent.selectedFiles || torrent.selectedFiles.includes(index),
+      progress: file.progress,
+    }));
+  }
+
+  /** Peers, trackers, pieces and general info for the details drawer, or null if the torrent isn't loaded. */
+  getTorrentDetails(infoHashOrMagnetURI: string): TorrentDetails | null {
+    const torrent = this.getTorrent(infoHashOrMagnetURI);
+    if (!torrent) return null;
+    return {
+      ...inspectTorrent(torrent),
+      progress: this.getTorrentProgress(torrent),
+      files: this.getTorrentFiles(torrent.infoHash),
+      addedDate: torrent.addedDate?.toISOString(),
+      length: torrent.ready ? torrent.length : 0,
+      uploaded: torrent.uploaded,
+      downloaded: torrent.downloaded,
+    };
+  }
+
+  /**
+   * Writes a torrent's finished files, or just the one at `fileIndex`, to the user's disk: into the
+   * remembered download folder where the browser allows it, otherwise as browser downloads streamed
+   * from the service worker. Either way the data is streamed from the chunk store, never buffered whole.
+   */
+  async saveToDisk(infoHashOrMagnetURI: string, fileIndex?: number, onProgress?: (progress: number) => void): Promise<SaveToDiskResult> {
     const torrent = this.getTorrent(infoHashOrMagnetURI);
-    if (!torrent || !torrent.ready) return null;
+    if (!torrent?.ready) throw new Error('This download is not loaded.');
+    const candidates = fileIndex !== undefined ? [torrent.files[fileIndex]].filter(Boolean) : this.getSelectedFiles(torrent);
+    const files = candidates.filter(file => (file as TorrentFile & { done: boolean }).done);
+    if (files.length === 0) throw new Error('Nothing has finished downloading yet.');
 
-    const file = torrent.files.reduce((a, b) => (a.length > b.length ? a : b));
-    if (!file) return null;
-    
-    return new Promise(resolve => {
-        const server = (file as any).createServer();
-        server.listen(0, () => {
-            const port = (server.address() as any).port;
-            const streamUrl = `http://localhost:${port}/0`; // Assuming file index 0 on this server
-            resolve({ file, streamUrl });
+    if (supportsDirectoryAccess()) {
+      const directoryName = await writeFilesToDirectory(files as unknown as SavableFile[], onProgress);
+      console.log('Saved to disk:', torrent.infoHash, `(${files.length} files to "${directoryName}")`);
+      return { method: 'directory', fileCount: files.length, directoryName };
+    }
+    await this.ensureStreamServer();
+    files.forEach(file => downloadThroughBrowser(file.streamURL, file.name));
+    return { method: 'download', fileCount: files.length };
+  }
+
+  /** Downloads only the given files from now on. The choice is saved with the torrent's history entry. */
+  setFileSelection(infoHashOrMagnetURI: string, fileIndexes: number[]) {
+    const torrent = this.getTorrent(infoHashOrMagnetURI);
+    if (!torrent?.ready) return;
+    this.applyFileSelection(torrent, fileIndexes);
+    // A finished selection that grew is active again.
+    if (torrent.statusForHistory === 'completed' && !this.isSelectionDone(torrent)) torrent.statusForHistory = 'active';
+    this.updateHistory(torrent);
+  }
+
+  private applyFileSelection(torrent: Torrent, fileIndexes: number[]) {
+    const indexes = Array.from(new Set(fileIndexes)).filter(i => i >= 0 && i < torrent.files.length).sort((a, b) => a - b);
+    // Clear the whole-torrent selection first: deselecting single files would also drop
+    // the pieces they share with their selected neighbours.
+    torrent.deselect(0, torrent.pieces.length - 1, 0);
+    indexes.forEach(index => torrent.files[index].select());
+    torrent.selectedFiles = indexes.length === torrent.files.length ? undefined : indexes;
+  }
+
+  /**
+   * Registers the streaming service worker and attaches WebTorrent's browser server to it.
+   * Torrent files are then reachable at same-origin `/webtorrent/...` URLs (file.streamURL)
+   * that a <video> element can request byte ranges from.
+   */
+  private ensureStreamServer(): Promise<void> {
+    if (this.streamServerReady) return this.streamServerReady;
+    this.streamServerReady = (async () => {
+      if (!('serviceWorker' in navigator)) throw new Error('This browser does not support service workers.');
+      const client = await this.getClient();
+      await navigator.serviceWorker.register(STREAM_WORKER_URL, { scope: '/' });
+      const registration = await navigator.serviceWorker.ready;
+      const worker = registration.active;
+      // createServer() refuses a worker that is still activating.
+      if (worker && worker.state !== 'activated') {
+        await new Promise<void>(resolve => {
+          const onStateChange = () => {
+            if (worker.state !== 'activated') return;
+            worker.removeEventListener('statechange', onStateChange);
+            resolve();
+          };
+          worker.addEventListener('statechange', onStateChange);
         });
+      }
+      client.createServer({ controller: registration });
+    })().catch(error => {
+      this.streamServerReady = null;
+      throw error;
     });
+    return this.streamServerReady;
+  }
+
+  /**
+   * Starts (or reuses) a torrent for playback and returns a service-worker stream URL for one
+   * of its files. Torrents that aren't loaded yet, e.g. from history, are added first.
+   */
+  async prepareStream(infoHashOrMagnetURI: string, options: StreamOptions = {}): Promise<{ file: TorrentFile, fileIndex: number, streamUrl: string } | null> {
+    // Playback skips the queue: the viewer is waiting for it now.
+    const torrent = this.getTorrent(infoHashOrMagnetURI) || await this.startTorrent(infoHashOrMagnetURI, options.itemName, options.itemId);
+    if (!torrent) return null;
+    if (!torrent.ready) await this.waitForReady(torrent, STREAM_METADATA_TIMEOUT);
+
+    let file: TorrentFile | undefined;
+    if (options.fileIndex !== undefined) {
+      file = torrent.files[options.fileIndex];
+    } else {
+      const files = options.fileNameFilter ? torrent.files.filter(f => options.fileNameFilter!(f.name)) : torrent.files;
+      const videoFiles = files.filter(f => isVideoFile(f.name));
+      const candidates = videoFiles.length > 0 ? videoFiles : files;
+      file = candidates.length > 0 ? candidates.reduce((a, b) => (a.length > b.length ? a : b)) : undefined;
+    }
+    if (!file) return null;
+
+    this.prioritiseForStreaming(torrent, file);
+    await this.ensureStreamServer();
+    return { file, fileIndex: torrent.files.indexOf(file), streamUrl: file.streamURL };
+  }
+
+  // Rejects instead of leaving the player waiting on a torrent nobody is seeding.
+  private waitForReady(torrent: Torrent, timeout: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        torrent.off('ready', onReady);
+        torrent.off('error', onError);
+      };
+      const onReady = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = (error: Error | string) => {
+        cleanup();
+        reject(error instanceof Error ? error : new Error(error));
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error(`No peers sent the file list for "${torrent.name || torrent.infoHash}" within ${timeout / 1000} seconds. The torrent may have no seeders right now.`));
+      }, timeout);
+      torrent.once('ready', onReady);
+      torrent.once('error', onError);
+    });
+  }
+
+  /** Largest video file of a torrent (largest file if there is no video). */
+  async getLargestFileForStreaming(infoHashOrMagnetURI: string): Promise<{ file: TorrentFile, streamUrl: string } | null> {
+    return this.prepareStream(infoHashOrMagnetURI);
+  }
+
+  // The played file goes ahead of the rest of the torrent, and its opening pieces ahead of everything.
+  private prioritiseForStreaming(torrent: Torrent, file: TorrentFile) {
+    const offset = (file as TorrentFile & { offset: number }).offset;
+    const firstPiece = Math.floor(offset / torrent.pieceLength);
+    const lastPiece = Math.floor((offset + Math.max(file.length - 1, 0)) / torrent.pieceLength);
+    torrent.select(firstPiece, lastPiece, 1);
+    const headEnd = Math.min(firstPiece + Math.ceil(STREAM_HEAD_BYTES / torrent.pieceLength), lastPiece);
+    (torrent as Torrent & { critical(start: number, end: number): void }).critical(firstPiece, headEnd);
   }
 
   onTorrentProgress(listener: (progress: TorrentProgress) => void): () => void {
@@ -343,6 +988,14 @@ class WebTorrentService extends EventEmitter {
     this.on('historyUpdated', listener);
     return () => this.off('historyUpdated', listener);
   }
+  onQueueUpdated(listener: () => void): () => void {
+    this.on('queueUpdated', listener);
+    return () => this.off('queueUpdated', listener);
+  }
+  onBandwidthChanged(listener: (limits: SpeedLimits) => void): () => void {
+    this.on('bandwidthChanged', listener);
+    return () => this.off('bandwidthChanged', listener);
+  }
 }
 
 const webTorrentService = new WebTorrentService();
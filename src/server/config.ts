@@ -1,9 +1,20 @@
 // src/server/config.ts
+import path from 'path';
 import dotenv from 'dotenv';
 dotenv.config(); // Load .env file
 
+const downloadBasePath = process.env.DOWNLOAD_BASE_PATH || './chillymovies_downloads';
+
 export const config = {
   port: parseInt(process.env.BACKEND_PORT || '3001', 10),
   apiKey: process.env.BACKEND_API_KEY, // Will be validated in auth middleware
-  downloadBasePath: process.env.DOWNLOAD_BASE_PATH || './chillymovies_downloads',
+  downloadBasePath,
+  // The download queue is persisted here so it survives restarts.
+  queueStorePath: process.env.QUEUE_STORE_PATH || path.join(downloadBasePath, '.chillymovies-queue.json'),
+  // Global rate limits and the alternative speed schedule, as last set from the Settings page.
+  bandwidthSettingsPath: process.env.BANDWIDTH_SETTINGS_PATH || path.join(downloadBasePath, '.chillymovies-bandwidth.json'),
+  // Plain HTTP(S) downloads and how far each of their segments got.
+  httpStorePath: process.env.HTTP_STORE_PATH || path.join(downloadBasePath, '.chillymovies-http.json'),
+  // Parallel connections per HTTP download, for servers that accept range requests.
+  httpConnections: parseInt(process.env.HTTP_CONNECTIONS || '4', 10),
 };
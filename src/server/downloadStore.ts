@@ -0,0 +1,171 @@
+// src/server/downloadStore.ts
+import path from 'path';
+import fs from 'fs-extra';
+import { config } from './config';
+import type { DownloadHistoryExportItem, HttpDownloadEntry, QueueEntry, QueueState, StoredDownload } from '../types/download';
+
+const SAVE_DEBOUNCE = 500; // Progress updates can arrive every second; batch the writes.
+const STORE_VERSION = 1;
+
+interface StoreFile<T> {
+  version: number;
+  downloads: T[];
+}
+
+export interface HistoryImportResult {
+  imported: number;
+  skipped: number;
+}
+
+// How a v2 history status carries over into the queue. Removed entries are not imported.
+const HISTORY_STATUS_TO_STATE: Record<DownloadHistoryExportItem['status'], QueueState | null> = {
+  completed: 'completed',
+  failed: 'failed',
+  error: 'failed',
+  active: 'queued',
+  stalled: 'queued',
+  removed: null,
+};
+
+/**
+ * Durable download queue backed by a JSON file. Writes go to a temp file that is
+ * renamed over the original, so a crash mid-write never leaves a truncated queue.
+ */
+export class JsonDownloadStore<T extends StoredDownload> {
+  protected entries = new Map<string, T>();
+  private loaded = false;
+  private saveTimeout: NodeJS.Timeout | null = null;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  public async load(): Promise<T[]> {
+    if (this.loaded) return this.getAll();
+    try {
+      if (await fs.pathExists(this.filePath)) {
+        const data: StoreFile<T> = await fs.readJson(this.filePath);
+        (data.downloads || []).forEach(entry => this.entries.set(entry.taskId, entry));
+      }
+      console.log(`[DownloadStore] Loaded ${this.entries.size} queued downloads from ${this.filePath}`);
+    } catch (error) {
+      // Keep the unreadable file for inspection instead of overwriting it with an empty queue.
+      const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+      console.error(`[DownloadStore] Could not read ${this.filePath}, moving it to ${backupPath}:`, error);
+      await fs.move(this.filePath, backupPath).catch(() => undefined);
+    }
+    this.loaded = true;
+    return this.getAll();
+  }
+
+  public getAll(): T[] {
+    return Array.from(this.entries.values()).sort((a, b) => a.addedTime - b.addedTime);
+  }
+
+  public get(taskId: string): T | undefined {
+    return this.entries.get(taskId);
+  }
+
+  public upsert(entry: Omit<T, 'updatedTime'>): T {
+    const stored = { ...this.entries.get(entry.taskId), ...entry, updatedTime: Date.now() } as T;
+    this.entries.set(entry.taskId, stored);
+    this.scheduleSave();
+    return stored;
+  }
+
+  /** Moves an entry to a new state. No-op (returns undefined) for unknown tasks. */
+  public setState(taskId: string, state: QueueState, changes: Partial<Pick<T, 'size' | 'lastError' | 'name'>> = {}): T | undefined {
+    const entry = this.entries.get(taskId);
+    if (!entry) return undefined;
+    if (entry.state === state && Object.keys(changes).length === 0) return entry;
+    const updated: T = {
+      ...entry,
+      ...changes,
+      state,
+      updatedTime: Date.now(),
+      completedTime: state === 'completed' || state === 'seeding' ? entry.completedTime || Date.now() : entry.completedTime,
+      lastError: state === 'failed' ? changes.lastError || entry.lastError : undefined,
+    };
+    this.entries.set(taskId, updated);
+    this.scheduleSave();
+    return updated;
+  }
+
+  public remove(taskId: string): boolean {
+    const existed = this.entries.delete(taskId);
+    if (existed) this.scheduleSave();
+    return existed;
+  }
+
+  protected scheduleSave() {
+    if (this.saveTimeout) clearTimeout(this.saveTimeout);
+    this.saveTimeout = setTimeout(() => {
+      this.saveTimeout = null;
+      this.pendingSave = this.pendingSave.then(() => this.writeFile());
+    }, SAVE_DEBOUNCE);
+  }
+
+  /** Writes any pending changes immediately. Called on shutdown. */
+  public async flush(): Promise<void> {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+      this.pendingSave = this.pendingSave.then(() => this.writeFile());
+    }
+    await this.pendingSave;
+  }
+
+  private async writeFile(): Promise<void> {
+    const data: StoreFile<T> = { version: STORE_VERSION, downloads: this.getAll() };
+    const tempPath = `${this.filePath}.tmp`;
+    try {
+      await fs.ensureDir(path.dirname(this.filePath));
+      await fs.writeJson(tempPath, data, { spaces: 2 });
+      await fs.move(tempPath, this.filePath, { overwrite: true });
+    } catch (error) {
+      console.error(`[DownloadStore] Failed to save queue to ${this.filePath}:`, error);
+    }
+  }
+}
+
+/** The torrent queue, which can also take in a browser download history export. */
+class DownloadStore extends JsonDownloadStore<QueueEntry> {
+  /**
+   * Imports a `chillymovies_download_history_v2` export. Unfinished downloads come in as
+   * 'queued' so the caller can start them; tasks already in the queue are left untouched.
+   */
+  public importHistory(items: DownloadHistoryExportItem[]): HistoryImportResult {
+    let imported = 0;
+    let skipped = 0;
+    items.forEach(item => {
+      const state = item && HISTORY_STATUS_TO_STATE[item.status];
+      if (!state || !item.infoHash || !item.magnetURI || this.entries.has(item.infoHash)) {
+        skipped++;
+        return;
+      }
+      const addedTime = Date.parse(item.addedDate);
+      const completedTime = item.completedDate ? Date.parse(item.completedDate) : NaN;
+      this.entries.set(item.infoHash, {
+        taskId: item.infoHash,
+        magnetURI: item.magnetURI,
+        name: item.name,
+        itemId: item.itemId,
+        state,
+        addedTime: Number.isFinite(addedTime) ? addedTime : Date.now(),
+        updatedTime: Date.now(),
+        completedTime: Number.isFinite(completedTime) ? completedTime : undefined,
+        size: item.size,
+        lastError: state === 'failed' ? item.lastError : undefined,
+      });
+      imported++;
+    });
+    if (imported > 0) this.scheduleSave();
+    console.log(`[DownloadStore] Imported ${imported} history entries (${skipped} skipped)`);
+    return { imported, skipped };
+  }
+}
+
+const downloadStore = new DownloadStore(config.queueStorePath);
+export default downloadStore;
+
+// HTTP downloads keep their own file: their entries carry segment progress instead of a magnet.
+export const httpDownloadStore = new JsonDownloadStore<HttpDownloadEntry>(config.httpStorePath);
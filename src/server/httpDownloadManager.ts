@@ -0,0 +1,472 @@
+// src/server/httpDownloadManager.ts
+import EventEmitter from 'events';
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs-extra';
+import { open, type FileHandle } from 'fs/promises';
+import { config } from './config';
+import { httpDownloadStore } from './downloadStore';
+import type { Aria2DownloadItemDisplay, DownloadEventPayloads, DownloadEventType, HttpDownloadEntry, HttpSegment, QueueState } from '../types/download';
+
+export interface AddHttpDownloadOptions {
+  name?: string;
+  itemId?: string | number;
+  quality?: string;
+  fileName?: string; // Defaults to the server's Content-Disposition, then the last part of the URL
+  checksum?: string; // "sha256:<hex>", or bare hex whose length gives away the algorithm
+  connections?: number;
+}
+
+// What a running download holds that isn't worth saving.
+interface HttpJob {
+  controller: AbortController;
+  connections: number; // Segments currently streaming
+  receivedBytes: number; // Since the last progress tick
+  downloadSpeed: number;
+  verifying: boolean;
+}
+
+const PROGRESS_INTERVAL = 1000; // 1 second
+const MIN_SEGMENT_SIZE = 2 * 1024 * 1024; // Smaller files aren't worth another connection
+const MAX_CONNECTIONS = 16;
+const MAX_RETRIES = 5; // Per segment, before the whole download fails
+const RETRY_DELAY = 2000; // Grows with every attempt
+const PART_SUFFIX = '.part'; // Until every byte is in and the checksum matched
+const INVALID_FILE_NAME_CHARS = /[<>:"/\\|?*\u0000-\u001f]/g;
+
+// Checksum algorithms, keyed by how many hex digits their digest has (for bare hex input).
+const CHECKSUM_ALGORITHMS: Record<string, number> = { md5: 32, sha1: 40, sha256: 64, sha512: 128 };
+
+// Queue states that start transferring again on boot.
+const RESUMABLE_STATES: QueueState[] = ['queued', 'active'];
+
+// The server no longer serves the bytes we started with, so retrying the segment can't help.
+class SourceChangedError extends Error {}
+
+export const isHttpUrl = (value: string) => /^https?:\/\//i.test(value.trim());
+
+/** "sha256:<lowercase hex>" from either that form or bare hex, or null if it isn't a checksum we can verify. */
+export function normalizeChecksum(input: string): string | null {
+  const match = input.trim().match(/^(?:([a-z0-9-]+)[:=])?([0-9a-f]+)$/i);
+  if (!match) return null;
+  const digest = match[2].toLowerCase();
+  const algorithm = match[1]
+    ? match[1].toLowerCase().replace('-', '')
+    : Object.keys(CHECKSUM_ALGORITHMS).find(name => CHECKSUM_ALGORITHMS[name] === digest.length);
+  if (!algorithm || CHECKSUM_ALGORITHMS[algorithm] !== digest.length) return null;
+  return `${algorithm}:${digest}`;
+}
+
+function planSegments(totalLength: number | undefined, acceptsRanges: boolean, connections: number): HttpSegment[] {
+  if (!totalLength) return [{ start: 0, end: -1, downloaded: 0 }];
+  const count = acceptsRanges ? Math.max(1, Math.min(connections, Math.floor(totalLength / MIN_SEGMENT_SIZE))) : 1;
+  const size = Math.ceil(totalLength / count);
+  return Array.from({ length: count }, (_, index) => ({
+    start: index * size,
+    end: Math.min(totalLength, (index + 1) * size) - 1,
+    downloaded: 0,
+  }));
+}
+
+const isSegmentDone = (segment: HttpSegment) => segment.end >= 0 && segment.start + segment.downloaded > segment.end;
+const downloadedBytes = (entry: HttpDownloadEntry) => entry.segments.reduce((sum, segment) => sum + segment.downloaded, 0);
+
+function fileNameFromResponse(response: Response): string | undefined {
+  const disposition = response.headers.get('content-disposition') || '';
+  const encoded = disposition.match(/filename\*\s*=\s*[^']*'[^']*'([^;]+)/i);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim());
+    } catch {
+      // Fall through to the plain filename parameter.
+    }
+  }
+  const plain = disposition.match(/filename\s*=\s*"?([^";]+)"?/i);
+  if (plain) return plain[1].trim();
+  try {
+    return decodeURIComponent(path.posix.basename(new URL(response.url).pathname)) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const sanitizeFileName = (name: string) => path.basename(name).replace(INVALID_FILE_NAME_CHARS, '_').trim().replace(/^\.+/, '');
+
+// Stops a retry delay early when the download is paused or removed.
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
+
+/**
+ * Downloads plain HTTP(S) links on the server. Servers that accept range requests are fetched
+ * over several connections at once, one byte range each, written straight into place in a
+ * `.part` file. Segment progress is saved as it goes, so a paused, failed or interrupted download
+ * continues with Range requests instead of starting over. Emits the same events as the torrent
+ * engine, so routes and the SSE stream treat both alike.
+ */
+class HttpDownloadManager extends EventEmitter {
+  private jobs = new Map<string, HttpJob>();
+  // Each download's current run, so a quick pause and resume never has two runs writing at once.
+  private runs = new Map<string, Promise<void>>();
+  private progressInterval: NodeJS.Timeout | null = null;
+
+  public has(taskId: string): boolean {
+    return !!httpDownloadStore.get(taskId);
+  }
+
+  /** Saves the download and starts it. Resolves straight away; the server is contacted in the background. */
+  public async addDownload(url: string, options: AddHttpDownloadOptions = {}): Promise<Aria2DownloadItemDisplay> {
+    if (!isHttpUrl(url)) throw new Error('Only http and https URLs can be downloaded');
+    const checksum = options.checksum ? normalizeChecksum(options.checksum) : undefined;
+    if (checksum === null) throw new Error(`Unsupported checksum "${options.checksum}"`);
+
+    await httpDownloadStore.load();
+    const entry = httpDownloadStore.upsert({
+      taskId: `http-${crypto.randomUUID()}`,
+      url: url.trim(),
+      name: options.name,
+      itemId: options.itemId,
+      quality: options.quality,
+      fileName: options.fileName ? sanitizeFileName(options.fileName) || undefined : undefined,
+      checksum,
+      connections: Math.max(1, Math.min(options.connections || config.httpConnections, MAX_CONNECTIONS)),
+      segments: [],
+      state: 'active',
+      addedTime: Date.now(),
+    });
+    console.log(`[HttpDownloadManager] Added ${entry.taskId}: ${entry.url}`);
+    this.start(entry.taskId);
+    const item = this.toDisplayItem(entry);
+    this.emit('added', item);
+    return item;
+  }
+
+  private start(taskId: string) {
+    const job: HttpJob = { controller: new AbortController(), connections: 0, receivedBytes: 0, downloadSpeed: 0, verifying: false };
+    this.jobs.set(taskId, job);
+    this.startProgressEmitter();
+    const previous = this.runs.get(taskId) || Promise.resolve();
+    const run = previous.then(() => this.run(taskId, job)).finally(() => {
+      if (this.runs.get(taskId) === run) this.runs.delete(taskId);
+    });
+    this.runs.set(taskId, run);
+  }
+
+  private async run(taskId: string, job: HttpJob) {
+    const { signal } = job.controller;
+    if (signal.aborted) return;
+    try {
+      const stored = httpDownloadStore.get(taskId);
+      if (!stored) return;
+      const entry = stored.segments.length === 0 ? await this.probe(stored, signal) : stored;
+      // Without range support the only way to continue is from the start.
+      if (!entry.acceptsRanges) entry.segments.forEach(segment => { if (!isSegmentDone(segment)) segment.downloaded = 0; });
+
+      const partPath = this.getPartPath(entry);
+      await fs.ensureDir(path.dirname(partPath));
+      const handle = await open(partPath, (await fs.pathExists(partPath)) ? 'r+' : 'w');
+      try {
+        if (!entry.acceptsRanges) await handle.truncate(0);
+        await this.fetchSegments(entry, handle, job);
+      } finally {
+        await handle.close();
+      }
+      if (signal.aborted) return;
+
+      const size = downloadedBytes(entry);
+      if (entry.checksum) {
+        job.verifying = true;
+        await this.verifyChecksum(entry, partPath);
+        if (signal.aborted) return; // Paused or removed while verifying; resuming verifies again
+      }
+      await fs.move(partPath, this.getFilePath(entry), { overwrite: true });
+      this.jobs.delete(taskId);
+      const done = httpDownloadStore.setState(taskId, 'completed', { size });
+      console.log(`[HttpDownloadManager] Finished ${taskId}: ${entry.fileName}`);
+      if (done) this.emit('done', this.toDisplayItem(done));
+    } catch (error) {
+      if (signal.aborted) return; // Paused, removed or shutting down
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`[HttpDownloadManager] ${taskId} failed:`, errorMessage);
+      this.jobs.delete(taskId);
+      httpDownloadStore.setState(taskId, 'failed', { lastError: errorMessage });
+      this.emit('downloadError', taskId, errorMessage);
+    }
+  }
+
+  // Asks for the first byte only: the answer says how long the file is and whether ranges work.
+  private async probe(entry: HttpDownloadEntry, signal: AbortSignal): Promise<HttpDownloadEntry> {
+    const response = await fetch(entry.url, { headers: { Range: 'bytes=0-0' }, signal });
+    await response.body?.cancel().catch(() => undefined);
+    if (!response.ok) throw new Error(`Server responded with ${response.status} ${response.statusText}`.trim());
+
+    const rangeTotal = response.headers.get('content-range')?.match(/\/(\d+)\s*$/)?.[1];
+    const acceptsRanges = response.status === 206 && !!rangeTotal;
+    const contentLength = response.headers.get('content-length');
+    const totalLength = acceptsRanges ? Number(rangeTotal) : contentLength ? Number(contentLength) : undefined;
+    const etag = response.headers.get('etag');
+
+    const fileName = this.getUniqueFileName(entry.taskId, entry.fileName || sanitizeFileName(fileNameFromResponse(response) || '') || 'download');
+    return httpDownloadStore.upsert({
+      ...entry,
+      name: entry.name || fileName,
+      fileName,
+      acceptsRanges,
+      // Weak validators can't be used with If-Range.
+      etag: etag && !etag.startsWith('W/') ? etag : undefined,
+      size: totalLength,
+      segments: planSegments(totalLength, acceptsRanges, entry.connections),
+    });
+  }
+
+  // Runs every unfinished segment in parallel. One that gives up stops the rest, and all of them
+  // have settled before this returns, so nothing writes to the file after it is closed.
+  private async fetchSegments(entry: HttpDownloadEntry, handle: FileHandle, job: HttpJob) {
+    const segmentsController = new AbortController();
+    const stopSegments = () => segmentsController.abort();
+    job.controller.signal.addEventListener('abort', stopSegments, { once: true });
+    let failure: unknown;
+    try {
+      await Promise.all(entry.segments.filter(segment => !isSegmentDone(segment)).map(segment =>
+        this.fetchSegment(entry, segment, handle, job, segmentsController.signal).catch(error => {
+          failure = failure || error;
+          stopSegments();
+        })
+      ));
+    } finally {
+      job.controller.signal.removeEventListener('abort', stopSegments);
+    }
+    if (failure && !job.controller.signal.aborted) throw failure;
+  }
+
+  private async fetchSegment(entry: HttpDownloadEntry, segment: HttpSegment, handle: FileHandle, job: HttpJob, signal: AbortSignal) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.streamSegment(entry, segment, handle, job, signal);
+        return;
+      } catch (error) {
+        if (signal.aborted || error instanceof SourceChangedError || attempt >= MAX_RETRIES) throw error;
+        console.warn(`[HttpDownloadManager] ${entry.taskId}: segment at ${segment.start} interrupted, retrying:`, error instanceof Error ? error.message : error);
+        // Without range support the retry starts again from byte 0, so its bytes go back to the start too.
+        if (!entry.acceptsRanges) segment.downloaded = 0;
+        await delay(RETRY_DELAY * (attempt + 1), signal);
+      }
+    }
+  }
+
+  private async streamSegment(entry: HttpDownloadEntry, segment: HttpSegment, handle: FileHandle, job: HttpJob, signal: AbortSignal) {
+    const offset = segment.start + segment.downloaded;
+    const headers: Record<string, string> = {};
+    if (entry.acceptsRanges) {
+      headers.Range = `bytes=${offset}-${segment.end >= 0 ? segment.end : ''}`;
+      if (entry.etag) headers['If-Range'] = entry.etag;
+    }
+    const response = await fetch(entry.url, { headers, signal });
+    if (!response.ok || !response.body) {
+      await response.body?.cancel().catch(() => undefined);
+      throw new Error(`Server responded with ${response.status} ${response.statusText}`.trim());
+    }
+    if (entry.acceptsRanges && response.status !== 206) {
+      // The server ignored the range (If-Range said the file changed): these bytes belong elsewhere.
+      await response.body.cancel().catch(() => undefined);
+      throw new SourceChangedError('The file changed on the server since the download started. Remove it and add it again.');
+    }
+
+    job.connections++;
+    const reader = response.body.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const remaining = segment.end >= 0 ? segment.end - (segment.start + segment.downloaded) + 1 : Infinity;
+        const chunk = value.byteLength > remaining ? value.subarray(0, remaining) : value;
+        await handle.write(chunk, 0, chunk.byteLength, segment.start + segment.downloaded);
+        // Counted only once written, so the saved progress never covers bytes that aren't on disk.
+        segment.downloaded += chunk.byteLength;
+        job.receivedBytes += chunk.byteLength;
+        if (isSegmentDone(segment)) break;
+      }
+    } finally {
+      job.connections--;
+      reader.cancel().catch(() => undefined);
+    }
+    if (segment.end >= 0 && !isSegmentDone(segment)) throw new Error('Connection closed before the segment was complete');
+  }
+
+  private async verifyChecksum(entry: HttpDownloadEntry, filePath: string) {
+    const [algorithm, expected] = entry.checksum!.split(':');
+    const hash = crypto.createHash(algorithm);
+    for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk);
+    const actual = hash.digest('hex');
+    if (actual === expected) return;
+    // Nothing here can be trusted, so a retry starts from scratch.
+    entry.segments.forEach(segment => { segment.downloaded = 0; });
+    httpDownloadStore.upsert(entry);
+    throw new Error(`Checksum mismatch: expected ${algorithm} ${expected}, got ${actual}`);
+  }
+
+  private getFilePath(entry: HttpDownloadEntry): string {
+    return path.join(config.downloadBasePath, entry.fileName || entry.taskId);
+  }
+
+  private getPartPath(entry: HttpDownloadEntry): string {
+    return `${this.getFilePath(entry)}${PART_SUFFIX}`;
+  }
+
+  // "Movie (1).mp4" when "Movie.mp4" already exists or another download is writing it.
+  private getUniqueFileName(taskId: string, fileName: string): string {
+    const taken = new Set(httpDownloadStore.getAll().filter(entry => entry.taskId !== taskId).map(entry => entry.fileName));
+    const { name, ext } = path.parse(fileName);
+    for (let index = 0; ; index++) {
+      const candidate = index === 0 ? fileName : `${name} (${index})${ext}`;
+      const candidatePath = path.join(config.downloadBasePath, candidate);
+      if (!taken.has(candidate) && !fs.existsSync(candidatePath) && !fs.existsSync(`${candidatePath}${PART_SUFFIX}`)) return candidate;
+    }
+  }
+
+  // Speeds are measured here, so the tick runs while anything transfers, listeners or not.
+  private startProgressEmitter() {
+    if (this.progressInterval) return;
+    this.progressInterval = setInterval(() => {
+      if (this.jobs.size === 0) {
+        clearInterval(this.progressInterval!);
+        this.progressInterval = null;
+        return;
+      }
+      this.jobs.forEach((job, taskId) => {
+        job.downloadSpeed = job.receivedBytes * 1000 / PROGRESS_INTERVAL;
+        job.receivedBytes = 0;
+        const entry = httpDownloadStore.get(taskId);
+        if (!entry) return;
+        httpDownloadStore.upsert(entry); // Saves segment progress
+        if (this.listenerCount('progress') > 0) this.emit('progress', this.toDisplayItem(entry));
+      });
+    }, PROGRESS_INTERVAL);
+  }
+
+  private stop(taskId: string) {
+    this.jobs.get(taskId)?.controller.abort();
+    this.jobs.delete(taskId);
+  }
+
+  public pause(taskId: string): boolean {
+    const entry = httpDownloadStore.get(taskId);
+    if (!entry) return false;
+    if (entry.state === 'active' || entry.state === 'queued') {
+      this.stop(taskId);
+      httpDownloadStore.setState(taskId, 'paused');
+    }
+    this.emit('progress', this.toDisplayItem(httpDownloadStore.get(taskId)!));
+    return true;
+  }
+
+  /** Continues a paused download, or retries a failed one from where its segments stopped. */
+  public resume(taskId: string): boolean {
+    const entry = httpDownloadStore.get(taskId);
+    if (!entry) return false;
+    if (entry.state === 'paused' || entry.state === 'failed') {
+      httpDownloadStore.setState(taskId, 'active');
+      this.start(taskId);
+    }
+    this.emit('progress', this.toDisplayItem(httpDownloadStore.get(taskId)!));
+    return true;
+  }
+
+  public async remove(taskId: string, deleteFiles = false): Promise<boolean> {
+    const entry = httpDownloadStore.get(taskId);
+    if (!entry) return false;
+    this.stop(taskId);
+    httpDownloadStore.remove(taskId);
+    await this.runs.get(taskId); // Let the run close the file before it goes
+    if (deleteFiles && entry.fileName) {
+      await fs.remove(this.getPartPath(entry));
+      await fs.remove(this.getFilePath(entry));
+    }
+    console.log(`[HttpDownloadManager] Removed ${taskId}${deleteFiles ? ' (files deleted)' : ''}`);
+    this.emit('removed', taskId);
+    return true;
+  }
+
+  public getStatus(taskId: string): Aria2DownloadItemDisplay | null {
+    const entry = httpDownloadStore.get(taskId);
+    return entry ? this.toDisplayItem(entry) : null;
+  }
+
+  public getAllStatuses(): Aria2DownloadItemDisplay[] {
+    return httpDownloadStore.getAll().map(entry => this.toDisplayItem(entry));
+  }
+
+  /** Starts every download that was still transferring when the server stopped. Returns how many. */
+  public async resumeQueue(): Promise<number> {
+    const entries = (await httpDownloadStore.load()).filter(entry => RESUMABLE_STATES.includes(entry.state) && !this.jobs.has(entry.taskId));
+    entries.forEach(entry => this.start(entry.taskId));
+    if (entries.length > 0) console.log(`[HttpDownloadManager] Resumed ${entries.length} HTTP downloads`);
+    return entries.length;
+  }
+
+  public toDisplayItem(entry: HttpDownloadEntry): Aria2DownloadItemDisplay {
+    const job = this.jobs.get(entry.taskId);
+    const completedLength = downloadedBytes(entry);
+    let status: Aria2DownloadItemDisplay['status'];
+    if (entry.state === 'failed') status = 'error';
+    else if (entry.state === 'completed') status = 'complete';
+    else if (entry.state === 'paused') status = 'paused';
+    else if (entry.state === 'queued') status = 'waiting';
+    else if (entry.segments.length === 0) status = 'connecting';
+    else status = 'active';
+
+    return {
+      taskId: entry.taskId,
+      name: entry.name || entry.fileName || entry.url,
+      status,
+      progress: entry.state === 'completed' ? 100 : entry.size ? Math.round(completedLength / entry.size * 10000) / 100 : 0,
+      downloadSpeed: job && !job.verifying ? job.downloadSpeed : 0,
+      uploadSpeed: 0,
+      totalLength: entry.size,
+      completedLength,
+      connections: job?.connections ?? 0,
+      errorMessage: entry.lastError,
+      quality: entry.quality,
+      addedTime: entry.addedTime,
+      engine: 'http',
+    };
+  }
+
+  /** Subscribes to every download event in the shape pushed over SSE. Returns an unsubscribe function. */
+  public onDownloadEvent(listener: <T extends DownloadEventType>(type: T, payload: DownloadEventPayloads[T]) => void): () => void {
+    const onAdded = (item: Aria2DownloadItemDisplay) => listener('added', item);
+    const onProgress = (item: Aria2DownloadItemDisplay) => listener('progress', item);
+    const onDone = (item: Aria2DownloadItemDisplay) => listener('done', item);
+    const onError = (taskId: string, errorMessage: string) => listener('error', { taskId, errorMessage });
+    const onRemoved = (taskId: string) => listener('removed', { taskId });
+
+    this.on('added', onAdded);
+    this.on('progress', onProgress);
+    this.on('done', onDone);
+    this.on('downloadError', onError);
+    this.on('removed', onRemoved);
+    return () => {
+      this.off('added', onAdded);
+      this.off('progress', onProgress);
+      this.off('done', onDone);
+      this.off('downloadError', onError);
+      this.off('removed', onRemoved);
+    };
+  }
+
+  /** Stops every transfer without changing its saved state, so the next boot picks it up again. */
+  public async destroy(): Promise<void> {
+    if (this.progressInterval) clearInterval(this.progressInterval);
+    this.progressInterval = null;
+    this.jobs.forEach(job => job.controller.abort());
+    this.jobs.clear();
+    await Promise.all(this.runs.values());
+    await httpDownloadStore.flush();
+  }
+}
+
+const httpDownloadManager = new HttpDownloadManager();
+export default httpDownloadManager;
@@ -3,51 +3,74 @@ import express, { Request, Response } from 'express';
 import cors from 'cors';
 import { config } from './config';
 import { apiKeyAuth } from './middleware/auth';
+import downloadsRouter from './routes/downloads';
+import eventsRouter from './routes/events';
+import queueRouter from './routes/queue';
+import settingsRouter from './routes/settings';
+import streamRouter from './routes/stream';
+import bridgeRouter from './routes/bridge';
+import webTorrentManager from './webtorrentManager';
+import httpDownloadManager from './httpDownloadManager';
 
 const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '16mb' })); // History imports and base64 .torrent files (up to 10MB) outgrow the 100kb default
 
 // Basic Authentication (using API Key)
-// This can be kept if you plan to add other backend services later that need auth.
-// If the backend will truly have no active functionality, this could also be removed.
 app.use(apiKeyAuth);
 
 // --- API Endpoints ---
 
 // Health Check
 app.get('/health', (req: Request, res: Response) => {
-  res.status(200).json({ status: 'OK', message: 'ChillyMovies Backend Server is running (UI Template Mode).' });
+  res.status(200).json({ status: 'OK', message: 'ChillyMovies Backend Server is running.' });
 });
 
-// --- Removed Download & Streaming Endpoints ---
-// POST /api/stream - Removed
-// GET /api/watch/:streamId - Removed
-// POST /download - Removed
-// GET /status/:taskId - Removed
-// GET /status - Removed
-// GET /files - Removed
+// Downloads (magnets and http(s) URLs): POST /download, POST /download/:taskId/pause|resume, DELETE /download/:taskId, PUT /download/:taskId/limits, GET /status/:taskId, GET /status, GET /files
+app.use(downloadsRouter);
+
+// Live progress: GET /events (Server-Sent Events)
+app.use(eventsRouter);
+
+// Persistent queue: GET /queue, POST /queue/import
+app.use(queueRouter);
+
+// Engine settings: GET/PUT /settings/bandwidth
+app.use(settingsRouter);
+
+// Streaming: POST /api/stream, GET /api/watch/:streamId (byte ranges)
+app.use(streamRouter);
+
+// Hybrid bridge for browser clients: POST /bridge, DELETE /bridge/:taskId, GET /bridge/:taskId/seed/* (web seed)
+app.use(bridgeRouter);
 
 // --- Start Server ---
 app.listen(config.port, () => {
   console.log(`[Server API] ChillyMovies Backend Server listening on http://localhost:${config.port}`);
-  console.log(`[Server API] Running in UI Template Mode. Download/streaming functionalities are stubbed on the frontend.`);
+  console.log(`[Server API] Downloads are saved to ${config.downloadBasePath}`);
   if (!config.apiKey) {
-    console.warn('[Server API] WARNING: BACKEND_API_KEY is not set. This is less critical for a UI template but remember to set it for future backend features.');
+    console.warn('[Server API] WARNING: BACKEND_API_KEY is not set. Anyone who can reach this server can start downloads.');
   } else {
-    console.log('[Server API] API Key authentication is nominally enabled.');
+    console.log('[Server API] API Key authentication is enabled.');
   }
-});
 
-// --- Graceful Shutdown (Basic) ---
-process.on('SIGINT', () => {
-  console.log('[Server API] SIGINT signal received: closing HTTP server');
-  process.exit(0);
+  // Pick up whatever was still downloading (or seeding) when the server last stopped.
+  webTorrentManager.resumeQueue().catch((error) => {
+    console.error('[Server API] Failed to resume the download queue:', error);
+  });
+  httpDownloadManager.resumeQueue().catch((error) => {
+    console.error('[Server API] Failed to resume HTTP downloads:', error);
+  });
 });
 
-process.on('SIGTERM', () => {
-  console.log('[Server API] SIGTERM signal received: closing HTTP server');
+// --- Graceful Shutdown ---
+const shutdown = async (signal: string) => {
+  console.log(`[Server API] ${signal} signal received: stopping download engines and closing HTTP server`);
+  await Promise.all([webTorrentManager.destroy(), httpDownloadManager.destroy()]);
   process.exit(0);
-});
+};
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
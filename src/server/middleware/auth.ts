@@ -3,7 +3,8 @@ import type { Request, Response, NextFunction } from 'express';
 import { config } from '../config';
 
 export function apiKeyAuth(req: Request, res: Response, next: NextFunction) {
-  const providedApiKey = req.header('X-API-Key');
+  // EventSource and <video> can't send custom headers, so the key may also come as ?apiKey=
+  const providedApiKey = req.header('X-API-Key') || (typeof req.query.apiKey === 'string' ? req.query.apiKey : undefined);
 
   if (!config.apiKey) {
     console.warn('[AuthMiddleware] BACKEND_API_KEY is not set. Allowing request without authentication for development. THIS IS INSECURE FOR PRODUCTION.');
@@ -0,0 +1,56 @@
+// src/server/routes/bridge.ts
+import { Router, Request, Response } from 'express';
+import webTorrentManager from '../webtorrentManager';
+import { sendTorrentFile } from '../sendTorrentFile';
+
+const router = Router();
+
+// POST /bridge - { magnetURI, name? } Join a torrent's TCP/UDP/DHT swarm for a browser client that found no WebRTC peers.
+// Returns { taskId, webSeedPath, created }; the browser adds webSeedPath (through the Next.js proxy) as a web seed.
+router.post('/bridge', async (req: Request, res: Response) => {
+  const { magnetURI, magnet, name } = req.body || {};
+  const source: string | undefined = magnetURI || magnet;
+
+  if (!source || typeof source !== 'string') {
+    return res.status(400).json({ error: 'Missing required field: magnetURI' });
+  }
+
+  try {
+    res.status(201).json(await webTorrentManager.startBridge(source, typeof name === 'string' ? name : undefined));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[Server API] Error starting bridge:', errorMessage);
+    res.status(500).json({ error: `Failed to start bridge: ${errorMessage}` });
+  }
+});
+
+// DELETE /bridge/:taskId - The browser has finished or dropped the download. Only bridge-only torrents are removed.
+router.delete('/bridge/:taskId', async (req: Request, res: Response) => {
+  try {
+    const removed = await webTorrentManager.stopBridge(req.params.taskId);
+    res.status(200).json({ taskId: req.params.taskId, removed });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: `Failed to stop bridge: ${errorMessage}` });
+  }
+});
+
+// GET /bridge/:taskId/seed[/<file path>] - BEP 19 web seed: byte ranges of the torrent's files, fetched from the swarm on demand.
+async function serveWebSeed(req: Request, res: Response) {
+  let torrent;
+  try {
+    torrent = await webTorrentManager.waitForMetadata(req.params.taskId);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return res.status(errorMessage === 'Task not found' ? 404 : 504).json({ error: errorMessage });
+  }
+  const file = webTorrentManager.getWebSeedFile(torrent, req.params[0] || '');
+  if (!file) return res.status(404).json({ error: 'File not found' });
+
+  sendTorrentFile(req, res, torrent, file, `bridge ${req.params.taskId}`);
+}
+
+router.get('/bridge/:taskId/seed', serveWebSeed);
+router.get('/bridge/:taskId/seed/*', serveWebSeed);
+
+export default router;
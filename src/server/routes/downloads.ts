@@ -0,0 +1,103 @@
+// src/server/routes/downloads.ts
+import { Router, Request, Response } from 'express';
+import webTorrentManager from '../webtorrentManager';
+import httpDownloadManager, { isHttpUrl, normalizeChecksum } from '../httpDownloadManager';
+import { normalizeSpeedLimits } from '../../lib/bandwidth';
+
+const router = Router();
+
+// HTTP task ids are "http-<uuid>"; anything else is a torrent's infohash.
+const managerFor = (taskId: string) => (httpDownloadManager.has(taskId) ? httpDownloadManager : webTorrentManager);
+
+// POST /download - Queue a magnet link or infohash (with the base64 .torrent as torrentFile, if there
+// is one, and per-torrent speedLimits) on the torrent engine, or an http(s) URL
+// ({ url, fileName?, checksum?, connections? }) on the HTTP engine
+router.post('/download', async (req: Request, res: Response) => {
+  const { magnetURI, magnet, url, name, itemId, quality, fileName, checksum, connections, torrentFile, speedLimits } = req.body || {};
+  const source: string | undefined = magnetURI || magnet || url;
+
+  if (!source || typeof source !== 'string') {
+    return res.status(400).json({ error: 'Missing required field: magnetURI or url' });
+  }
+  if (url && !isHttpUrl(source)) {
+    return res.status(400).json({ error: 'url must be an http or https URL' });
+  }
+  if (torrentFile !== undefined && (typeof torrentFile !== 'string' || isHttpUrl(source))) {
+    return res.status(400).json({ error: 'torrentFile must be a base64 .torrent sent with its magnetURI' });
+  }
+  if (checksum !== undefined && (typeof checksum !== 'string' || !normalizeChecksum(checksum))) {
+    return res.status(400).json({ error: 'checksum must be "<md5|sha1|sha256|sha512>:<hex>"' });
+  }
+
+  try {
+    const item = isHttpUrl(source)
+      ? await httpDownloadManager.addDownload(source, { name, itemId, quality, fileName, checksum, connections: Number(connections) || undefined })
+      : await webTorrentManager.addDownload(source, { name, itemId, quality, torrentFile, speedLimits: speedLimits ? normalizeSpeedLimits(speedLimits) : undefined });
+    res.status(201).json(item);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[Server API] Error adding download:', errorMessage);
+    res.status(500).json({ error: `Failed to add download: ${errorMessage}` });
+  }
+});
+
+// POST /download/:taskId/pause
+router.post('/download/:taskId/pause', (req: Request, res: Response) => {
+  const manager = managerFor(req.params.taskId);
+  if (!manager.pause(req.params.taskId)) {
+    return res.status(404).json({ error: 'Task not found' });
+  }
+  res.status(200).json(manager.getStatus(req.params.taskId));
+});
+
+// POST /download/:taskId/resume - Also retries a failed HTTP download from where it stopped
+router.post('/download/:taskId/resume', (req: Request, res: Response) => {
+  const manager = managerFor(req.params.taskId);
+  if (!manager.resume(req.params.taskId)) {
+    return res.status(404).json({ error: 'Task not found' });
+  }
+  res.status(200).json(manager.getStatus(req.params.taskId));
+});
+
+// PUT /download/:taskId/limits - { downloadLimit, uploadLimit } in KB/s, 0 = only the global limits apply
+router.put('/download/:taskId/limits', (req: Request, res: Response) => {
+  if (!webTorrentManager.setTorrentSpeedLimits(req.params.taskId, normalizeSpeedLimits(req.body))) {
+    return res.status(404).json({ error: 'Task not found' });
+  }
+  res.status(200).json(webTorrentManager.getStatus(req.params.taskId));
+});
+
+// DELETE /download/:taskId?deleteFiles=true
+router.delete('/download/:taskId', async (req: Request, res: Response) => {
+  try {
+    const removed = await managerFor(req.params.taskId).remove(req.params.taskId, req.query.deleteFiles === 'true');
+    if (!removed) return res.status(404).json({ error: 'Task not found' });
+    res.status(200).json({ taskId: req.params.taskId, status: 'removed' });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: `Failed to remove download: ${errorMessage}` });
+  }
+});
+
+// GET /status/:taskId - Single task, shaped like Aria2DownloadItemDisplay
+router.get('/status/:taskId', (req: Request, res: Response) => {
+  const status = managerFor(req.params.taskId).getStatus(req.params.taskId);
+  if (!status) return res.status(404).json({ error: 'Task not found' });
+  res.status(200).json(status);
+});
+
+// GET /status - All tasks known to either engine
+router.get('/status', (req: Request, res: Response) => {
+  res.status(200).json({ downloads: [...webTorrentManager.getAllStatuses(), ...httpDownloadManager.getAllStatuses()] });
+});
+
+// GET /files?taskId= - Files of one or all torrents, with per-file progress
+router.get('/files', (req: Request, res: Response) => {
+  const taskId = typeof req.query.taskId === 'string' ? req.query.taskId : undefined;
+  if (taskId && !webTorrentManager.getTorrent(taskId)) {
+    return res.status(404).json({ error: 'Task not found' });
+  }
+  res.status(200).json({ files: webTorrentManager.getFiles(taskId) });
+});
+
+export default router;
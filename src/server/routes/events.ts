@@ -0,0 +1,41 @@
+// src/server/routes/events.ts
+import { Router, Request, Response } from 'express';
+import webTorrentManager from '../webtorrentManager';
+import httpDownloadManager from '../httpDownloadManager';
+import type { DownloadEventPayloads, DownloadEventType } from '../../types/download';
+
+const HEARTBEAT_INTERVAL = 15000; // Keeps proxies from closing an idle stream
+const RECONNECT_DELAY = 3000; // Sent as the SSE "retry" hint
+
+const router = Router();
+
+function writeEvent<T extends DownloadEventType>(res: Response, type: T, payload: DownloadEventPayloads[T]) {
+  res.write(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`);
+}
+
+// GET /events - Server-Sent Events stream of every download's lifecycle
+router.get('/events', (req: Request, res: Response) => {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RECONNECT_DELAY}\n\n`);
+
+  // A (re)connecting client gets the full picture before any incremental event.
+  writeEvent(res, 'snapshot', { downloads: [...webTorrentManager.getAllStatuses(), ...httpDownloadManager.getAllStatuses()] });
+
+  const unsubscribeTorrents = webTorrentManager.onDownloadEvent((type, payload) => writeEvent(res, type, payload));
+  const unsubscribeHttp = httpDownloadManager.onDownloadEvent((type, payload) => writeEvent(res, type, payload));
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribeTorrents();
+    unsubscribeHttp();
+  });
+});
+
+export default router;
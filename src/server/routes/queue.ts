@@ -0,0 +1,32 @@
+// src/server/routes/queue.ts
+import { Router, Request, Response } from 'express';
+import webTorrentManager from '../webtorrentManager';
+import downloadStore from '../downloadStore';
+import type { DownloadHistoryExportItem } from '../../types/download';
+
+const router = Router();
+
+// GET /queue - Every download in the persistent queue, including finished and failed ones
+router.get('/queue', async (req: Request, res: Response) => {
+  res.status(200).json({ queue: await downloadStore.load() });
+});
+
+// POST /queue/import - Import a `chillymovies_download_history_v2` export.
+// Accepts the raw array from localStorage or { history: [...] }.
+router.post('/queue/import', async (req: Request, res: Response) => {
+  const items: unknown = Array.isArray(req.body) ? req.body : req.body?.history;
+  if (!Array.isArray(items)) {
+    return res.status(400).json({ error: 'Expected a history array or { history: [...] }' });
+  }
+
+  try {
+    const result = await webTorrentManager.importHistory(items as DownloadHistoryExportItem[]);
+    res.status(200).json(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[Server API] Error importing history:', errorMessage);
+    res.status(500).json({ error: `Failed to import history: ${errorMessage}` });
+  }
+});
+
+export default router;
@@ -0,0 +1,36 @@
+// src/server/routes/settings.ts
+import { Router, Request, Response } from 'express';
+import webTorrentManager from '../webtorrentManager';
+import { normalizeBandwidthSettings } from '../../lib/bandwidth';
+
+const router = Router();
+
+// GET /settings/bandwidth - Global rate limits, the alternative speed schedule and the limits in force now
+router.get('/settings/bandwidth', async (req: Request, res: Response) => {
+  try {
+    await webTorrentManager.getClient();
+    res.status(200).json(webTorrentManager.getBandwidthSettings());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[Server API] Error loading bandwidth settings:', errorMessage);
+    res.status(500).json({ error: `Failed to load bandwidth settings: ${errorMessage}` });
+  }
+});
+
+// PUT /settings/bandwidth - Replace them; takes effect on the running engine immediately
+router.put('/settings/bandwidth', async (req: Request, res: Response) => {
+  if (!req.body || typeof req.body !== 'object') {
+    return res.status(400).json({ error: 'Expected bandwidth settings in the request body' });
+  }
+
+  try {
+    await webTorrentManager.getClient();
+    res.status(200).json(await webTorrentManager.setBandwidthSettings(normalizeBandwidthSettings(req.body)));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[Server API] Error saving bandwidth settings:', errorMessage);
+    res.status(500).json({ error: `Failed to save bandwidth settings: ${errorMessage}` });
+  }
+});
+
+export default router;
@@ -0,0 +1,84 @@
+// src/server/routes/stream.ts
+import { Router, Request, Response } from 'express';
+import webTorrentManager from '../webtorrentManager';
+import { sendTorrentFile } from '../sendTorrentFile';
+import { getMimeType, isVideoFile } from '../../lib/media-types';
+
+const router = Router();
+
+// Stream ids are "<infoHash>-<fileIndex>", so a player URL stays valid across server restarts.
+function toStreamId(taskId: string, fileIndex: number): string {
+  return `${taskId}-${fileIndex}`;
+}
+
+function parseStreamId(streamId: string): { taskId: string; fileIndex: number } | null {
+  const match = /^([0-9a-f]{40})-(\d+)$/i.exec(streamId);
+  return match ? { taskId: match[1].toLowerCase(), fileIndex: parseInt(match[2], 10) } : null;
+}
+
+// POST /api/stream - Prepare a file of a server-side torrent for playback.
+// Body: { taskId } of an existing download or { magnetURI } to add one, plus an optional fileIndex
+// (defaults to the largest video file). Returns the /api/watch URL to hand to the player.
+router.post('/api/stream', async (req: Request, res: Response) => {
+  const { taskId: requestedTaskId, magnetURI, magnet, fileIndex, name, itemId, quality } = req.body || {};
+  const source: string | undefined = magnetURI || magnet;
+
+  try {
+    let taskId: string | undefined = requestedTaskId;
+    if (!taskId && source) {
+      taskId = (await webTorrentManager.addDownload(source, { name, itemId, quality })).taskId;
+    }
+    if (!taskId || !webTorrentManager.getTorrent(taskId)) {
+      return res.status(404).json({ error: 'Task not found. Send a known taskId or a magnetURI.' });
+    }
+
+    const torrent = await webTorrentManager.waitForMetadata(taskId);
+    let index = typeof fileIndex === 'number' ? fileIndex : parseInt(fileIndex, 10);
+    if (Number.isNaN(index)) {
+      const videoFiles = torrent.files.filter(f => isVideoFile(f.name));
+      const candidates = videoFiles.length > 0 ? videoFiles : torrent.files;
+      const largest = candidates.reduce((a, b) => (b.length > a.length ? b : a));
+      index = torrent.files.indexOf(largest);
+    }
+    const file = torrent.files[index];
+    if (!file) return res.status(404).json({ error: `File index ${index} not found in torrent` });
+
+    // Start fetching the beginning right away so the first request doesn't wait on the swarm.
+    webTorrentManager.prioritiseRange(torrent, file, 0);
+    const streamId = toStreamId(torrent.infoHash, index);
+    res.status(201).json({
+      streamId,
+      url: `/api/watch/${streamId}`,
+      taskId: torrent.infoHash,
+      fileIndex: index,
+      fileName: file.name,
+      mimeType: getMimeType(file.name),
+      length: file.length,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[Server API] Error preparing stream:', errorMessage);
+    res.status(500).json({ error: `Failed to prepare stream: ${errorMessage}` });
+  }
+});
+
+// GET /api/watch/:streamId - Byte-range streaming of one torrent file while it downloads.
+// Video elements can't send headers, so players authenticate with ?apiKey=.
+router.get('/api/watch/:streamId', async (req: Request, res: Response) => {
+  const parsed = parseStreamId(req.params.streamId);
+  if (!parsed) return res.status(400).json({ error: 'Invalid stream id' });
+
+  let torrent;
+  try {
+    torrent = await webTorrentManager.waitForMetadata(parsed.taskId);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return res.status(errorMessage === 'Task not found' ? 404 : 504).json({ error: errorMessage });
+  }
+  const file = torrent.files[parsed.fileIndex];
+  if (!file) return res.status(404).json({ error: 'File not found' });
+
+  sendTorrentFile(req, res, torrent, file, req.params.streamId);
+});
+
+export default router;
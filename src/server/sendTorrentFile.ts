@@ -0,0 +1,39 @@
+// src/server/sendTorrentFile.ts
+import type { Request, Response } from 'express';
+import type { Torrent, TorrentFile } from 'webtorrent';
+import webTorrentManager from './webtorrentManager';
+import { getMimeType } from '../lib/media-types';
+import { parseRangeHeader, formatContentRange } from '../lib/http-range';
+
+/**
+ * Answers a (range) request for one torrent file while it downloads, fetching the requested
+ * bytes ahead of everything else. Used by the player stream and the bridge's web seed.
+ */
+export function sendTorrentFile(req: Request, res: Response, torrent: Torrent, file: TorrentFile, label: string) {
+  const size = file.length;
+  const range = parseRangeHeader(req.headers.range, size);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Content-Type', getMimeType(file.name));
+
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    return res.status(416).end();
+  }
+
+  const start = range ? range.start : 0;
+  const end = range ? range.end : size - 1;
+  res.setHeader('Content-Length', end - start + 1);
+  if (range) res.setHeader('Content-Range', formatContentRange(range, size));
+  res.status(range ? 206 : 200);
+  if (req.method === 'HEAD') return res.end();
+
+  webTorrentManager.prioritiseRange(torrent, file, start);
+  const stream = file.createReadStream({ start, end }) as NodeJS.ReadableStream & { destroy(): void };
+  stream.on('error', (err) => {
+    console.error(`[Server API] Stream error for ${label}:`, err.message);
+    res.destroy();
+  });
+  // A seek aborts the current request; stop reading pieces for it.
+  res.on('close', () => stream.destroy());
+  stream.pipe(res);
+}
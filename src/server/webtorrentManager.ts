@@ -1,9 +1,489 @@
 // src/server/webtorrentManager.ts
-// This file's content is removed as the backend torrent management is being stripped for the UI template.
-// If you re-implement backend torrent processing, you can recreate this file.
+import EventEmitter from 'events';
+import path from 'path';
+import fs from 'fs-extra';
+import type { Instance as WebTorrentInstance, Torrent, TorrentFile } from 'webtorrent';
+import { config } from './config';
+import downloadStore, { HistoryImportResult } from './downloadStore';
+import type { Aria2DownloadItemDisplay, DownloadEventPayloads, DownloadEventType, DownloadHistoryExportItem, QueueState } from '../types/download';
+import { normalizeBandwidthSettings, getActiveLimits, hasSpeedLimits, DEFAULT_BANDWIDTH_SETTINGS, SCHEDULE_CHECK_INTERVAL, type BandwidthSettings, type SpeedLimits } from '../lib/bandwidth';
+import { attachTorrentThrottle, setTorrentThrottle, applyClientThrottle } from '../lib/torrent-throttle';
+import { getInfoHash, getMagnetURITrackers } from '../lib/magnet';
+import { loadTrackerList, isWebSocketTracker } from '../lib/trackers';
 
-console.log("[WebTorrentManager] Stubbed: This manager is not active in UI Template Mode.");
+export interface AddDownloadOptions {
+  name?: string;
+  itemId?: string | number;
+  quality?: string;
+  addedTime?: number; // Kept from the queue store when a download is resumed
+  paused?: boolean; // Add without transferring anything, e.g. a download that was paused before a restart
+  speedLimits?: SpeedLimits; // Per-torrent caps on top of the global limits
+  bridge?: boolean; // Only here to relay a browser download; removed again once the browser is done with it
+  torrentFile?: string; // Base64 .torrent; added from it instead of the magnet, which only names the torrent
+}
 
-// Export an empty object or specific types if other server files still try to import from it.
-// For a clean template, ideally, no other server files should depend on this.
-export default {};
+export interface BridgeInfo {
+  taskId: string;
+  webSeedPath: string; // HTTP web seed for the torrent, relative to this server
+  created: boolean; // False when the torrent was already a regular server download
+}
+
+// Queue states the engine picks back up on boot. Completed and failed entries stay on record only.
+const RESUMABLE_STATES: QueueState[] = ['queued', 'active', 'paused', 'seeding'];
+
+// Bookkeeping the torrent instance itself doesn't carry.
+interface ManagedTorrentMeta {
+  taskId: string;
+  name?: string;
+  itemId?: string | number;
+  quality?: string;
+  addedTime: number;
+  errorMessage?: string;
+  bridge?: boolean;
+}
+
+export interface ServerTorrentFile {
+  taskId: string;
+  index: number;
+  name: string;
+  path: string; // Relative to config.downloadBasePath
+  length: number;
+  downloaded: number;
+  progress: number; // 0-100
+}
+
+const PROGRESS_INTERVAL = 1000; // 1 second
+const METADATA_TIMEOUT = 30000; // 30 seconds
+const CRITICAL_WINDOW_BYTES = 8 * 1024 * 1024; // Fetched first, right after a seek
+
+// Runtime fields @types/webtorrent doesn't declare.
+type PrioritisableTorrent = Torrent & { critical(start: number, end: number): void };
+type OffsetTorrentFile = TorrentFile & { offset: number };
+
+class WebTorrentManager extends EventEmitter {
+  private client: WebTorrentInstance | null = null;
+  private meta = new Map<string, ManagedTorrentMeta>();
+  private progressInterval: NodeJS.Timeout | null = null;
+  private bandwidthSettings: BandwidthSettings = DEFAULT_BANDWIDTH_SETTINGS;
+  private activeLimits: SpeedLimits | null = null;
+  private scheduleInterval: NodeJS.Timeout | null = null;
+
+  public async getClient(): Promise<WebTorrentInstance> {
+    if (this.client) return this.client;
+    // webtorrent is ESM-only, so it has to be loaded with a real dynamic import from this CommonJS build.
+    const { default: WebTorrent } = await import('webtorrent');
+    if (this.client) return this.client;
+    await fs.ensureDir(config.downloadBasePath);
+    this.client = new WebTorrent();
+    this.client.on('error', (err) => {
+      console.error('[WebTorrentManager] Client error:', err);
+    });
+    console.log(`[WebTorrentManager] Client started. Downloading into ${path.resolve(config.downloadBasePath)}`);
+    this.startProgressEmitter();
+    await this.loadBandwidthSettings();
+    this.startBandwidthSchedule();
+    return this.client;
+  }
+
+  private async loadBandwidthSettings() {
+    try {
+      if (await fs.pathExists(config.bandwidthSettingsPath)) {
+        this.bandwidthSettings = normalizeBandwidthSettings(await fs.readJson(config.bandwidthSettingsPath));
+      }
+    } catch (error) {
+      console.error(`[WebTorrentManager] Could not read bandwidth settings from ${config.bandwidthSettingsPath}, using defaults:`, error);
+    }
+  }
+
+  // Re-checks the alternative speed window so scheduled limits switch over while the server runs unattended.
+  private startBandwidthSchedule() {
+    if (this.scheduleInterval) clearInterval(this.scheduleInterval);
+    this.applyBandwidthLimits();
+    this.scheduleInterval = setInterval(() => this.applyBandwidthLimits(), SCHEDULE_CHECK_INTERVAL);
+  }
+
+  private applyBandwidthLimits(force = false) {
+    if (!this.client) return;
+    const limits = getActiveLimits(this.bandwidthSettings);
+    if (!force && this.activeLimits && this.activeLimits.downloadLimit === limits.downloadLimit && this.activeLimits.uploadLimit === limits.uploadLimit) return;
+    applyClientThrottle(this.client, limits);
+    this.activeLimits = limits;
+    console.log(`[WebTorrentManager] Bandwidth limits applied: down ${limits.downloadLimit || 'unlimited'} KB/s, up ${limits.uploadLimit || 'unlimited'} KB/s`);
+  }
+
+  public getBandwidthSettings(): { settings: BandwidthSettings; activeLimits: SpeedLimits } {
+    return { settings: this.bandwidthSettings, activeLimits: getActiveLimits(this.bandwidthSettings) };
+  }
+
+  /** Applies new global limits and schedule to the running engine and persists them for the next start. */
+  public async setBandwidthSettings(settings: BandwidthSettings): Promise<{ settings: BandwidthSettings; activeLimits: SpeedLimits }> {
+    this.bandwidthSettings = settings;
+    await fs.outputJson(config.bandwidthSettingsPath, settings, { spaces: 2 });
+    this.applyBandwidthLimits(true);
+    return this.getBandwidthSettings();
+  }
+
+  /** Caps a single download (0 = no cap of its own). Returns false for unknown tasks. */
+  public setTorrentSpeedLimits(taskId: string, limits: SpeedLimits): boolean {
+    const torrent = this.getTorrent(taskId);
+    if (!torrent) return false;
+    setTorrentThrottle(torrent, limits);
+    const entry = downloadStore.get(taskId);
+    if (entry) downloadStore.upsert({ ...entry, speedLimits: hasSpeedLimits(limits) ? limits : undefined });
+    console.log(`[WebTorrentManager] Speed limits for ${taskId}: down ${limits.downloadLimit || 'unlimited'} KB/s, up ${limits.uploadLimit || 'unlimited'} KB/s`);
+    return true;
+  }
+
+  private startProgressEmitter() {
+    if (this.progressInterval) clearInterval(this.progressInterval);
+    this.progressInterval = setInterval(() => {
+      if (!this.client || this.listenerCount('progress') === 0) return;
+      this.client.torrents
+        .filter(t => !!t.infoHash && !t.paused && !t.done)
+        .forEach(t => this.emit('progress', this.toDisplayItem(t)));
+    }, PROGRESS_INTERVAL);
+  }
+
+  /**
+   * Adds a magnet/infohash to the engine. Resolves as soon as the infohash is known
+   * (metadata may still be fetching), so callers get a taskId immediately.
+   */
+  public async addDownload(magnetURI: string, options: AddDownloadOptions = {}): Promise<Aria2DownloadItemDisplay> {
+    const client = await this.getClient();
+    const existing = this.getTorrent(magnetURI);
+    if (existing && existing.infoHash) {
+      return this.toDisplayItem(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      // Also announce to WebSocket trackers, where browser clients look for WebRTC peers to join.
+      const announce = loadTrackerList().filter(isWebSocketTracker);
+      // A .torrent already holds the info dictionary; the magnet's trackers are added to its own.
+      const torrent = options.torrentFile
+        ? client.add(Buffer.from(options.torrentFile, 'base64'), { path: config.downloadBasePath, announce: [...getMagnetURITrackers(magnetURI), ...announce] })
+        : client.add(magnetURI, { path: config.downloadBasePath, announce });
+      // Before any peer connects, so every wire's throttles are moved to the torrent's groups.
+      attachTorrentThrottle(torrent, options.speedLimits);
+
+      const onEarlyError = (err: Error | string) => {
+        reject(typeof err === 'string' ? new Error(err) : err);
+      };
+      torrent.once('error', onEarlyError);
+
+      torrent.once('infoHash', () => {
+        torrent.removeListener('error', onEarlyError);
+        const taskId = torrent.infoHash;
+        const addedTime = options.addedTime || Date.now();
+        this.meta.set(taskId, {
+          taskId,
+          name: options.name,
+          itemId: options.itemId,
+          quality: options.quality,
+          addedTime,
+          bridge: options.bridge,
+        });
+        downloadStore.upsert({
+          taskId,
+          magnetURI,
+          torrentFile: options.torrentFile,
+          name: options.name,
+          itemId: options.itemId,
+          quality: options.quality,
+          state: options.paused ? 'paused' : 'active',
+          addedTime,
+          speedLimits: hasSpeedLimits(options.speedLimits) ? options.speedLimits : undefined,
+          bridge: options.bridge,
+        });
+        if (options.paused) torrent.pause();
+        this.attachTorrentListeners(torrent);
+        console.log(`[WebTorrentManager] Added ${taskId} (${options.name || 'unnamed'})`);
+        this.emit('added', this.toDisplayItem(torrent));
+        resolve(this.toDisplayItem(torrent));
+      });
+    });
+  }
+
+  private attachTorrentListeners(torrent: Torrent) {
+    const taskId = torrent.infoHash;
+    torrent.on('ready', () => {
+      console.log(`[WebTorrentManager] Metadata ready for ${taskId}: ${torrent.name} (${torrent.files.length} files)`);
+    });
+    torrent.on('done', () => {
+      console.log(`[WebTorrentManager] Download complete: ${taskId}`);
+      // WebTorrent keeps serving the pieces after completion, so a finished torrent is seeding.
+      downloadStore.setState(taskId, 'seeding', { size: torrent.length });
+      this.emit('done', this.toDisplayItem(torrent));
+    });
+    torrent.on('error', (err) => {
+      const errorMessage = typeof err === 'string' ? err : err.message;
+      console.error(`[WebTorrentManager] Torrent error for ${taskId}:`, errorMessage);
+      const meta = this.meta.get(taskId);
+      if (meta) meta.errorMessage = errorMessage;
+      downloadStore.setState(taskId, 'failed', { lastError: errorMessage });
+      // Not 'error': an unhandled 'error' event would take the whole server down.
+      this.emit('downloadError', taskId, errorMessage);
+    });
+  }
+
+  // client.get() is async in WebTorrent 2, so look the torrent up by infohash ourselves.
+  public getTorrent(taskIdOrMagnetURI: string): Torrent | undefined {
+    const infoHash = getInfoHash(taskIdOrMagnetURI);
+    if (!infoHash || !this.client) return undefined;
+    return this.client.torrents.find(torrent => torrent.infoHash === infoHash);
+  }
+
+  /**
+   * Joins a torrent's swarm on behalf of a browser client that can't reach its TCP/UDP peers.
+   * The browser then gets the data from this server, over WebRTC through the WebSocket trackers
+   * or over HTTP from the web seed at `webSeedPath`. Reuses the torrent if it is already here.
+   */
+  public async startBridge(magnetURI: string, name?: string): Promise<BridgeInfo> {
+    const existing = this.getTorrent(magnetURI);
+    const item = existing ? this.toDisplayItem(existing) : await this.addDownload(magnetURI, { name, bridge: true });
+    if (!existing) console.log(`[WebTorrentManager] Bridging ${item.taskId} for a browser client`);
+    return { taskId: item.taskId, webSeedPath: `/bridge/${item.taskId}/seed`, created: !existing };
+  }
+
+  /** Drops a bridge torrent and its files once the browser no longer needs it. Regular downloads are left alone. */
+  public async stopBridge(taskId: string): Promise<boolean> {
+    if (!this.meta.get(taskId)?.bridge) return false;
+    console.log(`[WebTorrentManager] Browser no longer needs bridge ${taskId}`);
+    return this.remove(taskId, true);
+  }
+
+  /**
+   * The file a web seed request points at. WebTorrent requests single-file torrents at the web
+   * seed URL itself and multi-file torrents at `<web seed URL>/<file.path>`.
+   */
+  public getWebSeedFile(torrent: Torrent, filePath: string): TorrentFile | undefined {
+    if (torrent.files.length === 1 && !filePath) return torrent.files[0];
+    const normalized = filePath.replace(/\\/g, '/');
+    return torrent.files.find(file => file.path.replace(/\\/g, '/') === normalized);
+  }
+
+  /** Resolves once the torrent's metadata (file list) is known. */
+  public waitForMetadata(taskId: string, timeout = METADATA_TIMEOUT): Promise<Torrent> {
+    const torrent = this.getTorrent(taskId);
+    if (!torrent) return Promise.reject(new Error('Task not found'));
+    if (torrent.ready) return Promise.resolve(torrent);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        torrent.removeListener('ready', onReady);
+        reject(new Error(`Timed out waiting for metadata of ${taskId}`));
+      }, timeout);
+      const onReady = () => {
+        clearTimeout(timer);
+        resolve(torrent);
+      };
+      torrent.once('ready', onReady);
+    });
+  }
+
+  /**
+   * Moves the pieces behind [start, start + CRITICAL_WINDOW_BYTES) of a file to the front
+   * of the download order so playback can start (or continue after a seek) quickly.
+   */
+  public prioritiseRange(torrent: Torrent, file: TorrentFile, start: number) {
+    const { offset } = file as OffsetTorrentFile;
+    const firstPiece = Math.floor((offset + start) / torrent.pieceLength);
+    const lastFilePiece = Math.floor((offset + file.length - 1) / torrent.pieceLength);
+    const lastPiece = Math.min(firstPiece + Math.ceil(CRITICAL_WINDOW_BYTES / torrent.pieceLength), lastFilePiece);
+    file.select();
+    (torrent as PrioritisableTorrent).critical(firstPiece, lastPiece);
+  }
+
+  public getStatus(taskId: string): Aria2DownloadItemDisplay | null {
+    const torrent = this.getTorrent(taskId);
+    if (torrent) return this.toDisplayItem(torrent);
+
+    // Torrents that errored out are destroyed by WebTorrent but we keep their meta around.
+    const meta = this.meta.get(taskId);
+    if (meta?.errorMessage) {
+      return {
+        taskId,
+        name: meta.name || taskId,
+        status: 'error',
+        progress: 0,
+        downloadSpeed: 0,
+        uploadSpeed: 0,
+        errorMessage: meta.errorMessage,
+        quality: meta.quality,
+        addedTime: meta.addedTime,
+      };
+    }
+    return null;
+  }
+
+  public getAllStatuses(): Aria2DownloadItemDisplay[] {
+    const statuses = (this.client?.torrents || [])
+      .filter(t => !!t.infoHash)
+      .map(t => this.toDisplayItem(t));
+    this.meta.forEach((meta, taskId) => {
+      if (meta.errorMessage && !statuses.some(s => s.taskId === taskId)) {
+        const status = this.getStatus(taskId);
+        if (status) statuses.push(status);
+      }
+    });
+    return statuses;
+  }
+
+  public getFiles(taskId?: string): ServerTorrentFile[] {
+    const torrents = taskId ? [this.getTorrent(taskId)].filter((t): t is Torrent => !!t) : (this.client?.torrents || []);
+    return torrents.flatMap(torrent =>
+      torrent.files.map((file, index) => ({
+        taskId: torrent.infoHash,
+        index,
+        name: file.name,
+        path: file.path,
+        length: file.length,
+        downloaded: file.downloaded,
+        progress: Math.round(file.progress * 10000) / 100,
+      }))
+    );
+  }
+
+  public pause(taskId: string): boolean {
+    const torrent = this.getTorrent(taskId);
+    if (!torrent) return false;
+    if (!torrent.paused) torrent.pause();
+    if (!torrent.done) downloadStore.setState(taskId, 'paused');
+    this.emit('progress', this.toDisplayItem(torrent));
+    return true;
+  }
+
+  public resume(taskId: string): boolean {
+    const torrent = this.getTorrent(taskId);
+    if (!torrent) return false;
+    if (torrent.paused) torrent.resume();
+    downloadStore.setState(taskId, torrent.done ? 'seeding' : 'active');
+    this.emit('progress', this.toDisplayItem(torrent));
+    return true;
+  }
+
+  public remove(taskId: string, deleteFiles = false): Promise<boolean> {
+    const torrent = this.getTorrent(taskId);
+    this.meta.delete(taskId);
+    downloadStore.remove(taskId);
+    if (!torrent || !this.client) return Promise.resolve(false);
+
+    return new Promise((resolve, reject) => {
+      this.client!.remove(taskId, { destroyStore: deleteFiles }, (err) => {
+        if (err) {
+          console.error(`[WebTorrentManager] Error removing ${taskId}:`, err);
+          reject(typeof err === 'string' ? new Error(err) : err);
+          return;
+        }
+        console.log(`[WebTorrentManager] Removed ${taskId}${deleteFiles ? ' (files deleted)' : ''}`);
+        this.emit('removed', taskId);
+        resolve(true);
+      });
+    });
+  }
+
+  /**
+   * Re-adds every unfinished (or seeding) download from the queue store that the engine
+   * isn't running yet. Called on boot and after a history import. Returns how many started.
+   */
+  public async resumeQueue(): Promise<number> {
+    const entries = (await downloadStore.load()).filter(entry => RESUMABLE_STATES.includes(entry.state) && !this.getTorrent(entry.taskId));
+    let resumed = 0;
+    for (const entry of entries) {
+      try {
+        await this.addDownload(entry.magnetURI, {
+          name: entry.name,
+          itemId: entry.itemId,
+          quality: entry.quality,
+          addedTime: entry.addedTime,
+          paused: entry.state === 'paused',
+          speedLimits: entry.speedLimits,
+          bridge: entry.bridge,
+          torrentFile: entry.torrentFile,
+        });
+        resumed++;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`[WebTorrentManager] Could not resume ${entry.taskId}:`, errorMessage);
+        downloadStore.setState(entry.taskId, 'failed', { lastError: errorMessage });
+      }
+    }
+    if (entries.length > 0) console.log(`[WebTorrentManager] Resumed ${resumed}/${entries.length} downloads from the queue store`);
+    return resumed;
+  }
+
+  /** Imports a v2 history export into the queue store and starts its unfinished downloads. */
+  public async importHistory(items: DownloadHistoryExportItem[]): Promise<HistoryImportResult & { resumed: number }> {
+    await downloadStore.load();
+    const result = downloadStore.importHistory(items);
+    const resumed = result.imported > 0 ? await this.resumeQueue() : 0;
+    return { ...result, resumed };
+  }
+
+  public toDisplayItem(torrent: Torrent): Aria2DownloadItemDisplay {
+    const meta = this.meta.get(torrent.infoHash);
+    let status: Aria2DownloadItemDisplay['status'];
+    if (meta?.errorMessage) status = 'error';
+    else if (!torrent.ready) status = 'connecting';
+    else if (torrent.done) status = 'complete';
+    else if (torrent.paused) status = 'paused';
+    else if (torrent.numPeers === 0) status = 'waiting';
+    else status = 'active';
+
+    return {
+      taskId: torrent.infoHash,
+      name: meta?.name || torrent.name || torrent.infoHash,
+      status,
+      progress: Math.round(torrent.progress * 10000) / 100,
+      downloadSpeed: torrent.downloadSpeed,
+      uploadSpeed: torrent.uploadSpeed,
+      totalLength: torrent.ready ? torrent.length : undefined,
+      completedLength: torrent.downloaded,
+      connections: torrent.numPeers,
+      errorMessage: meta?.errorMessage,
+      quality: meta?.quality,
+      addedTime: meta?.addedTime,
+      bridge: meta?.bridge,
+    };
+  }
+
+  /** Subscribes to every download event in the shape pushed over SSE. Returns an unsubscribe function. */
+  public onDownloadEvent(listener: <T extends DownloadEventType>(type: T, payload: DownloadEventPayloads[T]) => void): () => void {
+    const onAdded = (item: Aria2DownloadItemDisplay) => listener('added', item);
+    const onProgress = (item: Aria2DownloadItemDisplay) => listener('progress', item);
+    const onDone = (item: Aria2DownloadItemDisplay) => listener('done', item);
+    const onError = (taskId: string, errorMessage: string) => listener('error', { taskId, errorMessage });
+    const onRemoved = (taskId: string) => listener('removed', { taskId });
+
+    this.on('added', onAdded);
+    this.on('progress', onProgress);
+    this.on('done', onDone);
+    this.on('downloadError', onError);
+    this.on('removed', onRemoved);
+    return () => {
+      this.off('added', onAdded);
+      this.off('progress', onProgress);
+      this.off('done', onDone);
+      this.off('downloadError', onError);
+      this.off('removed', onRemoved);
+    };
+  }
+
+  public async destroy(): Promise<void> {
+    if (this.progressInterval) clearInterval(this.progressInterval);
+    this.progressInterval = null;
+    if (this.scheduleInterval) clearInterval(this.scheduleInterval);
+    this.scheduleInterval = null;
+    await downloadStore.flush();
+    if (!this.client) return;
+    return new Promise(resolve => {
+      this.client!.destroy((err) => {
+        if (err) console.error('[WebTorrentManager] Error destroying client:', err);
+        this.client = null;
+        resolve();
+      });
+    });
+  }
+}
+
+const webTorrentManager = new WebTorrentManager();
+export default webTorrentManager;
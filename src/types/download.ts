@@ -1,4 +1,5 @@
 // src/types/download.ts
+import type { SpeedLimits } from '../lib/bandwidth';
 
 export interface ConceptualAria2Task {
   taskId: string;
@@ -25,4 +26,133 @@ export interface Aria2DownloadItemDisplay {
   errorMessage?: string;
   quality?: string; // Added from ConceptualAria2Task
   addedTime?: number; // Added from ConceptualAria2Task
+  bridge?: boolean; // Backend torrent that only relays a browser download to TCP/UDP peers
+  engine?: 'torrent' | 'http'; // Which backend engine runs the task; absent for torrents and aria2
+}
+
+// One download from any engine, in the shape the Downloads page lists them. The adapters and the
+// status machine live in src/lib/downloads.ts.
+// 'server' is the backend's own torrent engine (src/server); 'aria2' the aria2 RPC daemon.
+export type DownloadEngine = 'webtorrent' | 'server' | 'aria2' | 'http';
+
+export type DownloadStatus = 'queued' | 'connecting' | 'downloading' | 'stalled' | 'paused' | 'seeding' | 'completed' | 'failed' | 'removed';
+
+export interface Download {
+  id: string; // `${engine}:${engineId}`, unique across engines
+  engine: DownloadEngine;
+  engineId: string; // What the engine calls it: infoHash, aria2 GID or backend task id
+  name: string;
+  status: DownloadStatus;
+  statusDetail?: string; // Why it is stalled or failed
+  progress: number; // 0-1
+  totalBytes?: number; // Unknown until the engine has metadata
+  downloadedBytes: number;
+  downloadSpeed: number; // bytes/s
+  uploadSpeed: number; // bytes/s
+  peers?: number; // Peers or connections, for engines that have them
+  eta?: number; // Seconds left, when the engine can tell
+  addedTime?: number;
+  quality?: string;
+  queuePosition?: number; // Place in the browser client's start queue, 0 = next
+}
+
+// Server-Sent Events pushed by GET /events (backend) and /api/downloads/events (aria2).
+// Every (re)connect starts with a 'snapshot' of all known downloads.
+export interface DownloadEventPayloads {
+  snapshot: { downloads: Aria2DownloadItemDisplay[] };
+  added: Aria2DownloadItemDisplay;
+  progress: Aria2DownloadItemDisplay;
+  done: Aria2DownloadItemDisplay;
+  error: { taskId: string; errorMessage: string };
+  removed: { taskId: string };
+}
+
+export type DownloadEventType = keyof DownloadEventPayloads;
+
+export const DOWNLOAD_EVENT_TYPES: DownloadEventType[] = ['snapshot', 'added', 'progress', 'done', 'error', 'removed'];
+
+// Lifecycle of a download in the backend's persistent queue (src/server/downloadStore.ts).
+export type QueueState = 'queued' | 'active' | 'paused' | 'seeding' | 'completed' | 'failed';
+
+// What every persisted backend download records, whichever engine runs it.
+export interface StoredDownload {
+  taskId: string;
+  name?: string;
+  itemId?: string | number;
+  quality?: string;
+  state: QueueState;
+  addedTime: number;
+  updatedTime: number;
+  completedTime?: number;
+  size?: number;
+  lastError?: string;
+}
+
+export interface QueueEntry extends StoredDownload {
+  taskId: string; // infoHash
+  magnetURI: string;
+  torrentFile?: string; // Base64 .torrent it was added from; resuming from it needs no metadata from peers
+  speedLimits?: SpeedLimits; // Per-torrent caps, KB/s
+  bridge?: boolean;
+}
+
+// One byte range of an HTTP download, fetched over its own connection.
+export interface HttpSegment {
+  start: number;
+  end: number; // Inclusive; -1 when the server didn't say how long the file is
+  downloaded: number; // Bytes written from `start` onwards
+}
+
+// A plain HTTP(S) download on the backend (src/server/httpDownloadManager.ts). The segments are
+// saved with it, so an interrupted download picks up where each connection stopped.
+export interface HttpDownloadEntry extends StoredDownload {
+  url: string;
+  fileName?: string; // Decided once the server has answered; relative to config.downloadBasePath
+  checksum?: string; // "sha256:<hex>", verified once every segment is in
+  connections: number;
+  acceptsRanges?: boolean;
+  etag?: string; // Sent as If-Range, so a file that changed on the server isn't stitched together
+  segments: HttpSegment[];
+}
+
+// One record of a `chillymovies_download_history_v2` localStorage export (see HistoryItem in webtorrent-service).
+export interface DownloadHistoryExportItem {
+  infoHash: string;
+  magnetURI: string;
+  name: string;
+  itemId?: string | number;
+  addedDate: string;
+  completedDate?: string;
+  status: 'completed' | 'failed' | 'removed' | 'active' | 'error' | 'stalled';
+  size?: number;
+  lastError?: string;
+}
+
+// "Download All Seasons" batch jobs (src/lib/series-downloads.ts, /api/downloads/series).
+// How a season was sourced: one pack for the whole series, a pack for the season, or one torrent per episode.
+export type SeriesBatchSource = 'series_pack' | 'season_pack' | 'episodes';
+export type SeriesBatchSeasonState = 'pending' | 'resolving' | 'queued' | 'not_found' | 'failed';
+
+export interface SeriesBatchSeason {
+  seasonNumber: number;
+  name: string;
+  episodeCount: number;
+  state: SeriesBatchSeasonState;
+  source?: SeriesBatchSource;
+  taskIds: string[]; // aria2 GIDs holding this season (shared by every season for a series pack)
+  missingEpisodes: number[]; // Episodes no torrent was found for
+  error?: string;
+}
+
+export interface SeriesBatchJob {
+  jobId: string;
+  seriesId: number | string;
+  seriesTitle: string;
+  quality: string;
+  includeSpecials: boolean;
+  state: 'resolving' | 'done' | 'failed';
+  createdTime: number;
+  updatedTime: number;
+  seasons: SeriesBatchSeason[];
+  error?: string;
 }
@@ -0,0 +1,36 @@
+// src/types/speed-limiter.d.ts
+// Ambient declarations for the parts of speed-limiter we use (the package ships no types).
+// It is the throttling library WebTorrent itself uses for client-wide rate limits.
+
+declare module 'speed-limiter' {
+  // limiter's TokenBucket. A bucket with a parent only hands out tokens the parent can also spare.
+  export interface TokenBucket {
+    bucketSize: number;
+    tokensPerInterval: number;
+    parentBucket: TokenBucket | null;
+  }
+
+  export interface ThrottleGroupOptions {
+    rate: number; // bytes/s
+    enabled?: boolean;
+    chunksize?: number;
+  }
+
+  // A stream transform that draws tokens from its group's bucket for every chunk it passes on.
+  export class Throttle {
+    getGroup(): ThrottleGroup;
+    getEnabled(): boolean;
+    setEnabled(enabled?: boolean): void;
+  }
+
+  export class ThrottleGroup {
+    constructor(options: ThrottleGroupOptions);
+    bucket: TokenBucket;
+    throttles: Throttle[];
+    getEnabled(): boolean;
+    setEnabled(enabled?: boolean): void;
+    getRate(): number;
+    setRate(rate: number, chunksize?: number | null): void;
+    destroy(): void;
+  }
+}
@@ -0,0 +1,30 @@
+// src/types/torrent-search-api.d.ts
+// Ambient declarations for the parts of torrent-search-api we use (the package ships no types).
+
+declare module 'torrent-search-api' {
+  export interface Torrent {
+    title: string;
+    time?: string;
+    seeds?: number;
+    peers?: number;
+    size?: string;
+    magnet?: string;
+    desc?: string;
+    provider: string;
+    [key: string]: unknown;
+  }
+
+  interface TorrentSearchApi {
+    enableProvider(name: string, ...credentials: unknown[]): void;
+    disableProvider(name: string): void;
+    disableAllProviders(): void;
+    isProviderActive(name: string): boolean;
+    getActiveProviders(): { name: string; public: boolean; categories: string[] }[];
+    search(query: string, category?: string, limit?: number): Promise<Torrent[]>;
+    search(providers: string[], query: string, category?: string, limit?: number): Promise<Torrent[]>;
+    getMagnet(torrent: Torrent): Promise<string>;
+  }
+
+  const TorrentSearchApi: TorrentSearchApi;
+  export default TorrentSearchApi;
+}